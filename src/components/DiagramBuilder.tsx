@@ -5,47 +5,157 @@ import ReactFlow, {
   BackgroundVariant,
   Connection,
   Controls,
+  EdgeChange,
   Node,
+  NodeChange,
   NodeTypes,
   ReactFlowInstance,
+  Viewport,
+  XYPosition,
   addEdge,
   useEdgesState,
   useNodesState
 } from 'reactflow';
 import 'reactflow/dist/style.css';
+import { saveAs } from 'file-saver';
 
+import { ToastAction } from '@/components/ui/toast';
 import { useToast } from '@/hooks/use-toast';
-import { K8sNodeData, K8sNodeType, defaultNodeData } from '@/types/k8s';
+import { useDiagramHistory } from '@/hooks/use-diagram-history';
+import { DiagramSettings, IngressNodeData, K8sNodeData, K8sNodeType, LayoutDirection, NAMESPACE_DEFAULT_SIZE, ServiceNodeData, StatefulSetNodeData, defaultDiagramSettings, defaultNodeData, getFlowNodeType } from '@/types/k8s';
 import { TemplateItem } from '@/types/template';
-import { hasExistingConnection, validateConnection } from '@/utils/connectionRules';
-import { clearDiagramState, createAutoSave, loadDiagramState, saveDiagramState } from '@/utils/diagramStorage';
+import { CROSS_NAMESPACE_INGRESS_REASON, findCrossNamespaceIngressEdges, hasExistingConnection, validateConnection } from '@/utils/connectionRules';
+import { buildDiffGraph, diffDiagrams } from '@/utils/diagramDiff';
+import { DiagramFile, diagramFileName, isDiagramFileJson, parseDiagramFile, serializeDiagramFile } from '@/utils/diagramFile';
+import {
+  bindIngressPath,
+  findUnreachablePaths,
+  getConnectedIngresses,
+  getIngressClasses,
+  getIngressEdgeLabels,
+  getIngressServices,
+  renameIngressBackend,
+  resolveIngressRoute,
+} from '@/utils/ingressRouting';
+import { ImportFile, ImportSummary, readDroppedFiles, readManifestFiles } from '@/utils/manifestImport';
+import { MergeConflict, MergeResolution, MergeResult, findMergeConflicts, mergeDiagram } from '@/utils/mergeImport';
+import { LintProblem, lintDiagram } from '@/utils/diagramLint';
+import {
+  DiagramState,
+  NodeMove,
+  addEdgeCommand,
+  addNodesCommand,
+  mergeCommands,
+  moveNodesCommand,
+  removeElementsCommand,
+  replaceDiagramCommand,
+  updateNodeDataCommand,
+} from '@/utils/diagramHistory';
+import {
+  DEFAULT_PROJECT_NAME,
+  Project,
+  ProjectContents,
+  ProjectSummary,
+  Snapshot,
+  createProject,
+  createSnapshot,
+  deleteProject,
+  deleteSnapshot,
+  duplicateProject,
+  listProjects,
+  listSnapshots,
+  openInitialProject,
+  openProject,
+  renameProject,
+  saveProject,
+} from '@/utils/diagramStorage';
+import { findNamespaceAtPosition, sortNamespacesFirst } from '@/utils/namespaces';
 import { DiagramTemplate } from '@/utils/templates';
-import { generateYamlFromGraph } from '@/utils/yamlGenerator';
-import { fetchTemplateYaml, parseYamlToGraph } from '@/utils/yamlParser';
+import { generateManifestsFromGraph, manifestsToYamls } from '@/utils/yamlGenerator';
+import { ParsedGraph, fetchTemplateYaml, parseYamlToGraph } from '@/utils/yamlParser';
+import { layoutDiagram } from '@/utils/autoLayout';
+import { validateGeneratedManifests } from '@/utils/schemaValidation';
+import { countSecretValues, createShareLink, getSharedDiagramFragment, readShareLink } from '@/utils/shareLink';
+import { YamlSyncResult, applyYamlEdit } from '@/utils/yamlSync';
 import {
   Code,
+  FolderOpen,
+  GitCompare,
   Github,
   GraduationCap,
   Menu,
   Plus,
+  Redo2,
+  Route,
   Save,
   Settings,
+  Share2,
   Trash2,
-  Upload,
+  Undo2,
   X
 } from 'lucide-react';
 import K8sNode from './k8s/K8sNode';
+import NamespaceNode from './k8s/NamespaceNode';
 import NodePalette from './k8s/NodePalette';
+import ProblemsPanel from './k8s/ProblemsPanel';
 import PropertiesPanel from './k8s/PropertiesPanel';
 import YamlPanel from './k8s/YamlPanel';
+import ApiUpgradeDialog from './k8s/ApiUpgradeDialog';
+import ExportMenu from './k8s/ExportMenu';
+import ImportMenu from './k8s/ImportMenu';
+import ImportSummaryDialog from './k8s/ImportSummaryDialog';
+import MergeImportDialog from './k8s/MergeImportDialog';
+import LayoutMenu from './k8s/LayoutMenu';
+import ProjectsDialog from './k8s/ProjectsDialog';
+import RouteTesterPanel from './k8s/RouteTesterPanel';
+import ShareDialog from './k8s/ShareDialog';
+import SnapshotDiffPanel from './k8s/SnapshotDiffPanel';
+import SnapshotsDialog from './k8s/SnapshotsDialog';
 
 const nodeTypes: NodeTypes = {
   k8sNode: K8sNode,
+  namespaceNode: NamespaceNode,
 };
 
 let nodeId = 0;
 const getNodeId = () => `node_${nodeId++}`;
 
+// Keeps new node ids clear of the ids a loaded or restored diagram uses
+function reserveNodeIds(nodes: Node<K8sNodeData>[]) {
+  const maxId = nodes.reduce((max, node) => {
+    const id = parseInt(node.id.replace('node_', ''));
+    return isNaN(id) ? max : Math.max(max, id);
+  }, nodeId);
+  nodeId = maxId + 1;
+}
+
+const AUTO_SAVE_DELAY = 1000; // 1 second debounce
+
+/**
+ * Creates a node at an absolute canvas position. Resources dropped inside a
+ * Namespace become its children (positioned relative to it).
+ */
+function placeNode(nds: Node<K8sNodeData>[], nodeType: K8sNodeType, position: XYPosition): Node<K8sNodeData> {
+  const newNode: Node<K8sNodeData> = {
+    id: getNodeId(),
+    type: getFlowNodeType(nodeType),
+    position,
+    data: defaultNodeData[nodeType](),
+  };
+
+  if (nodeType === 'namespace') {
+    return { ...newNode, style: { ...NAMESPACE_DEFAULT_SIZE } };
+  }
+
+  const namespace = findNamespaceAtPosition(position, nds);
+  if (namespace) {
+    const origin = namespace.positionAbsolute || namespace.position;
+    newNode.parentId = namespace.id;
+    newNode.position = { x: position.x - origin.x, y: position.y - origin.y };
+  }
+  return newNode;
+}
+
 export default function DiagramBuilder() {
   const navigate = useNavigate();
   const reactFlowWrapper = useRef<HTMLDivElement>(null);
@@ -56,44 +166,328 @@ export default function DiagramBuilder() {
   const [showTemplates, setShowTemplates] = useState(false);
   const [isLoaded, setIsLoaded] = useState(false);
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
+  // The open project, without its contents (those live in nodes, edges and settings)
+  const [project, setProject] = useState<Omit<Project, keyof ProjectContents> | null>(null);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [showProjects, setShowProjects] = useState(false);
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [showSnapshots, setShowSnapshots] = useState(false);
+  const [showShare, setShowShare] = useState(false);
+  // Revisions shown on the canvas as a diff; null stands for the current diagram
+  const [comparison, setComparison] = useState<{ from: Snapshot | null; to: Snapshot | null } | null>(null);
+  // URL resolved across the Ingresses while the route tester is open
+  const [routeTesterOpen, setRouteTesterOpen] = useState(false);
+  const [routeUrl, setRouteUrl] = useState('');
+  const [routeClass, setRouteClass] = useState('');
+  // Last pan/zoom, saved with the project
+  const [viewport, setViewport] = useState<Viewport | undefined>();
+  // Viewport to restore once the opened project's nodes are on the canvas; null fits the view
+  const pendingViewport = useRef<Viewport | null | undefined>(undefined);
   const [showPalette, setShowPalette] = useState(false);
   const [showYaml, setShowYaml] = useState(false);
   const [showProperties, setShowProperties] = useState(false);
+  const [settings, setSettings] = useState<DiagramSettings>(defaultDiagramSettings);
+  const [importProblems, setImportProblems] = useState<LintProblem[]>([]);
+  // Import waiting for the user to decide whether deprecated apiVersions get upgraded
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; yamlText: string; parsed: ParsedGraph; summary: ImportSummary } | null>(null);
+  const [importSummary, setImportSummary] = useState<{ name: string; summary: ImportSummary } | null>(null);
+  // Import or template waiting for the merge-or-replace decision
+  const [pendingMerge, setPendingMerge] = useState<{
+    name: string;
+    graph: ParsedGraph;
+    conflicts: MergeConflict[];
+    replace: () => void;
+    onMerged?: (result: MergeResult) => void;
+  } | null>(null);
   const { toast } = useToast();
 
-  // Load saved diagram on mount
+  // Latest diagram for history commands, which run outside React's render cycle
+  const diagramState = useRef<DiagramState>({ nodes, edges, settings });
+  diagramState.current = { nodes, edges, settings };
+
+  const applyDiagramState = useCallback((state: DiagramState) => {
+    diagramState.current = state;
+    setNodes(state.nodes);
+    setEdges(state.edges);
+    setSettings(state.settings);
+    setSelectedNode((prev) => (prev && state.nodes.find(n => n.id === prev.id)) || null);
+  }, [setNodes, setEdges]);
+
+  const {
+    execute: executeCommand,
+    record: recordCommand,
+    undo,
+    redo,
+    reset: resetHistory,
+    canUndo,
+    canRedo,
+    undoLabel,
+    redoLabel,
+  } = useDiagramHistory(() => diagramState.current, applyDiagramState);
+
+  // Ctrl+Z / Ctrl+Shift+Z; the YAML editor keeps its own text undo
   useEffect(() => {
-    const savedState = loadDiagramState();
-    if (savedState && savedState.nodes.length > 0) {
-      setNodes(savedState.nodes);
-      setEdges(savedState.edges);
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return;
+      if ((event.target as HTMLElement | null)?.closest('.monaco-editor')) return;
+      event.preventDefault();
+      if (event.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [undo, redo]);
 
-      // Update nodeId counter to avoid conflicts
-      const maxId = savedState.nodes.reduce((max, node) => {
-        const id = parseInt(node.id.replace('node_', ''));
-        return isNaN(id) ? max : Math.max(max, id);
-      }, 0);
-      nodeId = maxId + 1;
+  // Puts a loaded project on the canvas; undo history stays with the project it was made in
+  const showProject = useCallback((loaded: Project) => {
+    const { nodes: projectNodes, edges: projectEdges, settings: projectSettings, viewport: projectViewport, ...meta } = loaded;
+    applyDiagramState({ nodes: sortNamespacesFirst(projectNodes), edges: projectEdges, settings: projectSettings });
+    resetHistory();
+    setProject(meta);
+    setViewport(projectViewport);
+    pendingViewport.current = projectViewport ?? null;
+    setSelectedNode(null);
+    setImportProblems([]);
+    setComparison(null);
+    reserveNodeIds(projectNodes);
+  }, [applyDiagramState, resetHistory]);
+
+  useEffect(() => {
+    if (!reactFlowInstance || pendingViewport.current === undefined) return;
+    const target = pendingViewport.current;
+    pendingViewport.current = undefined;
+    // Wait a frame so the project's nodes are measured before fitting
+    requestAnimationFrame(() => (target ? reactFlowInstance.setViewport(target) : reactFlowInstance.fitView()));
+  }, [reactFlowInstance, project]);
+
+  const reportStorageError = useCallback((error: unknown) => {
+    console.error('Project storage failed:', error);
+    toast({
+      title: "Projects unavailable",
+      description: error instanceof Error ? error.message : "Your browser's project storage could not be opened",
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  // Open the last project (migrating a diagram saved by older versions) on mount
+  useEffect(() => {
+    openInitialProject()
+      .then((loaded) => {
+        showProject(loaded);
+        if (loaded.nodes.length > 0) {
+          toast({
+            title: "Diagram restored",
+            description: `${loaded.name} has been loaded`,
+          });
+        }
+        setIsLoaded(true);
+      })
+      .catch(reportStorageError);
+  }, []);
+
+  const saveCurrentProject = useCallback(async () => {
+    if (!project) return;
+    const { nodes: currentNodes, edges: currentEdges, settings: currentSettings } = diagramState.current;
+    await saveProject({
+      ...project,
+      nodes: currentNodes,
+      edges: currentEdges,
+      settings: currentSettings,
+      viewport: reactFlowInstance?.getViewport() ?? viewport,
+    });
+    setLastSaved(new Date());
+  }, [project, reactFlowInstance, viewport]);
+
+  // Auto-save the open project when the diagram or view changes
+  useEffect(() => {
+    if (!isLoaded) return; // Don't save during initial load
+
+    const timeout = setTimeout(() => {
+      saveCurrentProject().catch((error) => console.error('Failed to save project:', error));
+    }, AUTO_SAVE_DELAY);
+    return () => clearTimeout(timeout);
+  }, [nodes, edges, settings, isLoaded, saveCurrentProject]);
 
+  const refreshProjects = useCallback(async () => {
+    setProjects(await listProjects());
+  }, []);
+
+  const openProjectsDialog = useCallback(() => {
+    refreshProjects().catch(reportStorageError);
+    setShowProjects(true);
+  }, [refreshProjects, reportStorageError]);
+
+  // Saves the open project before another one replaces it on the canvas
+  const switchProject = useCallback(async (open: () => Promise<Project | undefined>) => {
+    try {
+      await saveCurrentProject();
+      const opened = await open();
+      if (opened) showProject(opened);
+      await refreshProjects();
+    } catch (error) {
+      reportStorageError(error);
+    }
+  }, [saveCurrentProject, showProject, refreshProjects, reportStorageError]);
+
+  // Share links open in a new project, so the autosaved one is never overwritten
+  const openShareLink = useCallback(async () => {
+    const fragment = getSharedDiagramFragment(window.location.hash);
+    if (!fragment) return;
+    // Drop the fragment so a reload doesn't import the diagram twice
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    try {
+      const { name, nodes: sharedNodes, edges: sharedEdges, settings: sharedSettings, viewport: sharedViewport } = await readShareLink(fragment);
+      await switchProject(async () => openProject((await createProject(name, {
+        nodes: sharedNodes,
+        edges: sharedEdges,
+        settings: sharedSettings,
+        viewport: sharedViewport,
+      })).id));
+      toast({ title: "Shared diagram opened", description: `${name} was added to your projects` });
+    } catch (error) {
       toast({
-        title: "Diagram restored",
-        description: "Your previous diagram has been loaded",
+        title: "Couldn't open the share link",
+        description: error instanceof Error ? error.message : "The link is not a diagram",
+        variant: "destructive",
       });
     }
-    setIsLoaded(true);
-  }, []);
+  }, [switchProject, toast]);
 
-  // Auto-save diagram when nodes or edges change
   useEffect(() => {
-    if (!isLoaded) return; // Don't save during initial load
+    if (!isLoaded) return;
+    openShareLink();
+    window.addEventListener('hashchange', openShareLink);
+    return () => window.removeEventListener('hashchange', openShareLink);
+  }, [isLoaded, openShareLink]);
 
-    const autoSave = createAutoSave((nodes, edges) => {
-      saveDiagramState(nodes, edges);
-      setLastSaved(new Date());
-    });
+  const handleCreateShareLink = useCallback((includeSecrets: boolean) => {
+    const contents = { ...diagramState.current, viewport: reactFlowInstance?.getViewport() ?? viewport };
+    return createShareLink(project?.name ?? DEFAULT_PROJECT_NAME, contents, { includeSecrets });
+  }, [project, reactFlowInstance, viewport]);
+
+  const handleOpenProject = useCallback((id: string) => {
+    switchProject(() => openProject(id));
+  }, [switchProject]);
+
+  const handleCreateProject = useCallback((name: string) => {
+    switchProject(async () => openProject((await createProject(name)).id));
+  }, [switchProject]);
+
+  const handleRenameProject = useCallback(async (id: string, name: string) => {
+    try {
+      await renameProject(id, name);
+      if (id === project?.id) setProject({ ...project, name });
+      await refreshProjects();
+    } catch (error) {
+      reportStorageError(error);
+    }
+  }, [project, refreshProjects, reportStorageError]);
+
+  const handleDuplicateProject = useCallback(async (id: string) => {
+    try {
+      // The copy of the open project should include its unsaved edits
+      if (id === project?.id) await saveCurrentProject();
+      await duplicateProject(id);
+      await refreshProjects();
+    } catch (error) {
+      reportStorageError(error);
+    }
+  }, [project, saveCurrentProject, refreshProjects, reportStorageError]);
+
+  const handleDeleteProject = useCallback(async (id: string) => {
+    try {
+      await deleteProject(id);
+      if (id === project?.id) {
+        const [recent] = await listProjects();
+        const next = await openProject(recent ? recent.id : (await createProject()).id);
+        if (next) showProject(next);
+      }
+      await refreshProjects();
+    } catch (error) {
+      reportStorageError(error);
+    }
+  }, [project, showProject, refreshProjects, reportStorageError]);
 
-    autoSave(nodes, edges);
-  }, [nodes, edges, isLoaded]);
+  const refreshSnapshots = useCallback(async () => {
+    setSnapshots(project ? await listSnapshots(project.id) : []);
+  }, [project]);
+
+  const openSnapshotsDialog = useCallback(() => {
+    refreshSnapshots().catch(reportStorageError);
+    setShowSnapshots(true);
+  }, [refreshSnapshots, reportStorageError]);
+
+  const handleCreateSnapshot = useCallback(async (name: string) => {
+    if (!project) return;
+    try {
+      await createSnapshot(project.id, name, diagramState.current);
+      await refreshSnapshots();
+      toast({ title: "Snapshot taken", description: name });
+    } catch (error) {
+      reportStorageError(error);
+    }
+  }, [project, refreshSnapshots, reportStorageError, toast]);
+
+  const handleDeleteSnapshot = useCallback(async (id: string) => {
+    try {
+      await deleteSnapshot(id);
+      await refreshSnapshots();
+    } catch (error) {
+      reportStorageError(error);
+    }
+  }, [refreshSnapshots, reportStorageError]);
+
+  const handleCompareSnapshots = useCallback((from: Snapshot | null, to: Snapshot | null) => {
+    setComparison({ from, to });
+    setShowSnapshots(false);
+    setSelectedNode(null);
+  }, []);
+
+  const updateNodeData = useCallback((nodeId: string, data: Partial<K8sNodeData>) => {
+    const { nodes: currentNodes, edges: currentEdges } = diagramState.current;
+    const node = currentNodes.find(n => n.id === nodeId);
+    if (!node) return;
+    const current = node.data as unknown as Record<string, unknown>;
+    const before = Object.fromEntries(Object.keys(data).map(key => [key, current[key]])) as Partial<K8sNodeData>;
+    let command = updateNodeDataCommand(nodeId, before, data);
+
+    // Ingress paths name their Service, so they follow it when it is renamed
+    const newServiceName = (data as Partial<ServiceNodeData>).serviceName;
+    if (node.data.type === 'service' && newServiceName !== undefined) {
+      const oldServiceName = node.data.serviceName;
+      getConnectedIngresses(nodeId, currentNodes, currentEdges).forEach(ingress => {
+        const rules = renameIngressBackend(ingress.data as IngressNodeData, oldServiceName, newServiceName);
+        if (rules) {
+          command = mergeCommands(updateNodeDataCommand(ingress.id, { rules: (ingress.data as IngressNodeData).rules }, { rules }), command);
+        }
+      });
+    }
+    executeCommand(command);
+  }, [executeCommand]);
+
+  // Deletions are applied by React Flow; record them so they can be undone
+  const handleNodesChange = useCallback((changes: NodeChange[]) => {
+    const removedIds = new Set(changes.flatMap(c => (c.type === 'remove' ? [c.id] : [])));
+    if (removedIds.size > 0) {
+      const { nodes: currentNodes, edges: currentEdges } = diagramState.current;
+      recordCommand(removeElementsCommand(
+        currentNodes.filter(n => removedIds.has(n.id)),
+        currentEdges.filter(e => removedIds.has(e.source) || removedIds.has(e.target))
+      ));
+    }
+    onNodesChange(changes);
+  }, [onNodesChange, recordCommand]);
+
+  const handleEdgesChange = useCallback((changes: EdgeChange[]) => {
+    const removedIds = new Set(changes.flatMap(c => (c.type === 'remove' ? [c.id] : [])));
+    if (removedIds.size > 0) {
+      recordCommand(removeElementsCommand([], diagramState.current.edges.filter(e => removedIds.has(e.id))));
+    }
+    onEdgesChange(changes);
+  }, [onEdgesChange, recordCommand]);
 
   const onConnect = useCallback(
     (params: Connection) => {
@@ -112,7 +506,7 @@ export default function DiagramBuilder() {
       }
 
       // Validate connection based on K8s rules
-      const validation = validateConnection(sourceNode, targetNode);
+      const validation = validateConnection(sourceNode, targetNode, nodes);
 
       if (!validation.valid) {
         toast({
@@ -124,7 +518,38 @@ export default function DiagramBuilder() {
       }
 
       // Connection is valid, add it
-      setEdges((eds) => addEdge({ ...params, animated: true }, eds));
+      const [edge] = addEdge({ ...params, animated: true }, []);
+      // A new Ingress → Service edge serves the first path that has no backend yet
+      const boundRules = sourceNode?.data.type === 'ingress' && targetNode?.data.type === 'service'
+        ? bindIngressPath(sourceNode.data, targetNode.data)
+        : null;
+      executeCommand(boundRules
+        ? mergeCommands(updateNodeDataCommand(sourceNode.id, { rules: (sourceNode.data as IngressNodeData).rules }, { rules: boundRules }), addEdgeCommand(edge))
+        : addEdgeCommand(edge));
+
+      // A Service in front of a StatefulSet is usually its governing headless Service
+      if (sourceNode?.data.type === 'service' && targetNode?.data.type === 'statefulset' && !sourceNode.data.headless) {
+        const service = sourceNode.data as ServiceNodeData;
+        const statefulSet = targetNode.data as StatefulSetNodeData;
+        toast({
+          title: "Connection created",
+          description: `Make ${service.label} the headless governing Service for ${statefulSet.label}?`,
+          action: (
+            <ToastAction
+              altText="Make headless"
+              onClick={() => {
+                updateNodeData(sourceNode.id, { headless: true } as Partial<K8sNodeData>);
+                if (!statefulSet.serviceName) {
+                  updateNodeData(targetNode.id, { serviceName: service.serviceName } as Partial<K8sNodeData>);
+                }
+              }}
+            >
+              Make headless
+            </ToastAction>
+          ),
+        });
+        return;
+      }
 
       // Show success feedback
       toast({
@@ -132,7 +557,7 @@ export default function DiagramBuilder() {
         description: `Connected ${(sourceNode?.data as any)?.label} to ${(targetNode?.data as any)?.label}`,
       });
     },
-    [nodes, edges, setEdges, toast]
+    [nodes, edges, executeCommand, toast, updateNodeData]
   );
 
   const onDragStart = useCallback((event: React.DragEvent, nodeType: K8sNodeType) => {
@@ -149,53 +574,48 @@ export default function DiagramBuilder() {
     const centerX = (window.innerWidth / 2 - viewport.x) / viewport.zoom;
     const centerY = (window.innerHeight / 2 - viewport.y) / viewport.zoom;
 
-    const newNode: Node<K8sNodeData> = {
-      id: getNodeId(),
-      type: 'k8sNode',
-      position: { x: centerX - 90, y: centerY - 60 }, // Offset to center the node
-      data: defaultNodeData[nodeType](),
-    };
-
-    setNodes((nds) => [...nds, newNode]);
+    // Offset to center the node
+    executeCommand(addNodesCommand([placeNode(diagramState.current.nodes, nodeType, { x: centerX - 90, y: centerY - 60 })]));
 
     // Close mobile palette after adding
     setShowPalette(false);
 
     toast({
       title: "Node added",
-      description: `${newNode.data.label} added to canvas. Drag to reposition.`,
+      description: `${defaultNodeData[nodeType]().label} added to canvas. Drag to reposition.`,
     });
-  }, [reactFlowInstance, setNodes, toast]);
-
-  const onDragOver = useCallback((event: React.DragEvent) => {
-    event.preventDefault();
-    event.dataTransfer.dropEffect = 'move';
-  }, []);
+  }, [reactFlowInstance, executeCommand, toast]);
 
-  const onDrop = useCallback(
-    (event: React.DragEvent) => {
-      event.preventDefault();
+  // Where each dragged node started, so the drag can be undone as one move
+  const dragOrigins = useRef(new Map<string, NodeMove['from']>());
 
-      const type = event.dataTransfer.getData('application/reactflow') as K8sNodeType;
-      if (!type || !reactFlowInstance || !reactFlowWrapper.current) return;
+  const onNodeDragStart = useCallback((_: React.MouseEvent, _node: Node<K8sNodeData>, dragged: Node<K8sNodeData>[]) => {
+    dragOrigins.current = new Map(dragged.map(n => [n.id, { position: n.position, parentId: n.parentId }]));
+  }, []);
 
-      const bounds = reactFlowWrapper.current.getBoundingClientRect();
-      const position = reactFlowInstance.screenToFlowPosition({
-        x: event.clientX - bounds.left,
-        y: event.clientY - bounds.top,
-      });
+  // Dragging a resource into or out of a Namespace changes which namespace it belongs to
+  const onNodeDragStop = useCallback((_: React.MouseEvent, _node: Node<K8sNodeData>, dragged: Node<K8sNodeData>[]) => {
+    const nds = diagramState.current.nodes;
+    const moves = dragged.flatMap((node): NodeMove[] => {
+      const from = dragOrigins.current.get(node.id);
+      if (!from) return [];
+      let to: NodeMove['to'] = { position: node.position, parentId: node.parentId };
 
-      const newNode: Node<K8sNodeData> = {
-        id: getNodeId(),
-        type: 'k8sNode',
-        position,
-        data: defaultNodeData[type](),
-      };
+      if (node.data.type !== 'namespace') {
+        const absolute = node.positionAbsolute || node.position;
+        const namespace = findNamespaceAtPosition(absolute, nds, node.id);
+        if (namespace?.id !== node.parentId) {
+          const origin = namespace ? namespace.positionAbsolute || namespace.position : { x: 0, y: 0 };
+          to = { parentId: namespace?.id, position: { x: absolute.x - origin.x, y: absolute.y - origin.y } };
+        }
+      }
 
-      setNodes((nds) => [...nds, newNode]);
-    },
-    [reactFlowInstance, setNodes]
-  );
+      const unchanged = from.parentId === to.parentId && from.position.x === to.position.x && from.position.y === to.position.y;
+      return unchanged ? [] : [{ id: node.id, from, to }];
+    });
+    dragOrigins.current = new Map();
+    if (moves.length > 0) executeCommand(moveNodesCommand(moves));
+  }, [executeCommand]);
 
   const onNodeClick = useCallback((_: React.MouseEvent, node: Node<K8sNodeData>) => {
     setSelectedNode(node);
@@ -205,50 +625,87 @@ export default function DiagramBuilder() {
     setSelectedNode(null);
   }, []);
 
-  const updateNodeData = useCallback((nodeId: string, data: Partial<K8sNodeData>) => {
-    setNodes((nds) =>
-      nds.map((node) => {
-        if (node.id === nodeId) {
-          return { ...node, data: { ...node.data, ...data } as K8sNodeData };
-        }
-        return node;
-      })
-    );
-    setSelectedNode((prev) => {
-      if (prev && prev.id === nodeId) {
-        return { ...prev, data: { ...prev.data, ...data } as K8sNodeData };
-      }
-      return prev;
-    });
-  }, [setNodes]);
-
   const loadTemplate = useCallback((template: DiagramTemplate) => {
-    nodeId = template.nodes.length + 1;
-    setNodes(template.nodes);
-    setEdges(template.edges);
+    reserveNodeIds(template.nodes);
+    const before = diagramState.current;
+    executeCommand(replaceDiagramCommand(`Load ${template.name}`, before, { ...before, nodes: template.nodes, edges: template.edges }));
     setSelectedNode(null);
     setShowTemplates(false);
-  }, [setNodes, setEdges]);
+  }, [executeCommand]);
 
-  const handleTemplateSelect = useCallback(async (template: TemplateItem) => {
-    try {
-      const { nodes: templateNodes, edges: templateEdges } = await fetchTemplateYaml(template.path);
+  const reportImportError = useCallback((error: unknown) => {
+    console.error('Error importing file:', error);
+    toast({
+      title: "Import failed",
+      description: error instanceof Error ? error.message : "An error occurred while importing the file",
+      variant: "destructive",
+    });
+  }, [toast]);
 
-      // Update nodeId counter to avoid conflicts
-      const maxId = templateNodes.reduce((max, node) => {
-        const id = parseInt(node.id.replace('node_', ''));
-        return isNaN(id) ? max : Math.max(max, id);
-      }, nodeId);
-      nodeId = maxId + 1;
+  // Imports into a diagram that has content ask whether to merge or replace
+  const offerMerge = useCallback((name: string, graph: ParsedGraph, replace: () => void, onMerged?: (result: MergeResult) => void) => {
+    const current = diagramState.current.nodes;
+    if (current.length === 0) {
+      replace();
+      return;
+    }
+    setPendingMerge({ name, graph, conflicts: findMergeConflicts(current, graph.nodes), replace, onMerged });
+  }, []);
+
+  const handleMerge = useCallback(async (resolutions: Record<string, MergeResolution>) => {
+    if (!pendingMerge) return;
+    const { name, graph, onMerged } = pendingMerge;
+    setPendingMerge(null);
 
-      setNodes(templateNodes);
-      setEdges(templateEdges);
+    try {
+      const before = diagramState.current;
+      const result = await mergeDiagram(before, graph, resolutions);
+      reserveNodeIds(result.nodes);
+      executeCommand(replaceDiagramCommand(`Merge ${name}`, before, { ...before, nodes: result.nodes, edges: result.edges }));
       setSelectedNode(null);
-      setShowPalette(false); // Close mobile palette after loading template
+      requestAnimationFrame(() => reactFlowInstance?.fitView());
+      onMerged?.(result);
 
+      const details = [
+        result.replaced > 0 && `replaced ${result.replaced}`,
+        result.skipped > 0 && `skipped ${result.skipped}`,
+        result.linked > 0 && `${result.linked} connection${result.linked === 1 ? '' : 's'} to existing resources`,
+      ].filter(Boolean);
       toast({
-        title: "Template loaded",
-        description: `${template.title} has been loaded to the canvas`,
+        title: "Merged into diagram",
+        description: `Added ${result.added} resource${result.added === 1 ? '' : 's'} from ${name}${details.length > 0 ? `; ${details.join(', ')}` : ''}.`,
+      });
+    } catch (error) {
+      reportImportError(error);
+    }
+  }, [pendingMerge, executeCommand, reactFlowInstance, reportImportError, toast]);
+
+  const handleTemplateSelect = useCallback(async (template: TemplateItem) => {
+    try {
+      const parsed = await fetchTemplateYaml(template.path, {
+        layoutDirection: diagramState.current.settings.layoutDirection,
+      });
+      setShowPalette(false); // Close mobile palette after loading template
+
+      offerMerge(template.title, parsed, () => {
+        const { nodes: templateNodes, edges: templateEdges } = parsed;
+
+        // Update nodeId counter to avoid conflicts
+        const maxId = templateNodes.reduce((max, node) => {
+          const id = parseInt(node.id.replace('node_', ''));
+          return isNaN(id) ? max : Math.max(max, id);
+        }, nodeId);
+        nodeId = maxId + 1;
+
+        const before = diagramState.current;
+        executeCommand(replaceDiagramCommand(`Load ${template.title}`, before, { ...before, nodes: templateNodes, edges: templateEdges }));
+        setSelectedNode(null);
+        requestAnimationFrame(() => reactFlowInstance?.fitView());
+
+        toast({
+          title: "Template loaded",
+          description: `${template.title} has been loaded to the canvas`,
+        });
       });
     } catch (error) {
       console.error('Error loading template:', error);
@@ -258,22 +715,18 @@ export default function DiagramBuilder() {
         variant: "destructive",
       });
     }
-  }, [setNodes, setEdges, toast]);
-
-  const fileInputRef = useRef<HTMLInputElement>(null);
-
-  const handleImportYaml = useCallback(() => {
-    fileInputRef.current?.click();
-  }, []);
-
-  const handleFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  }, [executeCommand, offerMerge, reactFlowInstance, toast]);
 
-    try {
-      const yamlText = await file.text();
-      const { nodes: importedNodes, edges: importedEdges } = await parseYamlToGraph(yamlText);
+  const applyImport = useCallback((fileName: string, parsed: ParsedGraph, upgraded: boolean, summary: ImportSummary) => {
+    const { nodes: importedNodes, edges: importedEdges, schemaErrors, apiUpgrades } = parsed;
+    // Folders, ZIPs and anything with skipped documents get the full breakdown
+    const showSummary = () => {
+      if (summary.files > 1 || summary.skipped.length > 0) {
+        setImportSummary({ name: fileName, summary });
+      }
+    };
 
+    offerMerge(fileName, parsed, () => {
       // Update nodeId counter to avoid conflicts
       const maxId = importedNodes.reduce((max, node) => {
         const id = parseInt(node.id.replace('node_', ''));
@@ -281,44 +734,302 @@ export default function DiagramBuilder() {
       }, nodeId);
       nodeId = maxId + 1;
 
-      setNodes(importedNodes);
-      setEdges(importedEdges);
+      const before = diagramState.current;
+      executeCommand(replaceDiagramCommand(`Import ${fileName}`, before, { ...before, nodes: importedNodes, edges: importedEdges }));
       setSelectedNode(null);
+      setImportProblems(schemaErrors);
+      requestAnimationFrame(() => reactFlowInstance?.fitView());
 
+      const upgradeSummary = upgraded
+        ? ` Upgraded ${apiUpgrades.length} deprecated apiVersion${apiUpgrades.length === 1 ? '' : 's'}.`
+        : '';
       toast({
         title: "YAML imported",
-        description: `Successfully loaded ${importedNodes.length} resources from ${file.name}`,
+        description: schemaErrors.length > 0
+          ? `Loaded ${importedNodes.length} resources from ${fileName} with ${schemaErrors.length} schema error${schemaErrors.length === 1 ? '' : 's'} for Kubernetes ${settings.kubernetesVersion}; see the Problems panel.${upgradeSummary}`
+          : `Successfully loaded ${importedNodes.length} resources from ${fileName}.${upgradeSummary}`,
       });
+      showSummary();
+    }, ({ idMap }) => {
+      // Schema errors follow their nodes; those of skipped documents are dropped
+      setImportProblems(schemaErrors.flatMap(problem => {
+        const nodeId = problem.nodeId && idMap.get(problem.nodeId);
+        return nodeId ? [{ ...problem, nodeId }] : [];
+      }));
+      showSummary();
+    });
+  }, [executeCommand, offerMerge, reactFlowInstance, settings.kubernetesVersion, toast]);
+
+  // A .k8sdiagram.json file replaces the canvas like a YAML import, settings and view included
+  const applyDiagramFile = useCallback((fileName: string, file: DiagramFile) => {
+    reserveNodeIds(file.nodes);
+    executeCommand(replaceDiagramCommand(
+      `Import ${fileName}`,
+      diagramState.current,
+      { nodes: sortNamespacesFirst(file.nodes), edges: file.edges, settings: file.settings }
+    ));
+    setSelectedNode(null);
+    setImportProblems([]);
+    requestAnimationFrame(() => (file.viewport ? reactFlowInstance?.setViewport(file.viewport) : reactFlowInstance?.fitView()));
+    toast({
+      title: "Diagram imported",
+      description: `Loaded ${file.name} (${file.nodes.length} node${file.nodes.length === 1 ? '' : 's'}) from ${fileName}`,
+    });
+  }, [executeCommand, reactFlowInstance, toast]);
+
+  const handleExportDiagramFile = useCallback(() => {
+    const name = project?.name ?? DEFAULT_PROJECT_NAME;
+    const contents = { ...diagramState.current, viewport: reactFlowInstance?.getViewport() ?? viewport };
+    saveAs(new Blob([serializeDiagramFile(name, contents)], { type: 'application/json' }), diagramFileName(name));
+  }, [project, reactFlowInstance, viewport]);
+
+  const reportExportError = useCallback((error: unknown) => {
+    console.error('Error exporting diagram:', error);
+    toast({
+      title: "Export failed",
+      description: error instanceof Error ? error.message : "An error occurred while exporting the diagram",
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const handleImportFiles = useCallback(async (files: ImportFile[]) => {
+    try {
+      // A single .json file is a project file unless it holds Kubernetes objects
+      if (files.length === 1 && files[0].path.endsWith('.json')) {
+        const text = await files[0].file.text();
+        if (isDiagramFileJson(text)) {
+          applyDiagramFile(files[0].path, parseDiagramFile(text));
+          return;
+        }
+      }
+
+      const { name, yamlText, summary } = await readManifestFiles(files);
+      if (!yamlText) {
+        setImportSummary({ name, summary });
+        return;
+      }
+      const parsed = await parseYamlToGraph(yamlText, { kubernetesVersion: settings.kubernetesVersion, layoutDirection: settings.layoutDirection });
+      if (parsed.apiUpgrades.length > 0) {
+        setPendingImport({ fileName: name, yamlText, parsed, summary });
+      } else {
+        applyImport(name, parsed, false, summary);
+      }
     } catch (error) {
-      console.error('Error importing YAML:', error);
-      toast({
-        title: "Failed to import YAML",
-        description: error instanceof Error ? error.message : "An error occurred while importing the YAML file",
-        variant: "destructive",
+      reportImportError(error);
+    }
+  }, [settings.kubernetesVersion, settings.layoutDirection, applyImport, applyDiagramFile, reportImportError]);
+
+  const onDragOver = useCallback((event: React.DragEvent) => {
+    event.preventDefault();
+    event.dataTransfer.dropEffect = event.dataTransfer.types.includes('Files') ? 'copy' : 'move';
+  }, []);
+
+  const onDrop = useCallback(
+    (event: React.DragEvent) => {
+      event.preventDefault();
+
+      // Files and folders dropped from the desktop are imported
+      if (event.dataTransfer.types.includes('Files')) {
+        readDroppedFiles(event.dataTransfer).then(handleImportFiles, reportImportError);
+        return;
+      }
+
+      const type = event.dataTransfer.getData('application/reactflow') as K8sNodeType;
+      if (!type || !reactFlowInstance || !reactFlowWrapper.current) return;
+
+      const bounds = reactFlowWrapper.current.getBoundingClientRect();
+      const position = reactFlowInstance.screenToFlowPosition({
+        x: event.clientX - bounds.left,
+        y: event.clientY - bounds.top,
       });
+
+      executeCommand(addNodesCommand([placeNode(diagramState.current.nodes, type, position)]));
+    },
+    [reactFlowInstance, executeCommand, handleImportFiles, reportImportError]
+  );
+
+  const resolvePendingImport = useCallback(async (upgrade: boolean) => {
+    if (!pendingImport) return;
+    const { fileName, yamlText, parsed, summary } = pendingImport;
+    setPendingImport(null);
+
+    try {
+      applyImport(fileName, upgrade
+        ? await parseYamlToGraph(yamlText, { kubernetesVersion: settings.kubernetesVersion, upgradeApiVersions: true, layoutDirection: settings.layoutDirection })
+        : parsed, upgrade, summary);
+    } catch (error) {
+      reportImportError(error);
     }
+  }, [pendingImport, settings.kubernetesVersion, settings.layoutDirection, applyImport, reportImportError]);
+
+  // Re-arranges the whole diagram; the direction is remembered for later imports
+  const handleTidyUp = useCallback((layoutDirection: LayoutDirection) => {
+    const before = diagramState.current;
+    executeCommand(replaceDiagramCommand('Tidy up', before, {
+      nodes: layoutDiagram(before.nodes, before.edges, layoutDirection),
+      edges: before.edges,
+      settings: { ...before.settings, layoutDirection },
+    }));
+    requestAnimationFrame(() => reactFlowInstance?.fitView());
+  }, [executeCommand, reactFlowInstance]);
+
+  const handleYamlEdit = useCallback(async (yamlText: string): Promise<YamlSyncResult> => {
+    try {
+      const before = diagramState.current;
+      const result = await applyYamlEdit(before.nodes, before.edges, yamlText, before.settings);
+      if (!result.nodes || !result.edges) return result;
+      const nextNodes = result.nodes;
 
-    // Reset input so same file can be selected again
-    if (event.target) {
-      event.target.value = '';
+      // Update nodeId counter to avoid conflicts
+      const maxId = nextNodes.reduce((max, node) => {
+        const id = parseInt(node.id.replace('node_', ''));
+        return isNaN(id) ? max : Math.max(max, id);
+      }, nodeId);
+      nodeId = maxId + 1;
+
+      // Edits typed in quick succession undo together
+      executeCommand(replaceDiagramCommand('Edit YAML', before, { ...before, nodes: nextNodes, edges: result.edges }, 'yaml'));
+      return result;
+    } catch (error) {
+      return { issues: [{ line: 1, severity: 'error', message: error instanceof Error ? error.message : String(error) }] };
     }
-  }, [setNodes, setEdges, toast]);
+  }, [executeCommand]);
 
   const clearDiagram = useCallback(() => {
-    setNodes([]);
-    setEdges([]);
+    executeCommand(replaceDiagramCommand('Clear diagram', diagramState.current, { nodes: [], edges: [], settings: defaultDiagramSettings }));
     setSelectedNode(null);
-    nodeId = 0;
-    clearDiagramState();
+    setImportProblems([]);
     toast({
       title: "Diagram cleared",
-      description: "Canvas and saved data have been cleared",
+      description: `${project?.name ?? 'The project'} is now empty`,
+      action: (
+        <ToastAction altText="Undo" onClick={undo}>
+          Undo
+        </ToastAction>
+      ),
+    });
+  }, [executeCommand, undo, project, toast]);
+
+  // Restoring is one undoable step, like loading a template
+  const restoreSnapshot = useCallback((snapshot: Snapshot) => {
+    const { nodes: snapshotNodes, edges: snapshotEdges, settings: snapshotSettings } = snapshot;
+    executeCommand(replaceDiagramCommand(
+      `Restore ${snapshot.name}`,
+      diagramState.current,
+      { nodes: sortNamespacesFirst(snapshotNodes), edges: snapshotEdges, settings: snapshotSettings }
+    ));
+    reserveNodeIds(snapshotNodes);
+    setComparison(null);
+    setShowSnapshots(false);
+    setSelectedNode(null);
+    toast({
+      title: "Snapshot restored",
+      description: snapshot.name,
+      action: (
+        <ToastAction altText="Undo" onClick={undo}>
+          Undo
+        </ToastAction>
+      ),
+    });
+  }, [executeCommand, undo, toast]);
+
+  const generatedManifests = useMemo(() => {
+    return generateManifestsFromGraph(nodes, edges, settings);
+  }, [nodes, edges, settings]);
+
+  const generatedYamls = useMemo(() => manifestsToYamls(generatedManifests), [generatedManifests]);
+
+  const lintProblems = useMemo(() => lintDiagram(nodes, edges, settings.lintRules), [nodes, edges, settings.lintRules]);
+
+  const schemaProblems = useMemo(
+    () => validateGeneratedManifests(generatedManifests, nodes, settings.kubernetesVersion),
+    [generatedManifests, nodes, settings.kubernetesVersion]
+  );
+
+  // Errors in the imported YAML stay listed until their node is deleted
+  const problems = useMemo(() => {
+    const nodeIds = new Set(nodes.map(n => n.id));
+    const imported = importProblems.filter(p => !p.nodeId || nodeIds.has(p.nodeId));
+    return [...schemaProblems, ...imported, ...lintProblems];
+  }, [nodes, importProblems, schemaProblems, lintProblems]);
+
+  // Jump to a node and select it
+  const focusNode = useCallback((nodeId: string) => {
+    const node = nodes.find(n => n.id === nodeId);
+    if (!node) return;
+    if (reactFlowInstance) {
+      const measured = reactFlowInstance.getNode(node.id) || node;
+      const origin = measured.positionAbsolute || measured.position;
+      reactFlowInstance.setCenter(
+        origin.x + (measured.width ?? 0) / 2,
+        origin.y + (measured.height ?? 0) / 2,
+        { zoom: 1.2, duration: 400 }
+      );
+    }
+    setNodes((nds) => nds.map((n) => ({ ...n, selected: n.id === node.id })));
+    setSelectedNode(node);
+  }, [nodes, reactFlowInstance, setNodes]);
+
+  const focusProblem = useCallback((problem: LintProblem) => focusNode(problem.nodeId), [focusNode]);
+
+  const hasIngress = nodes.some(n => n.data.type === 'ingress');
+
+  // Where the route tester's URL lands on the chosen class's controller, and paths no URL can reach
+  const routeTest = useMemo(() => {
+    if (!routeTesterOpen) return null;
+    const ingressClasses = getIngressClasses(nodes);
+    const ingressClass = ingressClasses.includes(routeClass) ? routeClass : ingressClasses[0] ?? '';
+    return {
+      ingressClasses,
+      ingressClass,
+      result: routeUrl.trim() ? resolveIngressRoute(nodes, edges, routeUrl.trim(), ingressClass) : null,
+      unreachable: findUnreachablePaths(nodes),
+    };
+  }, [routeTesterOpen, routeUrl, routeClass, nodes, edges]);
+  const routeHit = routeTest?.result?.match;
+
+  // Highlight the Ingress → Service → workload chain that serves the tested URL
+  const displayedNodes = useMemo(() => {
+    if (!routeHit) return nodes;
+    const hitIds = new Set(routeHit.nodeIds);
+    return nodes.map((node) => (hitIds.has(node.id) ? { ...node, className: 'route-hit' } : node));
+  }, [nodes, routeHit]);
+
+  // Label Ingress → Service edges with the routes they serve, and flag ones
+  // that cross namespaces; Kubernetes rejects them
+  const displayedEdges = useMemo(() => {
+    const invalidIds = new Set(findCrossNamespaceIngressEdges(nodes, edges).map(e => e.id));
+    const routeLabels = getIngressEdgeLabels(nodes, edges);
+    const hitIds = new Set(routeHit?.edgeIds);
+    if (invalidIds.size === 0 && routeLabels.size === 0 && hitIds.size === 0) return edges;
+    return edges.map((edge) => {
+      if (invalidIds.has(edge.id)) return { ...edge, className: 'edge-invalid', label: CROSS_NAMESPACE_INGRESS_REASON };
+      const label = routeLabels.get(edge.id);
+      const className = hitIds.has(edge.id) ? 'route-hit' : edge.className;
+      return label || className !== edge.className ? { ...edge, label: label ?? edge.label, className } : edge;
     });
-  }, [setNodes, setEdges, toast]);
+  }, [nodes, edges, routeHit]);
+
+  // Services the selected Ingress can route its paths to
+  const selectedIngressServices = useMemo(
+    () => (selectedNode?.data.type === 'ingress' ? getIngressServices(selectedNode.id, nodes, edges) : []),
+    [selectedNode, nodes, edges]
+  );
 
-  const generatedYamls = useMemo(() => {
-    return generateYamlFromGraph(nodes, edges);
-  }, [nodes, edges]);
+  // The compared revisions, with removed elements kept as ghosts on the canvas
+  const snapshotDiff = useMemo(() => {
+    if (!comparison) return null;
+    const current = { nodes, edges, settings };
+    const from = comparison.from ?? current;
+    const to = comparison.to ?? current;
+    const diff = diffDiagrams(from, to);
+    return { diff, graph: buildDiffGraph(from, to, diff) };
+  }, [comparison, nodes, edges, settings]);
+
+  const toDiffRevision = (snapshot: Snapshot | null) => ({
+    name: snapshot?.name ?? 'Current diagram',
+    onRestore: snapshot ? () => restoreSnapshot(snapshot) : undefined,
+  });
 
   return (
     <div className="h-screen flex flex-col bg-background">
@@ -355,13 +1066,39 @@ export default function DiagramBuilder() {
 
           {/* Desktop Navigation */}
           <div className="hidden md:flex items-center gap-2">
-            <button onClick={clearDiagram} className="btn-ghost">
+            <button onClick={openProjectsDialog} className="btn-ghost" title="Projects">
+              <FolderOpen className="w-4 h-4" />
+              <span className="max-w-40 truncate">{project?.name ?? 'Projects'}</span>
+            </button>
+            <button onClick={openSnapshotsDialog} className="btn-ghost" title="Snapshots">
+              <GitCompare className="w-4 h-4" />
+              Snapshots
+            </button>
+            <button onClick={() => handleCreateProject(DEFAULT_PROJECT_NAME)} className="btn-ghost">
               <Plus className="w-4 h-4" />
               New
             </button>
-            <button onClick={handleImportYaml} className="btn-ghost">
-              <Upload className="w-4 h-4" />
-              Import YAML
+            <ImportMenu onImport={handleImportFiles} />
+            <LayoutMenu direction={settings.layoutDirection} disabled={!!comparison || nodes.length === 0} onLayout={handleTidyUp} />
+            <button
+              onClick={() => setRouteTesterOpen(!routeTesterOpen)}
+              className={`btn-ghost ${routeTesterOpen ? 'text-accent' : ''}`}
+              disabled={!!comparison || !hasIngress}
+              title="Resolve a URL to the backend that would serve it"
+            >
+              <Route className="w-4 h-4" />
+              Test route
+            </button>
+            <ExportMenu
+              projectName={project?.name ?? DEFAULT_PROJECT_NAME}
+              getNodes={() => reactFlowInstance?.getNodes() ?? nodes}
+              edges={edges}
+              onExportProjectFile={handleExportDiagramFile}
+              onError={reportExportError}
+            />
+            <button onClick={() => setShowShare(true)} className="btn-ghost" title="Copy a link to this diagram">
+              <Share2 className="w-4 h-4" />
+              Share
             </button>
             <button onClick={() => navigate('/tutorial')} className="btn-ghost text-blue-600">
               <GraduationCap className="w-4 h-4" />
@@ -408,6 +1145,27 @@ export default function DiagramBuilder() {
         </div>
 
         <div className="flex items-center gap-2 sm:gap-3">
+          <div className="flex items-center">
+            <button
+              onClick={undo}
+              disabled={!canUndo}
+              className="btn-ghost p-1.5 disabled:opacity-40 disabled:pointer-events-none"
+              title={canUndo ? `Undo ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+              aria-label="Undo"
+            >
+              <Undo2 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={redo}
+              disabled={!canRedo}
+              className="btn-ghost p-1.5 disabled:opacity-40 disabled:pointer-events-none"
+              title={canRedo ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+              aria-label="Redo"
+            >
+              <Redo2 className="w-4 h-4" />
+            </button>
+          </div>
+
           {/* Mobile Action Buttons */}
           <button
             onClick={() => setShowProperties(!showProperties)}
@@ -482,27 +1240,64 @@ export default function DiagramBuilder() {
         )}
 
         {/* Center - Canvas */}
-        <main className="flex-1 min-w-0" ref={reactFlowWrapper}>
-          <ReactFlow
-            nodes={nodes}
-            edges={edges}
-            onNodesChange={onNodesChange}
-            onEdgesChange={onEdgesChange}
-            onConnect={onConnect}
-            onInit={setReactFlowInstance}
-            onDrop={onDrop}
-            onDragOver={onDragOver}
-            onNodeClick={onNodeClick}
-            onPaneClick={onPaneClick}
-            nodeTypes={nodeTypes}
-            fitView
-            snapToGrid
-            snapGrid={[15, 15]}
-            defaultEdgeOptions={{ animated: true }}
-          >
-            <Controls />
-            <Background variant={BackgroundVariant.Dots} gap={20} size={1} color="hsl(var(--border))" />
-          </ReactFlow>
+        <main className="flex-1 min-w-0 flex flex-col" ref={reactFlowWrapper}>
+          <div className="flex-1 min-h-0">
+            {/* While comparing, the canvas shows the diff read-only */}
+            <ReactFlow
+              nodes={snapshotDiff ? snapshotDiff.graph.nodes : displayedNodes}
+              edges={snapshotDiff ? snapshotDiff.graph.edges : displayedEdges}
+              onNodesChange={snapshotDiff ? undefined : handleNodesChange}
+              onEdgesChange={snapshotDiff ? undefined : handleEdgesChange}
+              onConnect={onConnect}
+              onInit={setReactFlowInstance}
+              onDrop={snapshotDiff ? undefined : onDrop}
+              onDragOver={onDragOver}
+              onNodeClick={snapshotDiff ? undefined : onNodeClick}
+              onNodeDragStart={onNodeDragStart}
+              onNodeDragStop={onNodeDragStop}
+              onPaneClick={onPaneClick}
+              nodesDraggable={!snapshotDiff}
+              nodesConnectable={!snapshotDiff}
+              elementsSelectable={!snapshotDiff}
+              onMoveEnd={(_, vp) => setViewport(vp)}
+              nodeTypes={nodeTypes}
+              fitView
+              snapToGrid
+              snapGrid={[15, 15]}
+              defaultEdgeOptions={{ animated: true }}
+            >
+              <Controls />
+              <Background variant={BackgroundVariant.Dots} gap={20} size={1} color="hsl(var(--border))" />
+            </ReactFlow>
+          </div>
+          {comparison && snapshotDiff ? (
+            <SnapshotDiffPanel
+              from={toDiffRevision(comparison.from)}
+              to={toDiffRevision(comparison.to)}
+              diff={snapshotDiff.diff}
+              onClose={() => setComparison(null)}
+            />
+          ) : routeTest ? (
+            <RouteTesterPanel
+              url={routeUrl}
+              onUrlChange={setRouteUrl}
+              ingressClasses={routeTest.ingressClasses}
+              ingressClass={routeTest.ingressClass}
+              onIngressClassChange={setRouteClass}
+              result={routeTest.result}
+              unreachable={routeTest.unreachable}
+              nodes={nodes}
+              onSelectNode={focusNode}
+              onClose={() => setRouteTesterOpen(false)}
+            />
+          ) : (
+            <ProblemsPanel
+              problems={problems}
+              ruleOverrides={settings.lintRules}
+              onRuleOverridesChange={(lintRules) => setSettings((prev) => ({ ...prev, lintRules }))}
+              onSelectProblem={focusProblem}
+            />
+          )}
         </main>
 
         {/* Right Sidebar - Properties + YAML (Desktop: always visible, Mobile: bottom sheet) */}
@@ -534,6 +1329,7 @@ export default function DiagramBuilder() {
                 <div className="flex-1 min-h-0 overflow-auto">
                   <PropertiesPanel
                     node={selectedNode}
+                    connectedServices={selectedIngressServices}
                     onUpdate={updateNodeData}
                     onClose={() => {
                       setSelectedNode(null);
@@ -552,7 +1348,7 @@ export default function DiagramBuilder() {
                   </button>
                 </div>
                 <div className="flex-1 min-h-0">
-                  <YamlPanel yamls={generatedYamls} />
+                  <YamlPanel yamls={generatedYamls} manifests={generatedManifests} settings={settings} onSettingsChange={setSettings} onYamlEdit={handleYamlEdit} />
                 </div>
               </div>
             )}
@@ -563,24 +1359,76 @@ export default function DiagramBuilder() {
             <div className="h-1/2 border-b border-border overflow-hidden">
               <PropertiesPanel
                 node={selectedNode}
+                connectedServices={selectedIngressServices}
                 onUpdate={updateNodeData}
                 onClose={() => setSelectedNode(null)}
               />
             </div>
             <div className="h-1/2 overflow-hidden">
-              <YamlPanel yamls={generatedYamls} />
+              <YamlPanel yamls={generatedYamls} manifests={generatedManifests} settings={settings} onSettingsChange={setSettings} onYamlEdit={handleYamlEdit} />
             </div>
           </div>
         </aside>
       </div>
 
-      {/* Hidden file input for YAML import */}
-      <input
-        ref={fileInputRef}
-        type="file"
-        accept=".yaml,.yml"
-        onChange={handleFileChange}
-        style={{ display: 'none' }}
+      <ProjectsDialog
+        open={showProjects}
+        onOpenChange={setShowProjects}
+        projects={projects}
+        currentProjectId={project?.id}
+        onOpenProject={handleOpenProject}
+        onCreate={handleCreateProject}
+        onRename={handleRenameProject}
+        onDuplicate={handleDuplicateProject}
+        onDelete={handleDeleteProject}
+      />
+
+      <SnapshotsDialog
+        open={showSnapshots}
+        onOpenChange={setShowSnapshots}
+        projectName={project?.name ?? 'this project'}
+        snapshots={snapshots}
+        onCreate={handleCreateSnapshot}
+        onRestore={restoreSnapshot}
+        onCompare={handleCompareSnapshots}
+        onDelete={handleDeleteSnapshot}
+      />
+
+      <ShareDialog
+        open={showShare}
+        onOpenChange={setShowShare}
+        secretCount={showShare ? countSecretValues(nodes) : 0}
+        onCreateLink={handleCreateShareLink}
+      />
+
+      <MergeImportDialog
+        open={!!pendingMerge}
+        onOpenChange={(open) => !open && setPendingMerge(null)}
+        name={pendingMerge?.name || ''}
+        resourceCount={pendingMerge?.graph.nodes.filter(n => n.data.type !== 'namespace').length ?? 0}
+        conflicts={pendingMerge?.conflicts || []}
+        onReplace={() => {
+          pendingMerge?.replace();
+          setPendingMerge(null);
+        }}
+        onMerge={handleMerge}
+      />
+
+      <ImportSummaryDialog
+        open={!!importSummary}
+        onOpenChange={(open) => !open && setImportSummary(null)}
+        name={importSummary?.name || ''}
+        summary={importSummary?.summary || null}
+      />
+
+      <ApiUpgradeDialog
+        open={!!pendingImport}
+        onOpenChange={(open) => !open && setPendingImport(null)}
+        fileName={pendingImport?.fileName || ''}
+        kubernetesVersion={settings.kubernetesVersion}
+        upgrades={pendingImport?.parsed.apiUpgrades || []}
+        onUpgrade={() => resolvePendingImport(true)}
+        onImportAsIs={() => resolvePendingImport(false)}
       />
     </div>
   );
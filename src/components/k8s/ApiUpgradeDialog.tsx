@@ -0,0 +1,77 @@
+import { ApiVersionUpgrade } from '@/utils/kubernetesVersions';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface ApiUpgradeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fileName: string;
+  kubernetesVersion: string;
+  upgrades: ApiVersionUpgrade[];
+  onUpgrade: () => void;
+  onImportAsIs: () => void;
+}
+
+/**
+ * Offers to move documents with deprecated apiVersions to the ones the target
+ * Kubernetes version serves, listing every change before it is made
+ */
+export default function ApiUpgradeDialog({
+  open,
+  onOpenChange,
+  fileName,
+  kubernetesVersion,
+  upgrades,
+  onUpgrade,
+  onImportAsIs,
+}: ApiUpgradeDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Upgrade deprecated APIs?</DialogTitle>
+          <DialogDescription>
+            {fileName} uses {upgrades.length} deprecated apiVersion{upgrades.length === 1 ? '' : 's'} for Kubernetes {kubernetesVersion}.
+            Upgrading rewrites these documents before import; importing as is may drop fields the diagram can't read in the old format.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <ul className="max-h-72 overflow-y-auto scrollbar-thin space-y-2 pr-1">
+            {upgrades.map(upgrade => (
+              <li key={upgrade.documentIndex} className="p-2 border border-border rounded-md space-y-1">
+                <div className="flex items-center justify-between gap-2 text-sm text-foreground">
+                  <span>{upgrade.kind}/{upgrade.name}</span>
+                  <span className="text-xs text-muted-foreground">removed in {upgrade.removedIn}</span>
+                </div>
+                <div className="text-xs font-mono text-muted-foreground">
+                  {upgrade.from} → {upgrade.to}
+                </div>
+                {upgrade.changes.length > 0 && (
+                  <ul className="list-disc pl-5 text-xs text-foreground">
+                    {upgrade.changes.map(change => (
+                      <li key={change}>{change}</li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex gap-2 justify-end">
+            <button onClick={onImportAsIs} className="btn-ghost">
+              Import as is
+            </button>
+            <button onClick={onUpgrade} className="btn-primary">
+              Upgrade and import
+            </button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,116 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { Edge, Node } from 'reactflow';
+import { saveAs } from 'file-saver';
+import { Download, FileCode, FileJson, Image as ImageIcon } from 'lucide-react';
+import { K8sNodeData } from '@/types/k8s';
+import { DIAGRAM_FILE_EXTENSION, fileSlug } from '@/utils/diagramFile';
+import { SvgTheme, buildDiagramSvg, svgToPng, toDot, toMermaid } from '@/utils/diagramExport';
+import { getNodeSummary, nodeConfig } from './nodeConfig';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+interface ExportMenuProps {
+  projectName: string;
+  // Nodes as React Flow measured them, for positions and sizes
+  getNodes: () => Node<K8sNodeData>[];
+  edges: Edge[];
+  onExportProjectFile: () => void;
+  onError: (error: unknown) => void;
+}
+
+// Theme colors are HSL components in CSS variables, e.g. "220 20% 13%"
+function cssColor(variable: string): string {
+  const value = getComputedStyle(document.documentElement).getPropertyValue(`--${variable}`).trim();
+  return `hsl(${value.split(/\s+/).join(', ')})`;
+}
+
+function renderSvg(nodes: Node<K8sNodeData>[], edges: Edge[]) {
+  const theme: SvgTheme = {
+    background: cssColor('background'),
+    card: cssColor('card'),
+    border: cssColor('border'),
+    foreground: cssColor('foreground'),
+    mutedForeground: cssColor('muted-foreground'),
+  };
+  return buildDiagramSvg(nodes, edges, theme, (node) => {
+    const color = cssColor(`node-${node.data.type}`);
+    const size = node.data.type === 'namespace' ? 16 : 20;
+    return {
+      color,
+      icon: renderToStaticMarkup(createElement(nodeConfig[node.data.type].icon, { size, color })),
+      lines: getNodeSummary(node.data).filter(Boolean),
+    };
+  });
+}
+
+/**
+ * Export dropdown in the header: the project file, images for architecture
+ * reviews and Mermaid/Graphviz sources for READMEs and ADRs
+ */
+export default function ExportMenu({ projectName, getNodes, edges, onExportProjectFile, onError }: ExportMenuProps) {
+  const baseName = fileSlug(projectName);
+
+  const download = (run: () => Promise<void> | void) => async () => {
+    try {
+      await run();
+    } catch (error) {
+      onError(error);
+    }
+  };
+
+  const exportSvg = download(() => {
+    const { svg } = renderSvg(getNodes(), edges);
+    saveAs(new Blob([svg], { type: 'image/svg+xml' }), `${baseName}.svg`);
+  });
+
+  const exportPng = download(async () => {
+    saveAs(await svgToPng(renderSvg(getNodes(), edges)), `${baseName}.png`);
+  });
+
+  const exportMermaid = download(() => {
+    saveAs(new Blob([toMermaid(getNodes(), edges)], { type: 'text/plain' }), `${baseName}.mmd`);
+  });
+
+  const exportDot = download(() => {
+    saveAs(new Blob([toDot(getNodes(), edges, projectName)], { type: 'text/vnd.graphviz' }), `${baseName}.dot`);
+  });
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger className="btn-ghost">
+        <Download className="w-4 h-4" />
+        Export
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        <DropdownMenuItem onSelect={onExportProjectFile}>
+          <FileJson className="w-4 h-4 mr-2" />
+          Project file ({DIAGRAM_FILE_EXTENSION})
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={exportPng}>
+          <ImageIcon className="w-4 h-4 mr-2" />
+          PNG image
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={exportSvg}>
+          <ImageIcon className="w-4 h-4 mr-2" />
+          SVG image
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={exportMermaid}>
+          <FileCode className="w-4 h-4 mr-2" />
+          Mermaid flowchart (.mmd)
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={exportDot}>
+          <FileCode className="w-4 h-4 mr-2" />
+          Graphviz DOT (.dot)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,167 @@
+import { useState, useMemo, useCallback } from 'react';
+import JSZip from 'jszip';
+import { saveAs } from 'file-saver';
+import { GeneratedManifests } from '@/types/k8s';
+import {
+  buildHelmChart,
+  findHelmValueCandidates,
+  HelmValueCandidate,
+  HELM_VALUE_FIELD_LABELS,
+  DEFAULT_HELM_CHART_NAME,
+} from '@/utils/helmChart';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface HelmChartDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  manifests: GeneratedManifests;
+}
+
+const CHART_NAME_PATTERN = /^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/;
+const SEMVER_PATTERN = /^\d+\.\d+\.\d+(-[0-9A-Za-z.-]+)?(\+[0-9A-Za-z.-]+)?$/;
+
+export default function HelmChartDialog({ open, onOpenChange, manifests }: HelmChartDialogProps) {
+  const [chartName, setChartName] = useState(DEFAULT_HELM_CHART_NAME);
+  const [chartVersion, setChartVersion] = useState('0.1.0');
+  const [appVersion, setAppVersion] = useState('1.0.0');
+  // Track opt-outs rather than opt-ins so fields of newly added nodes start out as values
+  const [excludedIds, setExcludedIds] = useState<Set<string>>(new Set());
+
+  const candidates = useMemo(() => findHelmValueCandidates(manifests), [manifests]);
+
+  const groups = useMemo(() => {
+    const byResource = new Map<string, HelmValueCandidate[]>();
+    candidates.forEach(c => {
+      const key = `${c.kind}/${c.name}@${c.namespace || ''}`;
+      byResource.set(key, [...(byResource.get(key) || []), c]);
+    });
+    return [...byResource.values()];
+  }, [candidates]);
+
+  const toggleCandidate = (id: string, checked: boolean) => {
+    setExcludedIds(prev => {
+      const next = new Set(prev);
+      if (checked) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const isValid = CHART_NAME_PATTERN.test(chartName) && SEMVER_PATTERN.test(chartVersion) && appVersion.trim() !== '';
+
+  const handleDownload = useCallback(async () => {
+    const files = buildHelmChart(manifests, {
+      chartName,
+      chartVersion,
+      appVersion: appVersion.trim(),
+      selectedValueIds: new Set(candidates.filter(c => !excludedIds.has(c.id)).map(c => c.id)),
+    });
+
+    const zip = new JSZip();
+    Object.entries(files).forEach(([path, content]) => zip.file(`${chartName}/${path}`, content));
+    const content = await zip.generateAsync({ type: 'blob' });
+    saveAs(content, `${chartName}-${chartVersion}.zip`);
+    onOpenChange(false);
+  }, [manifests, chartName, chartVersion, appVersion, candidates, excludedIds, onOpenChange]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Download Helm Chart</DialogTitle>
+          <DialogDescription>
+            Packages the diagram as a chart with Chart.yaml, values.yaml and one template per resource. Checked fields are lifted into values.yaml.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <label className="label-text" htmlFor="helmChartName">Chart name</label>
+              <input
+                id="helmChartName"
+                type="text"
+                className="input-field"
+                value={chartName}
+                onChange={(e) => setChartName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="label-text" htmlFor="helmChartVersion">Version</label>
+              <input
+                id="helmChartVersion"
+                type="text"
+                className="input-field"
+                value={chartVersion}
+                onChange={(e) => setChartVersion(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="label-text" htmlFor="helmAppVersion">App version</label>
+              <input
+                id="helmAppVersion"
+                type="text"
+                className="input-field"
+                value={appVersion}
+                onChange={(e) => setAppVersion(e.target.value)}
+              />
+            </div>
+          </div>
+          {!isValid && (
+            <p className="text-xs text-destructive">
+              Chart names are lowercase letters, digits and hyphens; versions must be SemVer (e.g. 0.1.0)
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <span className="label-text">Values</span>
+            {groups.length === 0 ? (
+              <p className="text-xs text-muted-foreground">
+                No workloads or ingresses to parameterize; templates will use literal values.
+              </p>
+            ) : (
+              <div className="max-h-64 overflow-y-auto scrollbar-thin space-y-3 pr-1">
+                {groups.map(group => (
+                  <div key={group[0].id} className="p-2 border border-border rounded-md space-y-1">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium text-foreground">{group[0].kind}/{group[0].name}</span>
+                      <span className="text-xs font-mono text-muted-foreground">.Values.{group[0].valuesKey}</span>
+                    </div>
+                    <div className="flex flex-wrap gap-x-4 gap-y-1">
+                      {group.map(c => (
+                        <label key={c.id} className="flex items-center gap-1.5 text-xs text-foreground">
+                          <input
+                            type="checkbox"
+                            checked={!excludedIds.has(c.id)}
+                            onChange={(e) => toggleCandidate(c.id, e.target.checked)}
+                            className="w-4 h-4"
+                          />
+                          {HELM_VALUE_FIELD_LABELS[c.field]}
+                          {c.field === 'host' && <span className="font-mono text-muted-foreground">{String(c.defaultValue)}</span>}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex gap-2 justify-end">
+            <button onClick={() => onOpenChange(false)} className="btn-ghost">
+              Cancel
+            </button>
+            <button onClick={handleDownload} className="btn-primary" disabled={!isValid}>
+              Download chart
+            </button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,73 @@
+import { useRef } from 'react';
+import { FileUp, FolderUp, Upload } from 'lucide-react';
+import { DIAGRAM_FILE_EXTENSION } from '@/utils/diagramFile';
+import { ImportFile } from '@/utils/manifestImport';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+interface ImportMenuProps {
+  onImport: (files: ImportFile[]) => void;
+}
+
+// Not in React's input typings yet, but supported by every current browser
+const folderPickerProps = { webkitdirectory: '' } as React.InputHTMLAttributes<HTMLInputElement>;
+
+/**
+ * Import dropdown in the header: YAML, JSON and ZIP files, or a whole folder
+ * of manifests
+ */
+export default function ImportMenu({ onImport }: ImportMenuProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    // Reset input so the same selection can be imported again
+    event.target.value = '';
+    if (files.length > 0) {
+      onImport(files.map(file => ({ path: file.webkitRelativePath || file.name, file })));
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger className="btn-ghost" title={`Import YAML, kubectl JSON, a ZIP or a ${DIAGRAM_FILE_EXTENSION} file`}>
+          <Upload className="w-4 h-4" />
+          Import
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          <DropdownMenuItem onSelect={() => fileInputRef.current?.click()}>
+            <FileUp className="w-4 h-4 mr-2" />
+            Files (YAML, JSON, ZIP)…
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => folderInputRef.current?.click()}>
+            <FolderUp className="w-4 h-4 mr-2" />
+            Folder…
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {/* Hidden inputs behind the menu items */}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".yaml,.yml,.json,.zip"
+        multiple
+        onChange={handleChange}
+        style={{ display: 'none' }}
+      />
+      <input
+        ref={folderInputRef}
+        type="file"
+        {...folderPickerProps}
+        onChange={handleChange}
+        style={{ display: 'none' }}
+      />
+    </>
+  );
+}
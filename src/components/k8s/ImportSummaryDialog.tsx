@@ -0,0 +1,77 @@
+import { ImportSummary } from '@/utils/manifestImport';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface ImportSummaryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  name: string;
+  summary: ImportSummary | null;
+}
+
+/**
+ * What a folder, ZIP or List import picked up, and what it left out and why
+ */
+export default function ImportSummaryDialog({ open, onOpenChange, name, summary }: ImportSummaryDialogProps) {
+  const recognized = Object.entries(summary?.recognized || {}).sort(([a], [b]) => a.localeCompare(b));
+  const total = recognized.reduce((sum, [, count]) => sum + count, 0);
+  const skipped = summary?.skipped || [];
+  const files = summary?.files ?? 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{total > 0 ? 'Import summary' : 'Nothing imported'}</DialogTitle>
+          <DialogDescription>
+            {total > 0
+              ? `Imported ${total} resource${total === 1 ? '' : 's'} from ${name} (${files} file${files === 1 ? '' : 's'}).`
+              : `${name} has no resources the diagram can show; the canvas was left unchanged.`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          {recognized.length > 0 && (
+            <div>
+              <div className="label-text mb-2">Recognized</div>
+              <div className="flex flex-wrap gap-2">
+                {recognized.map(([kind, count]) => (
+                  <span key={kind} className="px-2 py-1 text-xs rounded-md border border-border text-foreground">
+                    {kind} <span className="text-muted-foreground">× {count}</span>
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {skipped.length > 0 && (
+            <div>
+              <div className="label-text mb-2">Skipped ({skipped.length})</div>
+              <ul className="max-h-72 overflow-y-auto scrollbar-thin space-y-2 pr-1">
+                {skipped.map((item, i) => (
+                  <li key={`${item.source}-${i}`} className="p-2 border border-border rounded-md space-y-1">
+                    <div className="flex items-center justify-between gap-2 text-sm text-foreground">
+                      <span className="truncate">{item.resource ?? item.source}</span>
+                      {item.resource && <span className="text-xs font-mono text-muted-foreground truncate">{item.source}</span>}
+                    </div>
+                    <div className="text-xs text-muted-foreground">{item.reason}</div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <button onClick={() => onOpenChange(false)} className="btn-primary">
+              OK
+            </button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,182 @@
+import { useState, useMemo, useCallback } from 'react';
+import JSZip from 'jszip';
+import { saveAs } from 'file-saver';
+import { X } from 'lucide-react';
+import { DiagramEnvironments, GeneratedManifests } from '@/types/k8s';
+import {
+  buildKustomizeExport,
+  findEnvironmentFieldCandidates,
+  ENVIRONMENT_FIELD_LABELS,
+  ENVIRONMENT_NAME_PATTERN,
+} from '@/utils/kustomize';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface KustomizeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  manifests: GeneratedManifests;
+  environments: DiagramEnvironments;
+  onEnvironmentsChange: (environments: DiagramEnvironments) => void;
+}
+
+export default function KustomizeDialog({
+  open,
+  onOpenChange,
+  manifests,
+  environments,
+  onEnvironmentsChange,
+}: KustomizeDialogProps) {
+  const [newEnvironment, setNewEnvironment] = useState('');
+
+  const candidates = useMemo(() => findEnvironmentFieldCandidates(manifests), [manifests]);
+
+  const canAddEnvironment = ENVIRONMENT_NAME_PATTERN.test(newEnvironment) && !environments.names.includes(newEnvironment);
+
+  const addEnvironment = () => {
+    if (!canAddEnvironment) return;
+    onEnvironmentsChange({ ...environments, names: [...environments.names, newEnvironment] });
+    setNewEnvironment('');
+  };
+
+  const removeEnvironment = (name: string) => {
+    const overrides = Object.fromEntries(
+      Object.entries(environments.overrides).map(([id, values]) => {
+        const { [name]: _removed, ...rest } = values;
+        return [id, rest];
+      })
+    );
+    onEnvironmentsChange({ names: environments.names.filter(n => n !== name), overrides });
+  };
+
+  const toggleField = (id: string, environmentSpecific: boolean) => {
+    const { [id]: _removed, ...rest } = environments.overrides;
+    onEnvironmentsChange({
+      ...environments,
+      overrides: environmentSpecific ? { ...rest, [id]: {} } : rest,
+    });
+  };
+
+  const updateValue = (id: string, environment: string, value: string) => {
+    onEnvironmentsChange({
+      ...environments,
+      overrides: {
+        ...environments.overrides,
+        [id]: { ...environments.overrides[id], [environment]: value },
+      },
+    });
+  };
+
+  const handleDownload = useCallback(async () => {
+    const files = buildKustomizeExport(manifests, environments);
+    const zip = new JSZip();
+    Object.entries(files).forEach(([path, content]) => zip.file(path, content));
+    const content = await zip.generateAsync({ type: 'blob' });
+    saveAs(content, 'k8s-kustomize.zip');
+    onOpenChange(false);
+  }, [manifests, environments, onOpenChange]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Download Kustomize Overlays</DialogTitle>
+          <DialogDescription>
+            Writes a base with every generated resource plus one overlay per environment. Mark the fields that differ per environment; blank values keep the base.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <span className="label-text">Environments</span>
+            <div className="flex flex-wrap items-center gap-2">
+              {environments.names.map(name => (
+                <span key={name} className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-secondary text-xs font-mono">
+                  {name}
+                  <button
+                    onClick={() => removeEnvironment(name)}
+                    className="text-muted-foreground hover:text-destructive"
+                    title={`Remove ${name}`}
+                    aria-label={`Remove ${name}`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+              <input
+                type="text"
+                className="input-field py-1 text-xs w-28"
+                placeholder="e.g. qa"
+                value={newEnvironment}
+                onChange={(e) => setNewEnvironment(e.target.value.toLowerCase())}
+                onKeyDown={(e) => e.key === 'Enter' && addEnvironment()}
+              />
+              <button onClick={addEnvironment} className="btn-ghost text-xs" disabled={!canAddEnvironment}>
+                Add
+              </button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <span className="label-text">Environment-specific fields</span>
+            {candidates.length === 0 ? (
+              <p className="text-xs text-muted-foreground">
+                Add workloads or ingresses to patch replicas, image tags or hosts per environment.
+              </p>
+            ) : (
+              <div className="max-h-72 overflow-y-auto scrollbar-thin space-y-2 pr-1">
+                {candidates.map(c => {
+                  const values = environments.overrides[c.id];
+                  return (
+                    <div key={c.id} className="p-2 border border-border rounded-md space-y-2">
+                      <label className="flex items-center gap-2 text-sm text-foreground">
+                        <input
+                          type="checkbox"
+                          checked={!!values}
+                          onChange={(e) => toggleField(c.id, e.target.checked)}
+                          className="w-4 h-4"
+                        />
+                        <span className="flex-1">{c.kind}/{c.name} · {ENVIRONMENT_FIELD_LABELS[c.field]}</span>
+                        <span className="text-xs font-mono text-muted-foreground">{c.baseValue}</span>
+                      </label>
+                      {values && (
+                        <div className="grid grid-cols-3 gap-2">
+                          {environments.names.map(name => (
+                            <div key={name} className="space-y-0.5">
+                              <span className="text-xs text-muted-foreground">{name}</span>
+                              <input
+                                type={c.field === 'replicas' ? 'number' : 'text'}
+                                min={c.field === 'replicas' ? 0 : undefined}
+                                className="input-field py-1 text-xs"
+                                placeholder={c.baseValue}
+                                value={values[name] || ''}
+                                onChange={(e) => updateValue(c.id, name, e.target.value)}
+                              />
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          <div className="flex gap-2 justify-end">
+            <button onClick={() => onOpenChange(false)} className="btn-ghost">
+              Cancel
+            </button>
+            <button onClick={handleDownload} className="btn-primary">
+              Download overlays
+            </button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,44 @@
+import { ArrowDown, ArrowRight, Check, LayoutGrid } from 'lucide-react';
+import { LayoutDirection } from '@/types/k8s';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+interface LayoutMenuProps {
+  // Direction of the last layout, checked in the menu
+  direction: LayoutDirection;
+  disabled?: boolean;
+  onLayout: (direction: LayoutDirection) => void;
+}
+
+const directions: { direction: LayoutDirection; label: string; icon: typeof ArrowDown }[] = [
+  { direction: 'TB', label: 'Top to bottom', icon: ArrowDown },
+  { direction: 'LR', label: 'Left to right', icon: ArrowRight },
+];
+
+/**
+ * "Tidy up" dropdown in the header: re-runs the layered auto-layout on the
+ * whole diagram in either direction
+ */
+export default function LayoutMenu({ direction, disabled, onLayout }: LayoutMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger className="btn-ghost" disabled={disabled} title="Arrange the diagram automatically">
+        <LayoutGrid className="w-4 h-4" />
+        Tidy up
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        {directions.map(({ direction: option, label, icon: Icon }) => (
+          <DropdownMenuItem key={option} onSelect={() => onLayout(option)}>
+            <Icon className="w-4 h-4 mr-2" />
+            {label}
+            {option === direction && <Check className="w-4 h-4 ml-auto" />}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
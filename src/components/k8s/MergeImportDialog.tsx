@@ -0,0 +1,111 @@
+import { useEffect, useState } from 'react';
+import { MergeConflict, MergeResolution } from '@/utils/mergeImport';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface MergeImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // File or template being imported
+  name: string;
+  resourceCount: number;
+  conflicts: MergeConflict[];
+  onReplace: () => void;
+  onMerge: (resolutions: Record<string, MergeResolution>) => void;
+}
+
+/**
+ * Asked when an import or template would land on a diagram that already has
+ * content: replace it as before, or merge, deciding per name collision
+ */
+export default function MergeImportDialog({
+  open,
+  onOpenChange,
+  name,
+  resourceCount,
+  conflicts,
+  onReplace,
+  onMerge,
+}: MergeImportDialogProps) {
+  const [resolutions, setResolutions] = useState<Record<string, MergeResolution>>({});
+
+  // Every collision starts out renamed, which never loses anything
+  useEffect(() => {
+    if (open) {
+      setResolutions(Object.fromEntries(conflicts.map(c => [c.importedId, 'rename' as const])));
+    }
+  }, [open, conflicts]);
+
+  const setAll = (resolution: MergeResolution) => {
+    setResolutions(Object.fromEntries(conflicts.map(c => [c.importedId, resolution])));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Merge into the current diagram?</DialogTitle>
+          <DialogDescription>
+            {name} has {resourceCount} resource{resourceCount === 1 ? '' : 's'}. Merging adds them next to what is on the canvas
+            and connects them to existing resources they reference; replacing clears the canvas first.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          {conflicts.length > 0 && (
+            <div>
+              <div className="flex items-center justify-between gap-2 mb-2">
+                <span className="label-text">
+                  {conflicts.length} name collision{conflicts.length === 1 ? '' : 's'}
+                </span>
+                {conflicts.length > 1 && (
+                  <select className="input-field w-auto" value="" onChange={(e) => setAll(e.target.value as MergeResolution)} aria-label="Resolve all collisions">
+                    <option value="" disabled>Set all…</option>
+                    <option value="rename">Rename all</option>
+                    <option value="skip">Skip all</option>
+                    <option value="replace">Replace all</option>
+                  </select>
+                )}
+              </div>
+              <ul className="max-h-72 overflow-y-auto scrollbar-thin space-y-2 pr-1">
+                {conflicts.map(conflict => (
+                  <li key={conflict.importedId} className="p-2 border border-border rounded-md flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="text-sm text-foreground truncate">{conflict.type}/{conflict.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {conflict.namespace ? `ns/${conflict.namespace}` : 'no namespace'}
+                      </div>
+                    </div>
+                    <select
+                      className="input-field w-auto"
+                      value={resolutions[conflict.importedId] ?? 'rename'}
+                      onChange={(e) => setResolutions({ ...resolutions, [conflict.importedId]: e.target.value as MergeResolution })}
+                      aria-label={`Resolve ${conflict.type}/${conflict.name}`}
+                    >
+                      <option value="rename">Rename to {conflict.renameTo}</option>
+                      <option value="skip">Skip (keep existing)</option>
+                      <option value="replace">Replace existing</option>
+                    </select>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex gap-2 justify-end">
+            <button onClick={onReplace} className="btn-ghost">
+              Replace diagram
+            </button>
+            <button onClick={() => onMerge(resolutions)} className="btn-primary">
+              Merge
+            </button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
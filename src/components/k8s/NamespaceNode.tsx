@@ -0,0 +1,65 @@
+import { memo } from 'react';
+import { NodeProps, NodeResizer, useReactFlow } from 'reactflow';
+import { FolderOpen, Trash2 } from 'lucide-react';
+import { NamespaceNodeData } from '@/types/k8s';
+
+/**
+ * Group container for a Namespace. Resources placed inside inherit its namespace;
+ * it has no handles because namespaces are not connected to other resources.
+ */
+function NamespaceNode({ data, selected, id }: NodeProps<NamespaceNodeData>) {
+  const { deleteElements, getNodes } = useReactFlow();
+
+  const handleDelete = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    // Deleting a namespace removes everything inside it, as kubectl would
+    const children = getNodes().filter(n => n.parentId === id).map(n => ({ id: n.id }));
+    deleteElements({ nodes: [{ id }, ...children] });
+  };
+
+  return (
+    <>
+      <NodeResizer
+        isVisible={selected}
+        minWidth={240}
+        minHeight={160}
+        lineClassName="!border-[hsl(var(--node-namespace))]"
+        handleClassName="!bg-[hsl(var(--node-namespace))] !border-card"
+      />
+      <div
+        className={`
+          w-full h-full rounded-xl border-2 border-dashed
+          border-[hsl(var(--node-namespace))] bg-[hsl(var(--node-namespace)/0.05)]
+          ${selected ? 'ring-2 ring-primary' : ''}
+          group relative
+        `}
+      >
+        <button
+          onClick={handleDelete}
+          className={`
+            absolute -top-2 -right-2
+            bg-destructive text-destructive-foreground
+            rounded-full p-1.5 shadow-lg
+            opacity-0 group-hover:opacity-100
+            ${selected ? 'opacity-100' : ''}
+            transition-opacity duration-200
+            hover:bg-destructive/90
+            z-10
+          `}
+          title="Delete namespace"
+          aria-label="Delete namespace"
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+
+        <div className="flex items-center gap-2 px-3 py-2">
+          <FolderOpen className="w-4 h-4 text-[hsl(var(--node-namespace))]" />
+          <span className="text-sm font-semibold text-foreground">{data.label}</span>
+          <span className="text-xs font-mono text-muted-foreground">ns/{data.name}</span>
+        </div>
+      </div>
+    </>
+  );
+}
+
+export default memo(NamespaceNode);
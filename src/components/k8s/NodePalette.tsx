@@ -1,8 +1,12 @@
 import { useEffect, useState } from 'react';
 import {
+  FolderOpen,
   Globe,
   Server,
   Box,
+  Cpu,
+  Play,
+  Database,
   FileText,
   Key,
   HardDrive,
@@ -23,14 +27,18 @@ interface NodePaletteProps {
 }
 
 const paletteItems: { type: K8sNodeType; label: string; icon: React.ElementType; colorClass: string; colorVar: string; description: string }[] = [
+  { type: 'namespace', label: 'Namespace', icon: FolderOpen, colorClass: 'text-[hsl(var(--node-namespace))]', colorVar: 'hsl(var(--node-namespace))', description: 'Group resources' },
   { type: 'ingress', label: 'Ingress', icon: Globe, colorClass: 'text-[hsl(var(--node-ingress))]', colorVar: 'hsl(var(--node-ingress))', description: 'Route external traffic' },
   { type: 'service', label: 'Service', icon: Server, colorClass: 'text-[hsl(var(--node-service))]', colorVar: 'hsl(var(--node-service))', description: 'Expose pods' },
   { type: 'deployment', label: 'Deployment', icon: Box, colorClass: 'text-[hsl(var(--node-deployment))]', colorVar: 'hsl(var(--node-deployment))', description: 'Deploy containers' },
+  { type: 'statefulset', label: 'StatefulSet', icon: Database, colorClass: 'text-[hsl(var(--node-statefulset))]', colorVar: 'hsl(var(--node-statefulset))', description: 'Stateful workloads' },
+  { type: 'daemonset', label: 'DaemonSet', icon: Cpu, colorClass: 'text-[hsl(var(--node-daemonset))]', colorVar: 'hsl(var(--node-daemonset))', description: 'One pod per node' },
   { type: 'pod', label: 'Pod', icon: Container, colorClass: 'text-[hsl(var(--node-pod))]', colorVar: 'hsl(var(--node-pod))', description: 'Standalone pod' },
   { type: 'sidecar', label: 'Sidecar', icon: Layers, colorClass: 'text-[hsl(var(--node-sidecar))]', colorVar: 'hsl(var(--node-sidecar))', description: 'Helper container' },
   { type: 'configmap', label: 'ConfigMap', icon: FileText, colorClass: 'text-[hsl(var(--node-configmap))]', colorVar: 'hsl(var(--node-configmap))', description: 'Configuration data' },
   { type: 'secret', label: 'Secret', icon: Key, colorClass: 'text-[hsl(var(--node-secret))]', colorVar: 'hsl(var(--node-secret))', description: 'Sensitive data' },
   { type: 'pvc', label: 'PVC', icon: HardDrive, colorClass: 'text-[hsl(var(--node-pvc))]', colorVar: 'hsl(var(--node-pvc))', description: 'Persistent storage' },
+  { type: 'job', label: 'Job', icon: Play, colorClass: 'text-[hsl(var(--node-job))]', colorVar: 'hsl(var(--node-job))', description: 'Run to completion' },
   { type: 'cronjob', label: 'CronJob', icon: Clock, colorClass: 'text-[hsl(var(--node-cronjob))]', colorVar: 'hsl(var(--node-cronjob))', description: 'Scheduled tasks' },
   { type: 'hpa', label: 'HPA', icon: Activity, colorClass: 'text-[hsl(var(--node-hpa))]', colorVar: 'hsl(var(--node-hpa))', description: 'Auto-scale pods' },
 ];
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { AlertCircle, AlertTriangle, ChevronDown, ChevronUp, Info, Settings } from 'lucide-react';
+import { LintRuleConfig, LintSeverity } from '@/types/k8s';
+import { LINT_RULES, LintProblem, getLintRuleConfig } from '@/utils/diagramLint';
+
+interface ProblemsPanelProps {
+  problems: LintProblem[];
+  ruleOverrides: Record<string, LintRuleConfig>;
+  onRuleOverridesChange: (overrides: Record<string, LintRuleConfig>) => void;
+  onSelectProblem: (problem: LintProblem) => void;
+}
+
+const severityIcons: Record<LintSeverity, { icon: typeof Info; className: string }> = {
+  error: { icon: AlertCircle, className: 'text-destructive' },
+  warning: { icon: AlertTriangle, className: 'text-amber-500' },
+  info: { icon: Info, className: 'text-blue-500' },
+};
+
+const SEVERITIES: LintSeverity[] = ['error', 'warning', 'info'];
+
+/**
+ * Collapsible list of lint and schema problems under the canvas; clicking a
+ * problem focuses the node it belongs to
+ */
+export default function ProblemsPanel({ problems, ruleOverrides, onRuleOverridesChange, onSelectProblem }: ProblemsPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [showRules, setShowRules] = useState(false);
+
+  const counts = SEVERITIES.map(severity => ({
+    severity,
+    count: problems.filter(p => p.severity === severity).length,
+  }));
+
+  const updateRule = (ruleId: string, changes: Partial<LintRuleConfig>) => {
+    const rule = LINT_RULES.find(r => r.id === ruleId);
+    if (!rule) return;
+    onRuleOverridesChange({
+      ...ruleOverrides,
+      [ruleId]: { ...getLintRuleConfig(rule, ruleOverrides), ...changes },
+    });
+  };
+
+  return (
+    <div className="border-t border-border bg-card flex-shrink-0">
+      <div className="flex items-center justify-between px-3 py-1.5">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="flex items-center gap-3 text-xs font-medium text-foreground"
+          aria-expanded={expanded}
+        >
+          {expanded ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronUp className="w-3.5 h-3.5" />}
+          <span>Problems</span>
+          {counts.map(({ severity, count }) => {
+            const { icon: Icon, className } = severityIcons[severity];
+            return (
+              <span key={severity} className="flex items-center gap-1 text-muted-foreground">
+                <Icon className={`w-3.5 h-3.5 ${count > 0 ? className : ''}`} />
+                {count}
+              </span>
+            );
+          })}
+        </button>
+        <button
+          onClick={() => {
+            setShowRules(!showRules);
+            setExpanded(true);
+          }}
+          className={`btn-ghost p-1 ${showRules && expanded ? 'text-accent' : ''}`}
+          title="Configure lint rules"
+        >
+          <Settings className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="max-h-48 overflow-y-auto scrollbar-thin border-t border-border">
+          {showRules ? (
+            <ul className="divide-y divide-border">
+              {LINT_RULES.map(rule => {
+                const config = getLintRuleConfig(rule, ruleOverrides);
+                return (
+                  <li key={rule.id} className="flex items-center gap-2 px-3 py-1.5">
+                    <input
+                      type="checkbox"
+                      id={`lint-${rule.id}`}
+                      checked={config.enabled}
+                      onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                      className="w-4 h-4"
+                    />
+                    <label htmlFor={`lint-${rule.id}`} className="flex-1 min-w-0">
+                      <span className="block text-xs font-medium text-foreground">{rule.title}</span>
+                      <span className="block text-xs text-muted-foreground truncate">{rule.description}</span>
+                    </label>
+                    <select
+                      className="input-field py-0.5 text-xs w-24"
+                      value={config.severity}
+                      disabled={!config.enabled}
+                      onChange={(e) => updateRule(rule.id, { severity: e.target.value as LintSeverity })}
+                    >
+                      {SEVERITIES.map(severity => (
+                        <option key={severity} value={severity}>{severity}</option>
+                      ))}
+                    </select>
+                  </li>
+                );
+              })}
+            </ul>
+          ) : problems.length === 0 ? (
+            <p className="px-3 py-2 text-xs text-muted-foreground">No problems detected</p>
+          ) : (
+            <ul>
+              {problems.map((problem, i) => {
+                const { icon: Icon, className } = severityIcons[problem.severity];
+                return (
+                  <li key={`${problem.ruleId}-${problem.nodeId}-${i}`}>
+                    <button
+                      onClick={() => onSelectProblem(problem)}
+                      disabled={!problem.nodeId}
+                      className="w-full flex items-start gap-2 px-3 py-1 text-left hover:bg-secondary/50 disabled:hover:bg-transparent disabled:cursor-default"
+                    >
+                      <Icon className={`w-3.5 h-3.5 mt-0.5 flex-shrink-0 ${className}`} />
+                      <span className="flex-1 text-xs text-foreground">{problem.message}</span>
+                      <span className="text-xs font-mono text-muted-foreground">{problem.ruleId}</span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
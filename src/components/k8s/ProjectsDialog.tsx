@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { Check, Copy, FolderOpen, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { DEFAULT_PROJECT_NAME, ProjectSummary } from '@/utils/diagramStorage';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface ProjectsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projects: ProjectSummary[];
+  currentProjectId?: string;
+  onOpenProject: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+/**
+ * Project manager: every diagram saved in this browser, most recently opened first
+ */
+export default function ProjectsDialog({
+  open,
+  onOpenChange,
+  projects,
+  currentProjectId,
+  onOpenProject,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: ProjectsDialogProps) {
+  const [newName, setNewName] = useState('');
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+
+  const create = () => {
+    onCreate(newName.trim() || DEFAULT_PROJECT_NAME);
+    setNewName('');
+  };
+
+  const finishRename = () => {
+    if (renaming && renaming.name.trim()) onRename(renaming.id, renaming.name.trim());
+    setRenaming(null);
+  };
+
+  const confirmDelete = (project: ProjectSummary) => {
+    if (window.confirm(`Delete "${project.name}"? This can't be undone.`)) onDelete(project.id);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Projects</DialogTitle>
+          <DialogDescription>
+            Diagrams are saved in this browser as you work. Open a recent one or start a new project.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              className="input-field"
+              placeholder={DEFAULT_PROJECT_NAME}
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && create()}
+              aria-label="New project name"
+            />
+            <button onClick={create} className="btn-primary whitespace-nowrap">
+              <Plus className="w-4 h-4" />
+              New project
+            </button>
+          </div>
+
+          <ul className="max-h-80 overflow-y-auto scrollbar-thin space-y-2 pr-1">
+            {projects.map(project => (
+              <li
+                key={project.id}
+                className={`p-2 border rounded-md flex items-center gap-2 ${project.id === currentProjectId ? 'border-primary' : 'border-border'}`}
+              >
+                <div className="flex-1 min-w-0">
+                  {renaming?.id === project.id ? (
+                    <input
+                      type="text"
+                      className="input-field py-1"
+                      value={renaming.name}
+                      onChange={(e) => setRenaming({ id: project.id, name: e.target.value })}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') finishRename();
+                        if (e.key === 'Escape') setRenaming(null);
+                      }}
+                      autoFocus
+                      aria-label="Project name"
+                    />
+                  ) : (
+                    <div className="text-sm text-foreground truncate">
+                      {project.name}
+                      {project.id === currentProjectId && <span className="ml-2 text-xs text-primary">open</span>}
+                    </div>
+                  )}
+                  <div className="text-xs text-muted-foreground">
+                    {project.nodeCount} node{project.nodeCount === 1 ? '' : 's'} · saved {new Date(project.updatedAt).toLocaleString()}
+                  </div>
+                </div>
+                {renaming?.id === project.id ? (
+                  <>
+                    <button onClick={finishRename} className="btn-ghost p-1.5" title="Save name">
+                      <Check className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => setRenaming(null)} className="btn-ghost p-1.5" title="Cancel">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => onOpenProject(project.id)}
+                      className="btn-ghost p-1.5"
+                      title="Open"
+                      disabled={project.id === currentProjectId}
+                    >
+                      <FolderOpen className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => setRenaming({ id: project.id, name: project.name })} className="btn-ghost p-1.5" title="Rename">
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => onDuplicate(project.id)} className="btn-ghost p-1.5" title="Duplicate">
+                      <Copy className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => confirmDelete(project)} className="btn-ghost p-1.5 text-destructive" title="Delete">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
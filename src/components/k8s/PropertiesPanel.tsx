@@ -1,7 +1,25 @@
 import { useState } from 'react';
 import { Node } from 'reactflow';
 import { Plus, Trash2, X, HelpCircle } from 'lucide-react';
-import { K8sNodeData, KeyValue, CloudProvider, DeploymentNodeData, PVCNodeData } from '@/types/k8s';
+import {
+  K8sNodeData,
+  KeyValue,
+  CloudProvider,
+  DeploymentNodeData,
+  IngressPath,
+  IngressRule,
+  IngressTLS,
+  PVCNodeData,
+  ServiceNodeData,
+  VolumeClaimTemplate,
+  Toleration,
+  ContainerSettings,
+  Probe,
+  ResourceRequirements,
+  SecurityContext,
+  defaultProbe,
+  defaultSecurityContext,
+} from '@/types/k8s';
 import {
   Tooltip,
   TooltipContent,
@@ -15,9 +33,18 @@ import {
   CloudProviderField,
   CloudProviderFieldValues,
 } from '@/utils/cloudProviderTemplates';
+import {
+  IngressControllerProfile,
+  findInvalidAnnotationValues,
+  getIngressControllerProfile,
+  getIngressControllerProfiles,
+  setProfileAnnotation,
+} from '@/utils/ingressControllerProfiles';
 
 interface PropertiesPanelProps {
   node: Node<K8sNodeData> | null;
+  // Services the selected Ingress is connected to
+  connectedServices?: ServiceNodeData[];
   onUpdate: (nodeId: string, data: Partial<K8sNodeData>) => void;
   onClose: () => void;
 }
@@ -118,6 +145,559 @@ function KeyValueEditor({
   );
 }
 
+function IngressRulesEditor({
+  rules,
+  services,
+  onChange,
+}: {
+  rules: IngressRule[];
+  // Services the Ingress is connected to; paths can only be bound to these
+  services: ServiceNodeData[];
+  onChange: (rules: IngressRule[]) => void;
+}) {
+  const newPath = (): IngressPath => ({ path: '/', pathType: 'Prefix', serviceName: '', servicePort: 80 });
+  const addRule = () => onChange([...rules, { host: '', paths: [newPath()] }]);
+  const removeRule = (index: number) => onChange(rules.filter((_, i) => i !== index));
+  const updateRule = (index: number, changes: Partial<IngressRule>) => {
+    const updated = [...rules];
+    updated[index] = { ...updated[index], ...changes };
+    onChange(updated);
+  };
+  const updatePath = (ruleIndex: number, pathIndex: number, changes: Partial<IngressPath>) => {
+    const paths = [...rules[ruleIndex].paths];
+    paths[pathIndex] = { ...paths[pathIndex], ...changes };
+    updateRule(ruleIndex, { paths });
+  };
+  const bindPath = (ruleIndex: number, pathIndex: number, serviceName: string) => {
+    const service = services.find(s => s.serviceName === serviceName);
+    updatePath(ruleIndex, pathIndex, { serviceName, servicePort: service?.port ?? 80, servicePortName: undefined });
+  };
+
+  return (
+    <div className="space-y-2">
+      {services.length === 0 && (
+        <p className="text-xs text-muted-foreground">Connect this Ingress to a Service to route paths to it.</p>
+      )}
+      {rules.map((rule, i) => (
+        <div key={i} className="space-y-2 p-2 border border-border rounded-md">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              className="input-field flex-1"
+              placeholder="Host (empty matches all)"
+              value={rule.host}
+              onChange={(e) => updateRule(i, { host: e.target.value })}
+            />
+            <button onClick={() => removeRule(i)} className="btn-ghost p-2 text-destructive">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+          {rule.paths.map((path, j) => (
+            <div key={j} className="space-y-2 pl-2 border-l-2 border-border">
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  className="input-field flex-1"
+                  placeholder="/path"
+                  value={path.path}
+                  onChange={(e) => updatePath(i, j, { path: e.target.value })}
+                />
+                <select
+                  className="input-field w-auto"
+                  value={path.pathType}
+                  onChange={(e) => updatePath(i, j, { pathType: e.target.value as IngressPath['pathType'] })}
+                >
+                  <option value="Prefix">Prefix</option>
+                  <option value="Exact">Exact</option>
+                  <option value="ImplementationSpecific">ImplementationSpecific</option>
+                </select>
+                <button
+                  onClick={() => updateRule(i, { paths: rule.paths.filter((_, k) => k !== j) })}
+                  className="btn-ghost p-2 text-destructive"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <select
+                  className="input-field col-span-2"
+                  value={path.serviceName}
+                  onChange={(e) => bindPath(i, j, e.target.value)}
+                  aria-label="Backend Service"
+                >
+                  <option value="">No backend</option>
+                  {services.map(service => (
+                    <option key={service.serviceName} value={service.serviceName}>{service.serviceName}</option>
+                  ))}
+                  {/* Imported paths can name a Service that isn't connected */}
+                  {path.serviceName && !services.some(s => s.serviceName === path.serviceName) && (
+                    <option value={path.serviceName}>{path.serviceName} (not connected)</option>
+                  )}
+                </select>
+                <input
+                  type="text"
+                  className="input-field"
+                  placeholder="Port or name"
+                  value={path.servicePortName || path.servicePort || ''}
+                  onChange={(e) => {
+                    const value = e.target.value.trim();
+                    updatePath(i, j, /^\d*$/.test(value)
+                      ? { servicePort: parseInt(value) || 0, servicePortName: undefined }
+                      : { servicePort: 0, servicePortName: value });
+                  }}
+                />
+              </div>
+            </div>
+          ))}
+          <button onClick={() => updateRule(i, { paths: [...rule.paths, newPath()] })} className="btn-ghost w-full text-xs">
+            <Plus className="w-3 h-3" /> Add path
+          </button>
+        </div>
+      ))}
+      <button onClick={addRule} className="btn-secondary w-full">
+        <Plus className="w-4 h-4" /> Add host
+      </button>
+    </div>
+  );
+}
+
+function IngressTLSEditor({
+  items,
+  onChange,
+}: {
+  items: IngressTLS[];
+  onChange: (items: IngressTLS[]) => void;
+}) {
+  const addItem = () => onChange([...items, { hosts: [], secretName: '' }]);
+  const removeItem = (index: number) => onChange(items.filter((_, i) => i !== index));
+  const updateItem = (index: number, changes: Partial<IngressTLS>) => {
+    const updated = [...items];
+    updated[index] = { ...updated[index], ...changes };
+    onChange(updated);
+  };
+
+  return (
+    <div className="space-y-2">
+      {items.map((item, i) => (
+        <div key={i} className="space-y-2 p-2 border border-border rounded-md">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              className="input-field flex-1"
+              placeholder="Secret name"
+              value={item.secretName}
+              onChange={(e) => updateItem(i, { secretName: e.target.value })}
+            />
+            <button onClick={() => removeItem(i)} className="btn-ghost p-2 text-destructive">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+          <input
+            type="text"
+            className="input-field"
+            placeholder="Hosts, comma-separated"
+            value={item.hosts.join(', ')}
+            onChange={(e) => updateItem(i, { hosts: e.target.value ? e.target.value.split(',').map(h => h.trim()) : [] })}
+          />
+        </div>
+      ))}
+      <button onClick={addItem} className="btn-secondary w-full">
+        <Plus className="w-4 h-4" /> Add
+      </button>
+    </div>
+  );
+}
+
+function VolumeClaimTemplateEditor({
+  items,
+  onChange,
+}: {
+  items: VolumeClaimTemplate[];
+  onChange: (items: VolumeClaimTemplate[]) => void;
+}) {
+  const addItem = () => onChange([
+    ...items,
+    { name: '', mountPath: '', storageClassName: 'standard', size: '1Gi', accessModes: ['ReadWriteOnce'] },
+  ]);
+  const removeItem = (index: number) => onChange(items.filter((_, i) => i !== index));
+  const updateItem = (index: number, changes: Partial<VolumeClaimTemplate>) => {
+    const updated = [...items];
+    updated[index] = { ...updated[index], ...changes };
+    onChange(updated);
+  };
+
+  return (
+    <div className="space-y-2">
+      {items.map((item, i) => (
+        <div key={i} className="space-y-2 p-2 border border-border rounded-md">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              className="input-field flex-1"
+              placeholder="Name"
+              value={item.name}
+              onChange={(e) => updateItem(i, { name: e.target.value })}
+            />
+            <button onClick={() => removeItem(i)} className="btn-ghost p-2 text-destructive">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+          <input
+            type="text"
+            className="input-field"
+            placeholder="Mount path"
+            value={item.mountPath}
+            onChange={(e) => updateItem(i, { mountPath: e.target.value })}
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              className="input-field"
+              placeholder="Storage class"
+              value={item.storageClassName}
+              onChange={(e) => updateItem(i, { storageClassName: e.target.value })}
+            />
+            <input
+              type="text"
+              className="input-field"
+              placeholder="Size"
+              value={item.size}
+              onChange={(e) => updateItem(i, { size: e.target.value })}
+            />
+          </div>
+          <select
+            className="input-field"
+            value={item.accessModes[0] || 'ReadWriteOnce'}
+            onChange={(e) => updateItem(i, { accessModes: [e.target.value as VolumeClaimTemplate['accessModes'][number]] })}
+          >
+            <option value="ReadWriteOnce">ReadWriteOnce</option>
+            <option value="ReadOnlyMany">ReadOnlyMany</option>
+            <option value="ReadWriteMany">ReadWriteMany</option>
+          </select>
+        </div>
+      ))}
+      <button onClick={addItem} className="btn-secondary w-full">
+        <Plus className="w-4 h-4" /> Add
+      </button>
+    </div>
+  );
+}
+
+function TolerationEditor({
+  items,
+  onChange,
+}: {
+  items: Toleration[];
+  onChange: (items: Toleration[]) => void;
+}) {
+  const addItem = () => onChange([...items, { key: '', operator: 'Exists', value: '', effect: '' }]);
+  const removeItem = (index: number) => onChange(items.filter((_, i) => i !== index));
+  const updateItem = (index: number, changes: Partial<Toleration>) => {
+    const updated = [...items];
+    updated[index] = { ...updated[index], ...changes };
+    onChange(updated);
+  };
+
+  return (
+    <div className="space-y-2">
+      {items.map((item, i) => (
+        <div key={i} className="space-y-2 p-2 border border-border rounded-md">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              className="input-field flex-1"
+              placeholder="Key (empty matches all)"
+              value={item.key}
+              onChange={(e) => updateItem(i, { key: e.target.value })}
+            />
+            <button onClick={() => removeItem(i)} className="btn-ghost p-2 text-destructive">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              className="input-field"
+              value={item.operator}
+              onChange={(e) => updateItem(i, { operator: e.target.value as Toleration['operator'] })}
+            >
+              <option value="Exists">Exists</option>
+              <option value="Equal">Equal</option>
+            </select>
+            <select
+              className="input-field"
+              value={item.effect}
+              onChange={(e) => updateItem(i, { effect: e.target.value as Toleration['effect'] })}
+            >
+              <option value="">Any effect</option>
+              <option value="NoSchedule">NoSchedule</option>
+              <option value="PreferNoSchedule">PreferNoSchedule</option>
+              <option value="NoExecute">NoExecute</option>
+            </select>
+          </div>
+          {item.operator === 'Equal' && (
+            <input
+              type="text"
+              className="input-field"
+              placeholder="Value"
+              value={item.value}
+              onChange={(e) => updateItem(i, { value: e.target.value })}
+            />
+          )}
+        </div>
+      ))}
+      <button onClick={addItem} className="btn-secondary w-full">
+        <Plus className="w-4 h-4" /> Add
+      </button>
+    </div>
+  );
+}
+
+function ProbeEditor({
+  label,
+  helpKey,
+  probe,
+  defaultPort,
+  onChange,
+}: {
+  label: string;
+  helpKey: string;
+  probe?: Probe;
+  defaultPort: number;
+  onChange: (probe: Probe | undefined) => void;
+}) {
+  const updateProbe = (changes: Partial<Probe>) => probe && onChange({ ...probe, ...changes });
+  // Digits are a port number, anything else names a container port
+  const updatePort = (value: string) =>
+    updateProbe({ port: /^\d+$/.test(value.trim()) ? parseInt(value, 10) : value.trim() || defaultPort });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          id={helpKey}
+          checked={!!probe}
+          onChange={(e) => onChange(e.target.checked ? defaultProbe(defaultPort) : undefined)}
+          className="w-4 h-4"
+        />
+        <label htmlFor={helpKey} className="text-sm text-foreground flex-1">{label}</label>
+        <FieldLabel label="" helpKey={helpKey} />
+      </div>
+      {probe && (
+        <div className="space-y-2 p-2 border border-border rounded-md">
+          <select
+            className="input-field"
+            value={probe.handler}
+            onChange={(e) => updateProbe({ handler: e.target.value as Probe['handler'] })}
+          >
+            <option value="httpGet">HTTP GET</option>
+            <option value="tcpSocket">TCP socket</option>
+            <option value="exec">Exec command</option>
+          </select>
+          {probe.handler === 'httpGet' && (
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                type="text"
+                className="input-field"
+                placeholder="Path"
+                value={probe.path}
+                onChange={(e) => updateProbe({ path: e.target.value })}
+              />
+              <input
+                type="text"
+                className="input-field"
+                placeholder="Port or name"
+                value={probe.port}
+                onChange={(e) => updatePort(e.target.value)}
+              />
+            </div>
+          )}
+          {probe.handler === 'tcpSocket' && (
+            <input
+              type="text"
+              className="input-field"
+              placeholder="Port or name"
+              value={probe.port}
+              onChange={(e) => updatePort(e.target.value)}
+            />
+          )}
+          {probe.handler === 'exec' && (
+            <input
+              type="text"
+              className="input-field"
+              placeholder="Command, space separated"
+              value={probe.command.join(' ')}
+              onChange={(e) => updateProbe({ command: e.target.value.split(' ').filter(Boolean) })}
+            />
+          )}
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="text-xs text-muted-foreground">Initial delay (s)</label>
+              <input
+                type="number"
+                className="input-field"
+                value={probe.initialDelaySeconds}
+                onChange={(e) => updateProbe({ initialDelaySeconds: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+            <div>
+              <label className="text-xs text-muted-foreground">Period (s)</label>
+              <input
+                type="number"
+                className="input-field"
+                value={probe.periodSeconds}
+                onChange={(e) => updateProbe({ periodSeconds: parseInt(e.target.value) || 10 })}
+              />
+            </div>
+            <div>
+              <label className="text-xs text-muted-foreground">Timeout (s)</label>
+              <input
+                type="number"
+                className="input-field"
+                value={probe.timeoutSeconds}
+                onChange={(e) => updateProbe({ timeoutSeconds: parseInt(e.target.value) || 1 })}
+              />
+            </div>
+            <div>
+              <label className="text-xs text-muted-foreground">Failure threshold</label>
+              <input
+                type="number"
+                className="input-field"
+                value={probe.failureThreshold}
+                onChange={(e) => updateProbe({ failureThreshold: parseInt(e.target.value) || 3 })}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ContainerSettingsSection({
+  settings,
+  defaultPort,
+  onChange,
+}: {
+  settings: ContainerSettings;
+  defaultPort: number;
+  onChange: (changes: Partial<ContainerSettings>) => void;
+}) {
+  const resources: ResourceRequirements = settings.resources || { cpuRequest: '', memoryRequest: '', cpuLimit: '', memoryLimit: '' };
+  const updateResources = (changes: Partial<ResourceRequirements>) => onChange({ resources: { ...resources, ...changes } });
+  const securityContext = settings.securityContext;
+  const updateSecurityContext = (changes: Partial<SecurityContext>) =>
+    securityContext && onChange({ securityContext: { ...securityContext, ...changes } });
+
+  return (
+    <div className="space-y-4 border-t border-border pt-4">
+      <h3 className="text-sm font-semibold">Container Settings</h3>
+
+      <div>
+        <FieldLabel label="Resources" helpKey="container.resources" />
+        <div className="grid grid-cols-2 gap-2">
+          <input
+            type="text"
+            className="input-field"
+            placeholder="CPU request (100m)"
+            value={resources.cpuRequest}
+            onChange={(e) => updateResources({ cpuRequest: e.target.value })}
+          />
+          <input
+            type="text"
+            className="input-field"
+            placeholder="Memory request (128Mi)"
+            value={resources.memoryRequest}
+            onChange={(e) => updateResources({ memoryRequest: e.target.value })}
+          />
+          <input
+            type="text"
+            className="input-field"
+            placeholder="CPU limit (500m)"
+            value={resources.cpuLimit}
+            onChange={(e) => updateResources({ cpuLimit: e.target.value })}
+          />
+          <input
+            type="text"
+            className="input-field"
+            placeholder="Memory limit (256Mi)"
+            value={resources.memoryLimit}
+            onChange={(e) => updateResources({ memoryLimit: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <ProbeEditor
+        label="Liveness probe"
+        helpKey="container.livenessProbe"
+        probe={settings.livenessProbe}
+        defaultPort={defaultPort}
+        onChange={(livenessProbe) => onChange({ livenessProbe })}
+      />
+      <ProbeEditor
+        label="Readiness probe"
+        helpKey="container.readinessProbe"
+        probe={settings.readinessProbe}
+        defaultPort={defaultPort}
+        onChange={(readinessProbe) => onChange({ readinessProbe })}
+      />
+      <ProbeEditor
+        label="Startup probe"
+        helpKey="container.startupProbe"
+        probe={settings.startupProbe}
+        defaultPort={defaultPort}
+        onChange={(startupProbe) => onChange({ startupProbe })}
+      />
+
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            id="securityContext"
+            checked={!!securityContext}
+            onChange={(e) => onChange({ securityContext: e.target.checked ? defaultSecurityContext() : undefined })}
+            className="w-4 h-4"
+          />
+          <label htmlFor="securityContext" className="text-sm text-foreground flex-1">Security context</label>
+          <FieldLabel label="" helpKey="container.securityContext" />
+        </div>
+        {securityContext && (
+          <div className="space-y-2 p-2 border border-border rounded-md">
+            {([
+              ['runAsNonRoot', 'Run as non-root'],
+              ['readOnlyRootFilesystem', 'Read-only root filesystem'],
+              ['allowPrivilegeEscalation', 'Allow privilege escalation'],
+              ['dropAllCapabilities', 'Drop all capabilities'],
+            ] as const).map(([key, text]) => (
+              <div key={key} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  id={key}
+                  // Unset fields show what Kubernetes does without them
+                  checked={securityContext[key] ?? key === 'allowPrivilegeEscalation'}
+                  onChange={(e) => updateSecurityContext({ [key]: e.target.checked })}
+                  className="w-4 h-4"
+                />
+                <label htmlFor={key} className="text-sm text-foreground">{text}</label>
+              </div>
+            ))}
+            <div>
+              <label className="text-xs text-muted-foreground">Run as user (UID)</label>
+              <input
+                type="number"
+                className="input-field"
+                placeholder="1000"
+                value={securityContext.runAsUser ?? ''}
+                onChange={(e) => updateSecurityContext({ runAsUser: e.target.value === '' ? undefined : parseInt(e.target.value) || 0 })}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
 function DynamicFieldRenderer({
   field,
   value,
@@ -328,7 +908,38 @@ function CloudProviderFieldsSection({
   );
 }
 
-export default function PropertiesPanel({ node, onUpdate, onClose }: PropertiesPanelProps) {
+function IngressControllerFieldsSection({
+  profile,
+  annotations,
+  onChange,
+}: {
+  profile: IngressControllerProfile;
+  annotations: KeyValue[];
+  onChange: (annotations: KeyValue[]) => void;
+}) {
+  const values = Object.fromEntries(annotations.map(a => [a.key, a.value]));
+  const problems = new Map(findInvalidAnnotationValues(profile, annotations).map(p => [p.key, p.message]));
+
+  return (
+    <div className="space-y-3 border-t border-border pt-4">
+      <h4 className="text-sm font-semibold text-primary">{profile.name} Settings</h4>
+      {profile.fields.map((field) => (
+        <div key={field.key}>
+          <DynamicFieldRenderer
+            field={field}
+            value={values[field.key]}
+            onChange={(value) => onChange(setProfileAnnotation(annotations, field.key, value ? String(value) : ''))}
+          />
+          {problems.has(field.key) && (
+            <p className="text-xs text-destructive mt-1">{problems.get(field.key)}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function PropertiesPanel({ node, connectedServices = [], onUpdate, onClose }: PropertiesPanelProps) {
   if (!node) {
     return (
       <div className="panel h-full flex items-center justify-center">
@@ -341,6 +952,7 @@ export default function PropertiesPanel({ node, onUpdate, onClose }: PropertiesP
   const update = (changes: Partial<K8sNodeData>) => {
     onUpdate(node.id, changes);
   };
+  const ingressProfile = data.type === 'ingress' ? getIngressControllerProfile(data.ingressClassName) : undefined;
 
   return (
     <div className="panel h-full flex flex-col">
@@ -362,17 +974,38 @@ export default function PropertiesPanel({ node, onUpdate, onClose }: PropertiesP
           />
         </div>
 
-        {/* Ingress fields */}
-        {data.type === 'ingress' && (
+        {/* Namespace fields */}
+        {data.type === 'namespace' && (
           <>
             <div>
-              <FieldLabel label="Host" helpKey="ingress.host" />
+              <FieldLabel label="Namespace Name" helpKey="namespace.name" />
               <input
                 type="text"
                 className="input-field"
-                value={data.host}
-                onChange={(e) => update({ host: e.target.value } as Partial<K8sNodeData>)}
-                placeholder="api.example.com"
+                value={data.name}
+                onChange={(e) => update({ name: e.target.value } as Partial<K8sNodeData>)}
+                placeholder="my-namespace"
+              />
+            </div>
+            <div>
+              <FieldLabel label="Labels" helpKey="namespace.labels" />
+              <KeyValueEditor
+                items={data.labels}
+                onChange={(labels) => update({ labels } as Partial<K8sNodeData>)}
+              />
+            </div>
+          </>
+        )}
+
+        {/* Ingress fields */}
+        {data.type === 'ingress' && (
+          <>
+            <div>
+              <FieldLabel label="Rules" helpKey="ingress.rules" />
+              <IngressRulesEditor
+                rules={data.rules}
+                services={connectedServices}
+                onChange={(rules) => update({ rules } as Partial<K8sNodeData>)}
               />
             </div>
             <div>
@@ -382,33 +1015,32 @@ export default function PropertiesPanel({ node, onUpdate, onClose }: PropertiesP
                 value={data.ingressClassName}
                 onChange={(e) => update({ ingressClassName: e.target.value } as Partial<K8sNodeData>)}
               >
-                <option value="nginx">nginx</option>
-                <option value="traefik">traefik</option>
+                {getIngressControllerProfiles().map(profile => (
+                  <option key={profile.id} value={profile.ingressClassName}>
+                    {profile.ingressClassName} ({profile.name})
+                  </option>
+                ))}
                 <option value="istio">istio</option>
+                {/* Imported classes keep their name even without a profile */}
+                {data.ingressClassName !== 'istio' && !ingressProfile && (
+                  <option value={data.ingressClassName}>{data.ingressClassName}</option>
+                )}
               </select>
             </div>
-            <div className="flex items-center gap-2">
-              <input
-                type="checkbox"
-                id="enableTLS"
-                checked={data.enableTLS}
-                onChange={(e) => update({ enableTLS: e.target.checked } as Partial<K8sNodeData>)}
-                className="w-4 h-4"
+            {ingressProfile && (
+              <IngressControllerFieldsSection
+                profile={ingressProfile}
+                annotations={data.annotations}
+                onChange={(annotations) => update({ annotations } as Partial<K8sNodeData>)}
+              />
+            )}
+            <div>
+              <FieldLabel label="TLS" helpKey="ingress.tls" />
+              <IngressTLSEditor
+                items={data.tls}
+                onChange={(tls) => update({ tls } as Partial<K8sNodeData>)}
               />
-              <label htmlFor="enableTLS" className="text-sm text-foreground">Enable TLS</label>
             </div>
-            {data.enableTLS && (
-              <div>
-                <FieldLabel label="TLS Secret Name" helpKey="ingress.tlsSecretName" />
-                <input
-                  type="text"
-                  className="input-field"
-                  value={data.tlsSecretName}
-                  onChange={(e) => update({ tlsSecretName: e.target.value } as Partial<K8sNodeData>)}
-                  placeholder="tls-secret"
-                />
-              </div>
-            )}
             <div>
               <FieldLabel label="Annotations" helpKey="ingress.annotations" />
               <KeyValueEditor
@@ -446,11 +1078,14 @@ export default function PropertiesPanel({ node, onUpdate, onClose }: PropertiesP
               <div>
                 <FieldLabel label="Target Port" helpKey="service.targetPort" />
                 <input
-                  type="number"
+                  type="text"
                   className="input-field"
                   value={data.targetPort}
-                  onChange={(e) => update({ targetPort: parseInt(e.target.value) || 80 } as Partial<K8sNodeData>)}
-                  placeholder="8080"
+                  onChange={(e) => {
+                    const value = e.target.value.trim();
+                    update({ targetPort: /^\d+$/.test(value) ? parseInt(value, 10) : value || 80 } as Partial<K8sNodeData>);
+                  }}
+                  placeholder="8080 or http"
                 />
               </div>
             </div>
@@ -466,6 +1101,16 @@ export default function PropertiesPanel({ node, onUpdate, onClose }: PropertiesP
                 <option value="LoadBalancer">LoadBalancer</option>
               </select>
             </div>
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="headless"
+                checked={!!data.headless}
+                onChange={(e) => update({ headless: e.target.checked } as Partial<K8sNodeData>)}
+                className="w-4 h-4"
+              />
+              <label htmlFor="headless" className="text-sm text-foreground">Headless (clusterIP: None)</label>
+            </div>
             <div>
               <FieldLabel label="Selector Labels" helpKey="service.selectorLabels" />
               <KeyValueEditor
@@ -520,12 +1165,12 @@ export default function PropertiesPanel({ node, onUpdate, onClose }: PropertiesP
               />
             </div>
             <div>
-              <FieldLabel label="Container Port" helpKey="deployment.containerPort" />
+              <FieldLabel label="Container Port (optional)" helpKey="deployment.containerPort" />
               <input
                 type="number"
                 className="input-field"
-                value={data.containerPort}
-                onChange={(e) => update({ containerPort: parseInt(e.target.value) || 80 } as Partial<K8sNodeData>)}
+                value={data.containerPort || ''}
+                onChange={(e) => update({ containerPort: parseInt(e.target.value) || undefined } as Partial<K8sNodeData>)}
                 placeholder="8080"
               />
             </div>
@@ -563,6 +1208,293 @@ export default function PropertiesPanel({ node, onUpdate, onClose }: PropertiesP
           </>
         )}
 
+        {/* StatefulSet fields */}
+        {data.type === 'statefulset' && (
+          <>
+            <div>
+              <FieldLabel label="Name" helpKey="statefulset.name" />
+              <input
+                type="text"
+                className="input-field"
+                value={data.name}
+                onChange={(e) => update({ name: e.target.value } as Partial<K8sNodeData>)}
+                placeholder="postgres"
+              />
+            </div>
+            <div>
+              <FieldLabel label="Service Name" helpKey="statefulset.serviceName" />
+              <input
+                type="text"
+                className="input-field"
+                value={data.serviceName}
+                onChange={(e) => update({ serviceName: e.target.value } as Partial<K8sNodeData>)}
+                placeholder="postgres-headless"
+              />
+            </div>
+            <div>
+              <FieldLabel label="Replicas" helpKey="statefulset.replicas" />
+              <input
+                type="number"
+                className="input-field"
+                value={data.replicas}
+                onChange={(e) => update({ replicas: parseInt(e.target.value) || 1 } as Partial<K8sNodeData>)}
+                placeholder="3"
+              />
+            </div>
+            <div>
+              <FieldLabel label="Container Name" helpKey="deployment.containerName" />
+              <input
+                type="text"
+                className="input-field"
+                value={data.containerName}
+                onChange={(e) => update({ containerName: e.target.value } as Partial<K8sNodeData>)}
+                placeholder="db"
+              />
+            </div>
+            <div>
+              <FieldLabel label="Image" helpKey="deployment.image" />
+              <input
+                type="text"
+                className="input-field"
+                value={data.image}
+                onChange={(e) => update({ image: e.target.value } as Partial<K8sNodeData>)}
+                placeholder="postgres:16"
+              />
+            </div>
+            <div>
+              <FieldLabel label="Container Port (optional)" helpKey="deployment.containerPort" />
+              <input
+                type="number"
+                className="input-field"
+                value={data.containerPort || ''}
+                onChange={(e) => update({ containerPort: parseInt(e.target.value) || undefined } as Partial<K8sNodeData>)}
+                placeholder="5432"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <FieldLabel label="Pod Management" helpKey="statefulset.podManagementPolicy" />
+                <select
+                  className="input-field"
+                  value={data.podManagementPolicy}
+                  onChange={(e) => update({ podManagementPolicy: e.target.value as 'OrderedReady' | 'Parallel' } as Partial<K8sNodeData>)}
+                >
+                  <option value="OrderedReady">OrderedReady</option>
+                  <option value="Parallel">Parallel</option>
+                </select>
+              </div>
+              <div>
+                <FieldLabel label="Update Strategy" helpKey="statefulset.updateStrategy" />
+                <select
+                  className="input-field"
+                  value={data.updateStrategy}
+                  onChange={(e) => update({ updateStrategy: e.target.value as 'RollingUpdate' | 'OnDelete' } as Partial<K8sNodeData>)}
+                >
+                  <option value="RollingUpdate">RollingUpdate</option>
+                  <option value="OnDelete">OnDelete</option>
+                </select>
+              </div>
+            </div>
+            <div>
+              <FieldLabel label="Labels" helpKey="deployment.labels" />
+              <KeyValueEditor
+                items={data.labels}
+                onChange={(labels) => update({ labels } as Partial<K8sNodeData>)}
+              />
+            </div>
+            <div>
+              <FieldLabel label="Environment Variables" helpKey="deployment.envVars" />
+              <KeyValueEditor
+                items={data.envVars}
+                onChange={(envVars) => update({ envVars } as Partial<K8sNodeData>)}
+                keyLabel="Name"
+              />
+            </div>
+            <div>
+              <FieldLabel label="Volume Claim Templates" helpKey="statefulset.volumeClaimTemplates" />
+              <VolumeClaimTemplateEditor
+                items={data.volumeClaimTemplates}
+                onChange={(volumeClaimTemplates) => update({ volumeClaimTemplates } as Partial<K8sNodeData>)}
+              />
+            </div>
+          </>
+        )}
+
+        {/* DaemonSet fields */}
+        {data.type === 'daemonset' && (
+          <>
+            <div>
+              <FieldLabel label="Name" helpKey="daemonset.name" />
+              <input
+                type="text"
+                className="input-field"
+                value={data.name}
+                onChange={(e) => update({ name: e.target.value } as Partial<K8sNodeData>)}
+                placeholder="log-shipper"
+              />
+            </div>
+            <div>
+              <FieldLabel label="Container Name" helpKey="deployment.containerName" />
+              <input
+                type="text"
+                className="input-field"
+                value={data.containerName}
+                onChange={(e) => update({ containerName: e.target.value } as Partial<K8sNodeData>)}
+                placeholder="agent"
+              />
+            </div>
+            <div>
+              <FieldLabel label="Image" helpKey="deployment.image" />
+              <input
+                type="text"
+                className="input-field"
+                value={data.image}
+                onChange={(e) => update({ image: e.target.value } as Partial<K8sNodeData>)}
+                placeholder="fluent/fluent-bit:3.0"
+              />
+            </div>
+            <div>
+              <FieldLabel label="Container Port (optional)" helpKey="deployment.containerPort" />
+              <input
+                type="number"
+                className="input-field"
+                value={data.containerPort || ''}
+                onChange={(e) => update({ containerPort: parseInt(e.target.value) || undefined } as Partial<K8sNodeData>)}
+                placeholder="2020"
+              />
+            </div>
+            <div>
+              <FieldLabel label="Labels" helpKey="deployment.labels" />
+              <KeyValueEditor
+                items={data.labels}
+                onChange={(labels) => update({ labels } as Partial<K8sNodeData>)}
+              />
+            </div>
+            <div>
+              <FieldLabel label="Environment Variables" helpKey="deployment.envVars" />
+              <KeyValueEditor
+                items={data.envVars}
+                onChange={(envVars) => update({ envVars } as Partial<K8sNodeData>)}
+                keyLabel="Name"
+              />
+            </div>
+            <div>
+              <FieldLabel label="Node Selector" helpKey="daemonset.nodeSelector" />
+              <KeyValueEditor
+                items={data.nodeSelector}
+                onChange={(nodeSelector) => update({ nodeSelector } as Partial<K8sNodeData>)}
+                keyLabel="Label"
+              />
+            </div>
+            <div>
+              <FieldLabel label="Tolerations" helpKey="daemonset.tolerations" />
+              <TolerationEditor
+                items={data.tolerations}
+                onChange={(tolerations) => update({ tolerations } as Partial<K8sNodeData>)}
+              />
+            </div>
+          </>
+        )}
+
+        {/* Job fields */}
+        {data.type === 'job' && (
+          <>
+            <div>
+              <FieldLabel label="Name" helpKey="job.name" />
+              <input
+                type="text"
+                className="input-field"
+                value={data.name}
+                onChange={(e) => update({ name: e.target.value } as Partial<K8sNodeData>)}
+                placeholder="db-migrate"
+              />
+            </div>
+            <div>
+              <FieldLabel label="Container Name" helpKey="deployment.containerName" />
+              <input
+                type="text"
+                className="input-field"
+                value={data.containerName || ''}
+                onChange={(e) => update({ containerName: e.target.value } as Partial<K8sNodeData>)}
+                placeholder={data.name}
+              />
+            </div>
+            <div>
+              <FieldLabel label="Image" helpKey="cronjob.image" />
+              <input
+                type="text"
+                className="input-field"
+                value={data.image}
+                onChange={(e) => update({ image: e.target.value } as Partial<K8sNodeData>)}
+                placeholder="busybox:latest"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <FieldLabel label="Completions" helpKey="job.completions" />
+                <input
+                  type="number"
+                  className="input-field"
+                  value={data.completions}
+                  onChange={(e) => update({ completions: parseInt(e.target.value) || 1 } as Partial<K8sNodeData>)}
+                  placeholder="1"
+                />
+              </div>
+              <div>
+                <FieldLabel label="Parallelism" helpKey="job.parallelism" />
+                <input
+                  type="number"
+                  className="input-field"
+                  value={data.parallelism}
+                  onChange={(e) => update({ parallelism: parseInt(e.target.value) || 1 } as Partial<K8sNodeData>)}
+                  placeholder="1"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <FieldLabel label="Backoff Limit" helpKey="job.backoffLimit" />
+                <input
+                  type="number"
+                  className="input-field"
+                  value={data.backoffLimit}
+                  onChange={(e) => update({ backoffLimit: parseInt(e.target.value) || 0 } as Partial<K8sNodeData>)}
+                  placeholder="6"
+                />
+              </div>
+              <div>
+                <FieldLabel label="TTL After Finished (s)" helpKey="job.ttlSecondsAfterFinished" />
+                <input
+                  type="number"
+                  className="input-field"
+                  value={data.ttlSecondsAfterFinished ?? ''}
+                  onChange={(e) => update({ ttlSecondsAfterFinished: e.target.value === '' ? undefined : parseInt(e.target.value) || 0 } as Partial<K8sNodeData>)}
+                  placeholder="3600"
+                />
+              </div>
+            </div>
+            <div>
+              <FieldLabel label="Restart Policy" helpKey="job.restartPolicy" />
+              <select
+                className="input-field"
+                value={data.restartPolicy}
+                onChange={(e) => update({ restartPolicy: e.target.value as 'OnFailure' | 'Never' } as Partial<K8sNodeData>)}
+              >
+                <option value="Never">Never</option>
+                <option value="OnFailure">OnFailure</option>
+              </select>
+            </div>
+            <div>
+              <FieldLabel label="Environment Variables" helpKey="deployment.envVars" />
+              <KeyValueEditor
+                items={data.envVars}
+                onChange={(envVars) => update({ envVars } as Partial<K8sNodeData>)}
+                keyLabel="Name"
+              />
+            </div>
+          </>
+        )}
+
         {/* ConfigMap fields */}
         {data.type === 'configmap' && (
           <>
@@ -701,6 +1633,16 @@ export default function PropertiesPanel({ node, onUpdate, onClose }: PropertiesP
                 placeholder="backup-job"
               />
             </div>
+            <div>
+              <FieldLabel label="Container Name" helpKey="deployment.containerName" />
+              <input
+                type="text"
+                className="input-field"
+                value={data.containerName || ''}
+                onChange={(e) => update({ containerName: e.target.value } as Partial<K8sNodeData>)}
+                placeholder={data.name}
+              />
+            </div>
             <div>
               <FieldLabel label="Schedule (cron)" helpKey="cronjob.schedule" />
               <input
@@ -721,6 +1663,17 @@ export default function PropertiesPanel({ node, onUpdate, onClose }: PropertiesP
                 placeholder="busybox:latest"
               />
             </div>
+            <div>
+              <FieldLabel label="Restart Policy" helpKey="job.restartPolicy" />
+              <select
+                className="input-field"
+                value={data.restartPolicy || 'OnFailure'}
+                onChange={(e) => update({ restartPolicy: e.target.value as 'OnFailure' | 'Never' } as Partial<K8sNodeData>)}
+              >
+                <option value="OnFailure">OnFailure</option>
+                <option value="Never">Never</option>
+              </select>
+            </div>
           </>
         )}
 
@@ -770,7 +1723,18 @@ export default function PropertiesPanel({ node, onUpdate, onClose }: PropertiesP
               </div>
             </div>
             <div>
-              <FieldLabel label="CPU Target (%)" helpKey="hpa.cpuTarget" />
+              <FieldLabel label="Metric" helpKey="hpa.metricResource" />
+              <select
+                className="input-field"
+                value={data.metricResource || 'cpu'}
+                onChange={(e) => update({ metricResource: e.target.value as 'cpu' | 'memory' } as Partial<K8sNodeData>)}
+              >
+                <option value="cpu">CPU</option>
+                <option value="memory">Memory</option>
+              </select>
+            </div>
+            <div>
+              <FieldLabel label={data.metricResource === 'memory' ? 'Memory Target (%)' : 'CPU Target (%)'} helpKey="hpa.cpuTarget" />
               <input
                 type="number"
                 className="input-field"
@@ -866,6 +1830,16 @@ export default function PropertiesPanel({ node, onUpdate, onClose }: PropertiesP
             />
           </>
         )}
+
+        {/* Resources, probes and securityContext for every node that renders a container */}
+        {(data.type === 'deployment' || data.type === 'statefulset' || data.type === 'daemonset' || data.type === 'job'
+          || data.type === 'cronjob' || data.type === 'pod' || data.type === 'sidecar') && (
+          <ContainerSettingsSection
+            settings={data}
+            defaultPort={('containerPort' in data && data.containerPort) || 80}
+            onChange={(changes) => update(changes as Partial<K8sNodeData>)}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,134 @@
+import { AlertTriangle, ArrowRight, Route, X } from 'lucide-react';
+import { Node } from 'reactflow';
+import { K8sNodeData } from '@/types/k8s';
+import { RouteTestResult, UnreachablePath, describeIngressClass, formatIngressRoute } from '@/utils/ingressRouting';
+
+interface RouteTesterPanelProps {
+  url: string;
+  onUrlChange: (url: string) => void;
+  // Ingress classes in the diagram; each controller only serves its own
+  ingressClasses: string[];
+  ingressClass: string;
+  onIngressClassChange: (ingressClass: string) => void;
+  // null while the URL can't be parsed
+  result: RouteTestResult | null;
+  unreachable: UnreachablePath[];
+  nodes: Node<K8sNodeData>[];
+  onSelectNode: (nodeId: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Resolves a typed URL across the Ingresses of one class and shows the chain
+ * that would serve it, the paths that lost and why, and paths no request can
+ * reach. The canvas highlights the winning chain meanwhile.
+ */
+export default function RouteTesterPanel({
+  url,
+  onUrlChange,
+  ingressClasses,
+  ingressClass,
+  onIngressClassChange,
+  result,
+  unreachable,
+  nodes,
+  onSelectNode,
+  onClose,
+}: RouteTesterPanelProps) {
+  const match = result?.match;
+  const chain = match ? match.nodeIds.map(id => nodes.find(n => n.id === id)).filter((n): n is Node<K8sNodeData> => !!n) : [];
+
+  return (
+    <div className="border-t border-border bg-card flex-shrink-0">
+      <div className="flex items-center justify-between gap-2 px-3 py-1.5">
+        <label htmlFor="route-tester-url" className="flex items-center gap-2 text-xs font-medium text-foreground flex-shrink-0">
+          <Route className="w-3.5 h-3.5" />
+          Test route
+        </label>
+        <input
+          id="route-tester-url"
+          className="input-field py-0.5 text-xs font-mono flex-1 min-w-0"
+          placeholder="shop.example.com/api/v1"
+          value={url}
+          onChange={(e) => onUrlChange(e.target.value)}
+          autoFocus
+        />
+        {ingressClasses.length > 1 && (
+          <select
+            className="input-field py-0.5 text-xs w-auto"
+            value={ingressClass}
+            onChange={(e) => onIngressClassChange(e.target.value)}
+            aria-label="Ingress class to test"
+          >
+            {ingressClasses.map(ingressClassName => (
+              <option key={ingressClassName} value={ingressClassName}>{describeIngressClass(ingressClassName)}</option>
+            ))}
+          </select>
+        )}
+        <button onClick={onClose} className="btn-ghost p-1" title="Close route tester">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <div className="max-h-64 overflow-y-auto scrollbar-thin border-t border-border text-xs">
+        {!url.trim() ? (
+          <p className="px-3 py-2 text-muted-foreground">Type a host and path to see which backend serves it</p>
+        ) : !result ? (
+          <p className="px-3 py-2 text-destructive">Not a valid URL</p>
+        ) : (
+          <div className="px-3 py-2 space-y-2">
+            {match ? (
+              <div className="flex flex-wrap items-center gap-1">
+                <span className="text-muted-foreground">{formatIngressRoute(match.host, match.path.path)} ({match.path.pathType}):</span>
+                {chain.map((node, i) => (
+                  <span key={node.id} className="flex items-center gap-1">
+                    {i > 0 && <ArrowRight className="w-3 h-3 text-muted-foreground" />}
+                    <button onClick={() => onSelectNode(node.id)} className="text-accent hover:underline">
+                      {node.data.label}
+                    </button>
+                  </span>
+                ))}
+              </div>
+            ) : (
+              <p className="text-destructive">No Ingress routes {result.host}{result.path}</p>
+            )}
+            {[match?.warning, ...result.notes].filter(Boolean).map(note => (
+              <p key={note} className="text-muted-foreground">{note}</p>
+            ))}
+            {result.candidates.length > 1 && (
+              <div>
+                <span className="label-text">Other matching paths</span>
+                <ul>
+                  {result.candidates.slice(1).map((candidate, i) => (
+                    <li key={`${candidate.ingressId}-${i}`}>
+                      <button onClick={() => onSelectNode(candidate.ingressId)} className="text-left hover:underline">
+                        {candidate.ingressLabel} {formatIngressRoute(candidate.host, candidate.path.path)} ({candidate.path.pathType})
+                      </button>
+                      <span className="text-muted-foreground"> — {candidate.reason}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        {unreachable.length > 0 && (
+          <ul className="border-t border-border">
+            {unreachable.map((path, i) => (
+              <li key={i}>
+                <button
+                  onClick={() => onSelectNode(path.nodeId)}
+                  className="w-full flex items-start gap-2 px-3 py-1 text-left hover:bg-secondary/50"
+                >
+                  <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0 text-amber-500" />
+                  <span className="flex-1 text-foreground">{path.message}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
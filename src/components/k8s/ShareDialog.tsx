@@ -0,0 +1,107 @@
+import { useEffect, useState } from 'react';
+import { Check, Link } from 'lucide-react';
+import { SHARE_LINK_WARN_LENGTH } from '@/utils/shareLink';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface ShareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Non-empty Secret values in the diagram
+  secretCount: number;
+  onCreateLink: (includeSecrets: boolean) => Promise<string>;
+}
+
+/**
+ * Copies a link that opens the diagram in a new project; Secret values stay
+ * out of it unless the user ticks the box
+ */
+export default function ShareDialog({ open, onOpenChange, secretCount, onCreateLink }: ShareDialogProps) {
+  const [includeSecrets, setIncludeSecrets] = useState(false);
+  const [link, setLink] = useState('');
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState('');
+
+  // Every share starts redacted again
+  useEffect(() => {
+    if (open) {
+      setIncludeSecrets(false);
+      setLink('');
+      setCopied(false);
+      setError('');
+    }
+  }, [open]);
+
+  const copyLink = async () => {
+    try {
+      const created = await onCreateLink(includeSecrets);
+      setLink(created);
+      await navigator.clipboard.writeText(created);
+      setCopied(true);
+      setError('');
+    } catch (err) {
+      setCopied(false);
+      setError(err instanceof Error ? err.message : 'The link could not be created');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share diagram</DialogTitle>
+          <DialogDescription>
+            The diagram is compressed into the link itself; nothing is uploaded. Opening the link loads it into a new project.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <label className="flex items-start gap-2 text-sm text-foreground">
+            <input
+              type="checkbox"
+              checked={includeSecrets}
+              onChange={(e) => {
+                setIncludeSecrets(e.target.checked);
+                setLink('');
+                setCopied(false);
+              }}
+              className="w-4 h-4 mt-0.5"
+            />
+            <span>
+              Include Secret values
+              <span className="block text-xs text-muted-foreground">
+                {secretCount > 0
+                  ? `${secretCount} Secret value${secretCount === 1 ? ' is' : 's are'} blanked unless checked. Anyone with the link can read them.`
+                  : 'The diagram has no Secret values.'}
+              </span>
+            </span>
+          </label>
+
+          {link && (
+            <input type="text" className="input-field font-mono text-xs" value={link} readOnly onFocus={(e) => e.target.select()} aria-label="Share link" />
+          )}
+          {link.length > SHARE_LINK_WARN_LENGTH && (
+            <p className="text-xs text-amber-500">
+              This link is {link.length.toLocaleString()} characters long; some chat tools truncate links this size. Export a .k8sdiagram.json file instead if it doesn't open.
+            </p>
+          )}
+          {error && <p className="text-xs text-destructive">{error}</p>}
+
+          <div className="flex gap-2 justify-end">
+            <button onClick={() => onOpenChange(false)} className="btn-ghost">
+              Close
+            </button>
+            <button onClick={copyLink} className="btn-primary">
+              {copied ? <Check className="w-4 h-4" /> : <Link className="w-4 h-4" />}
+              {copied ? 'Copied' : 'Copy share link'}
+            </button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, GitCompare, RotateCcw, X } from 'lucide-react';
+import { DiagramDiff, DiffChange, ResourceDiff } from '@/utils/diagramDiff';
+
+interface DiffRevision {
+  name: string;
+  // Set when the revision can be restored, i.e. it is a snapshot
+  onRestore?: () => void;
+}
+
+interface SnapshotDiffPanelProps {
+  from: DiffRevision;
+  to: DiffRevision;
+  diff: DiagramDiff;
+  onClose: () => void;
+}
+
+const changeStyles: Record<DiffChange, string> = {
+  added: 'text-accent',
+  changed: 'text-amber-500',
+  removed: 'text-destructive',
+};
+
+const lineStyles = {
+  same: 'text-muted-foreground',
+  added: 'bg-accent/10 text-accent',
+  removed: 'bg-destructive/10 text-destructive',
+};
+
+const linePrefixes = { same: ' ', added: '+', removed: '-' };
+
+function ResourceDiffItem({ resource }: { resource: ResourceDiff }) {
+  const [expanded, setExpanded] = useState(resource.change === 'changed');
+
+  return (
+    <li>
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center gap-2 px-3 py-1 text-left hover:bg-secondary/50"
+        aria-expanded={expanded}
+      >
+        {expanded ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+        <span className={`text-xs font-medium w-16 ${changeStyles[resource.change]}`}>{resource.change}</span>
+        <span className="flex-1 text-xs text-foreground truncate">
+          {resource.kind}/{resource.name}
+          {resource.namespace && <span className="text-muted-foreground"> in {resource.namespace}</span>}
+        </span>
+      </button>
+      {expanded && (
+        <pre className="mx-3 mb-2 rounded-md border border-border bg-background text-xs font-mono overflow-x-auto scrollbar-thin">
+          {resource.lines.map((line, i) => (
+            <div key={i} className={`px-2 whitespace-pre ${lineStyles[line.type]}`}>
+              {linePrefixes[line.type]} {line.text}
+            </div>
+          ))}
+        </pre>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Summary and per-resource YAML diff of a snapshot comparison, shown under
+ * the canvas while it highlights the changed nodes
+ */
+export default function SnapshotDiffPanel({ from, to, diff, onClose }: SnapshotDiffPanelProps) {
+  const counts = (['added', 'changed', 'removed'] as DiffChange[]).map(change => ({
+    change,
+    count: Object.values(diff.nodes).filter(c => c === change).length,
+  }));
+
+  return (
+    <div className="border-t border-border bg-card flex-shrink-0">
+      <div className="flex items-center justify-between gap-2 px-3 py-1.5">
+        <div className="flex items-center gap-3 text-xs font-medium text-foreground min-w-0">
+          <GitCompare className="w-3.5 h-3.5 flex-shrink-0" />
+          <span className="truncate">{from.name} → {to.name}</span>
+          {counts.map(({ change, count }) => (
+            <span key={change} className={count > 0 ? changeStyles[change] : 'text-muted-foreground'}>
+              {count} {change}
+            </span>
+          ))}
+        </div>
+        <div className="flex items-center gap-1 flex-shrink-0">
+          {[from, to].map((revision, i) => revision.onRestore && (
+            <button key={i} onClick={revision.onRestore} className="btn-ghost py-1 text-xs">
+              <RotateCcw className="w-3.5 h-3.5" />
+              Restore {revision.name}
+            </button>
+          ))}
+          <button onClick={onClose} className="btn-ghost p-1" title="Close comparison">
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="max-h-64 overflow-y-auto scrollbar-thin border-t border-border">
+        {diff.resources.length === 0 ? (
+          <p className="px-3 py-2 text-xs text-muted-foreground">Both revisions generate the same YAML</p>
+        ) : (
+          <ul>
+            {diff.resources.map(resource => (
+              <ResourceDiffItem key={resource.key} resource={resource} />
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useEffect, useState } from 'react';
+import { Camera, GitCompare, RotateCcw, Trash2 } from 'lucide-react';
+import { Snapshot } from '@/utils/diagramStorage';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+// Select value standing for the diagram on the canvas
+const CURRENT = 'current';
+
+interface SnapshotsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectName: string;
+  snapshots: Snapshot[];
+  onCreate: (name: string) => void;
+  onRestore: (snapshot: Snapshot) => void;
+  // null stands for the current diagram
+  onCompare: (from: Snapshot | null, to: Snapshot | null) => void;
+  onDelete: (id: string) => void;
+}
+
+/**
+ * Named checkpoints of the open project: take one, restore it, or compare any
+ * two revisions on the canvas
+ */
+export default function SnapshotsDialog({
+  open,
+  onOpenChange,
+  projectName,
+  snapshots,
+  onCreate,
+  onRestore,
+  onCompare,
+  onDelete,
+}: SnapshotsDialogProps) {
+  const [newName, setNewName] = useState('');
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState(CURRENT);
+
+  // Default to comparing the newest snapshot with the canvas
+  useEffect(() => {
+    if (open) {
+      setFromId(snapshots[0]?.id ?? '');
+      setToId(CURRENT);
+    }
+  }, [open, snapshots]);
+
+  const create = () => {
+    onCreate(newName.trim() || `Snapshot ${snapshots.length + 1}`);
+    setNewName('');
+  };
+
+  const findRevision = (id: string) => snapshots.find(s => s.id === id) ?? null;
+
+  const confirmDelete = (snapshot: Snapshot) => {
+    if (window.confirm(`Delete snapshot "${snapshot.name}"?`)) onDelete(snapshot.id);
+  };
+
+  const revisionOptions = (
+    <>
+      <option value={CURRENT}>Current diagram</option>
+      {snapshots.map(snapshot => (
+        <option key={snapshot.id} value={snapshot.id}>{snapshot.name}</option>
+      ))}
+    </>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Snapshots</DialogTitle>
+          <DialogDescription>
+            Named checkpoints of {projectName}. Restoring one can be undone.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              className="input-field"
+              placeholder="e.g. before adding redis"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && create()}
+              aria-label="Snapshot name"
+            />
+            <button onClick={create} className="btn-primary whitespace-nowrap">
+              <Camera className="w-4 h-4" />
+              Take snapshot
+            </button>
+          </div>
+
+          {snapshots.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No snapshots of this project yet.</p>
+          ) : (
+            <>
+              <ul className="max-h-64 overflow-y-auto scrollbar-thin space-y-2 pr-1">
+                {snapshots.map(snapshot => (
+                  <li key={snapshot.id} className="p-2 border border-border rounded-md flex items-center gap-2">
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm text-foreground truncate">{snapshot.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {snapshot.nodes.length} node{snapshot.nodes.length === 1 ? '' : 's'} · {new Date(snapshot.createdAt).toLocaleString()}
+                      </div>
+                    </div>
+                    <button onClick={() => onCompare(snapshot, null)} className="btn-ghost p-1.5" title="Compare with current diagram">
+                      <GitCompare className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => onRestore(snapshot)} className="btn-ghost p-1.5" title="Restore">
+                      <RotateCcw className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => confirmDelete(snapshot)} className="btn-ghost p-1.5 text-destructive" title="Delete">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+
+              <div className="flex items-end gap-2">
+                <label className="flex-1 min-w-0">
+                  <span className="label-text">From</span>
+                  <select className="input-field" value={fromId} onChange={(e) => setFromId(e.target.value)}>
+                    {revisionOptions}
+                  </select>
+                </label>
+                <label className="flex-1 min-w-0">
+                  <span className="label-text">To</span>
+                  <select className="input-field" value={toId} onChange={(e) => setToId(e.target.value)}>
+                    {revisionOptions}
+                  </select>
+                </label>
+                <button
+                  onClick={() => onCompare(findRevision(fromId), findRevision(toId))}
+                  className="btn-ghost whitespace-nowrap"
+                  disabled={fromId === toId}
+                >
+                  <GitCompare className="w-4 h-4" />
+                  Compare
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,9 +1,11 @@
-import { useState, useMemo, useCallback } from 'react';
-import Editor, { loader } from '@monaco-editor/react';
-import { Copy, Download, Check, Package, GitPullRequest } from 'lucide-react';
+import { useState, useMemo, useCallback, useEffect, useRef } from 'react';
+import Editor, { OnMount, loader } from '@monaco-editor/react';
+import { Copy, Download, Check, Package, GitPullRequest, ShieldCheck, Anchor, Layers } from 'lucide-react';
 import JSZip from 'jszip';
 import { saveAs } from 'file-saver';
-import { GeneratedYaml } from '@/types/k8s';
+import { DiagramSettings, GeneratedManifests, GeneratedYaml } from '@/types/k8s';
+import { KUBERNETES_VERSIONS } from '@/utils/kubernetesVersions';
+import { YamlDocumentIssue, YamlSyncResult } from '@/utils/yamlSync';
 import * as monaco from 'monaco-editor';
 import {
   Dialog,
@@ -12,6 +14,8 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import HelmChartDialog from './HelmChartDialog';
+import KustomizeDialog from './KustomizeDialog';
 
 // Configure Monaco Editor to use self-hosted version instead of CDN
 // This prevents tracking protection issues in browsers
@@ -19,44 +23,82 @@ loader.config({ monaco });
 
 interface YamlPanelProps {
   yamls: GeneratedYaml;
+  manifests: GeneratedManifests;
+  settings: DiagramSettings;
+  onSettingsChange: (settings: DiagramSettings) => void;
+  // Applies YAML edited on the All tab to the diagram
+  onYamlEdit: (yamlText: string) => Promise<YamlSyncResult>;
 }
 
-type YamlTab = 'all' | 'ingresses' | 'services' | 'deployments' | 'configmaps' | 'secrets' | 'pvcs' | 'cronjobs' | 'hpas' | 'pods';
+const SYNC_DELAY_MS = 500;
+const MARKER_OWNER = 'yaml-sync';
+
+function toMarker(issue: YamlDocumentIssue, model: monaco.editor.ITextModel): monaco.editor.IMarkerData {
+  const line = Math.min(issue.line, model.getLineCount());
+  return {
+    severity: issue.severity === 'error' ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning,
+    message: issue.message,
+    startLineNumber: line,
+    startColumn: issue.column ?? 1,
+    endLineNumber: line,
+    endColumn: model.getLineMaxColumn(line),
+  };
+}
+
+type YamlTab = 'all' | 'namespaces' | 'ingresses' | 'services' | 'deployments' | 'statefulsets' | 'daemonsets' | 'jobs' | 'configmaps' | 'secrets' | 'pvcs' | 'cronjobs' | 'hpas' | 'pods' | 'networkpolicies';
 
 const tabs: { id: YamlTab; label: string; filePrefix: string }[] = [
   { id: 'all', label: 'All', filePrefix: 'all' },
+  { id: 'namespaces', label: 'NS', filePrefix: 'namespace' },
   { id: 'ingresses', label: 'Ingress', filePrefix: 'ingress' },
   { id: 'services', label: 'Service', filePrefix: 'service' },
   { id: 'deployments', label: 'Deploy', filePrefix: 'deployment' },
+  { id: 'statefulsets', label: 'STS', filePrefix: 'statefulset' },
+  { id: 'daemonsets', label: 'DS', filePrefix: 'daemonset' },
   { id: 'pods', label: 'Pods', filePrefix: 'pod' },
   { id: 'configmaps', label: 'Config', filePrefix: 'configmap' },
   { id: 'secrets', label: 'Secret', filePrefix: 'secret' },
   { id: 'pvcs', label: 'PVC', filePrefix: 'pvc' },
+  { id: 'jobs', label: 'Job', filePrefix: 'job' },
   { id: 'cronjobs', label: 'CronJob', filePrefix: 'cronjob' },
   { id: 'hpas', label: 'HPA', filePrefix: 'hpa' },
+  { id: 'networkpolicies', label: 'NetPol', filePrefix: 'networkpolicy' },
 ];
 
-export default function YamlPanel({ yamls }: YamlPanelProps) {
+export default function YamlPanel({ yamls, manifests, settings, onSettingsChange, onYamlEdit }: YamlPanelProps) {
   const [activeTab, setActiveTab] = useState<YamlTab>('all');
   const [copied, setCopied] = useState(false);
   const [showPRDialog, setShowPRDialog] = useState(false);
+  const [showHelmDialog, setShowHelmDialog] = useState(false);
+  const [showKustomizeDialog, setShowKustomizeDialog] = useState(false);
   const [templateId, setTemplateId] = useState('');
   const [templateTitle, setTemplateTitle] = useState('');
   const [templateFolder, setTemplateFolder] = useState('');
   const [templateTags, setTemplateTags] = useState('');
+  // Text being edited on the All tab; null while the editor shows the generated YAML
+  const [draft, setDraft] = useState<string | null>(null);
+  const editorRef = useRef<monaco.editor.IStandaloneCodeEditor | null>(null);
+  const syncTimer = useRef<ReturnType<typeof setTimeout>>();
+  // Whether the last edit parsed and reached the diagram, so the draft can be dropped
+  const draftApplied = useRef(true);
 
   const currentYaml = useMemo(() => {
     if (activeTab === 'all') {
       const all = [
+        ...yamls.namespaces,
         ...yamls.configmaps,
         ...yamls.secrets,
         ...yamls.pvcs,
         ...yamls.pods,
         ...yamls.deployments,
+        ...yamls.statefulsets,
+        ...yamls.daemonsets,
         ...yamls.services,
         ...yamls.ingresses,
+        ...yamls.jobs,
         ...yamls.cronjobs,
         ...yamls.hpas,
+        ...yamls.networkpolicies,
       ];
       return all.length > 0 ? all.join('\n---\n') : '# Add resources to generate YAML';
     }
@@ -64,6 +106,40 @@ export default function YamlPanel({ yamls }: YamlPanelProps) {
     return items.length > 0 ? items.join('\n---\n') : `# No ${activeTab} defined`;
   }, [yamls, activeTab]);
 
+  const editable = activeTab === 'all';
+  const editorValue = editable && draft !== null ? draft : currentYaml;
+
+  const setMarkers = useCallback((issues: YamlDocumentIssue[]) => {
+    const model = editorRef.current?.getModel();
+    if (model) monaco.editor.setModelMarkers(model, MARKER_OWNER, issues.map(issue => toMarker(issue, model)));
+  }, []);
+
+  const discardDraft = useCallback(() => {
+    if (!draftApplied.current) return;
+    setDraft(null);
+    setMarkers([]);
+  }, [setMarkers]);
+
+  const handleEditorChange = useCallback((value: string | undefined) => {
+    if (!editable || value === undefined || value === editorValue) return;
+    setDraft(value);
+    draftApplied.current = false;
+    clearTimeout(syncTimer.current);
+    syncTimer.current = setTimeout(async () => {
+      const result = await onYamlEdit(value);
+      draftApplied.current = !!result.nodes;
+      setMarkers(result.issues);
+    }, SYNC_DELAY_MS);
+  }, [editable, editorValue, onYamlEdit, setMarkers]);
+
+  const handleEditorMount = useCallback<OnMount>((editor) => {
+    editorRef.current = editor;
+    // Once focus leaves, show the YAML the diagram generates from the applied edit
+    editor.onDidBlurEditorText(() => discardDraft());
+  }, [discardDraft]);
+
+  useEffect(() => () => clearTimeout(syncTimer.current), []);
+
   const handleCopy = useCallback(async () => {
     await navigator.clipboard.writeText(currentYaml);
     setCopied(true);
@@ -80,6 +156,9 @@ export default function YamlPanel({ yamls }: YamlPanelProps) {
   const handleDownloadZip = useCallback(async () => {
     const zip = new JSZip();
 
+    if (yamls.namespaces.length > 0) {
+      yamls.namespaces.forEach((y, i) => zip.file(`namespace-${i + 1}.yaml`, y));
+    }
     if (yamls.ingresses.length > 0) {
       yamls.ingresses.forEach((y, i) => zip.file(`ingress-${i + 1}.yaml`, y));
     }
@@ -89,6 +168,12 @@ export default function YamlPanel({ yamls }: YamlPanelProps) {
     if (yamls.deployments.length > 0) {
       yamls.deployments.forEach((y, i) => zip.file(`deployment-${i + 1}.yaml`, y));
     }
+    if (yamls.statefulsets.length > 0) {
+      yamls.statefulsets.forEach((y, i) => zip.file(`statefulset-${i + 1}.yaml`, y));
+    }
+    if (yamls.daemonsets.length > 0) {
+      yamls.daemonsets.forEach((y, i) => zip.file(`daemonset-${i + 1}.yaml`, y));
+    }
     if (yamls.pods.length > 0) {
       yamls.pods.forEach((y, i) => zip.file(`pod-${i + 1}.yaml`, y));
     }
@@ -101,12 +186,18 @@ export default function YamlPanel({ yamls }: YamlPanelProps) {
     if (yamls.pvcs.length > 0) {
       yamls.pvcs.forEach((y, i) => zip.file(`pvc-${i + 1}.yaml`, y));
     }
+    if (yamls.jobs.length > 0) {
+      yamls.jobs.forEach((y, i) => zip.file(`job-${i + 1}.yaml`, y));
+    }
     if (yamls.cronjobs.length > 0) {
       yamls.cronjobs.forEach((y, i) => zip.file(`cronjob-${i + 1}.yaml`, y));
     }
     if (yamls.hpas.length > 0) {
       yamls.hpas.forEach((y, i) => zip.file(`hpa-${i + 1}.yaml`, y));
     }
+    if (yamls.networkpolicies.length > 0) {
+      yamls.networkpolicies.forEach((y, i) => zip.file(`networkpolicy-${i + 1}.yaml`, y));
+    }
 
     const content = await zip.generateAsync({ type: 'blob' });
     saveAs(content, 'k8s-manifests.zip');
@@ -145,7 +236,20 @@ export default function YamlPanel({ yamls }: YamlPanelProps) {
     <div className="panel h-full flex flex-col">
       <div className="panel-header flex-col items-stretch gap-2">
         <div className="flex items-center justify-between">
-          <span className="panel-title">Generated YAML</span>
+          <div className="flex items-center gap-2">
+            <span className="panel-title" title="Edits on the All tab are applied to the diagram">Generated YAML</span>
+            <select
+              className="input-field py-0.5 text-xs w-auto"
+              value={settings.kubernetesVersion}
+              onChange={(e) => onSettingsChange({ ...settings, kubernetesVersion: e.target.value })}
+              title="Target Kubernetes version: picks apiVersions and the schemas manifests are validated against"
+              aria-label="Target Kubernetes version"
+            >
+              {KUBERNETES_VERSIONS.map(version => (
+                <option key={version} value={version}>v{version}</option>
+              ))}
+            </select>
+          </div>
           <div className="flex gap-1">
             <button onClick={handleCopy} className="btn-ghost p-1.5" title="Copy">
               {copied ? <Check className="w-4 h-4 text-accent" /> : <Copy className="w-4 h-4" />}
@@ -156,6 +260,19 @@ export default function YamlPanel({ yamls }: YamlPanelProps) {
             <button onClick={handleDownloadZip} className="btn-ghost p-1.5" title="Download ZIP">
               <Package className="w-4 h-4" />
             </button>
+            <button onClick={() => setShowKustomizeDialog(true)} className="btn-ghost p-1.5" title="Download Kustomize overlays">
+              <Layers className="w-4 h-4" />
+            </button>
+            <button onClick={() => setShowHelmDialog(true)} className="btn-ghost p-1.5" title="Download Helm chart">
+              <Anchor className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onSettingsChange({ ...settings, networkPolicies: !settings.networkPolicies })}
+              className={`btn-ghost p-1.5 ${settings.networkPolicies ? 'text-accent' : ''}`}
+              title={settings.networkPolicies ? 'Disable NetworkPolicy generation' : 'Generate NetworkPolicies from connections'}
+            >
+              <ShieldCheck className="w-4 h-4" />
+            </button>
             <button onClick={() => setShowPRDialog(true)} className="btn-ghost p-1.5" title="Create Template PR">
               <GitPullRequest className="w-4 h-4" />
             </button>
@@ -165,22 +282,42 @@ export default function YamlPanel({ yamls }: YamlPanelProps) {
           {availableTabs.map(tab => (
             <button
               key={tab.id}
-              onClick={() => setActiveTab(tab.id)}
+              onClick={() => {
+                discardDraft();
+                setActiveTab(tab.id);
+              }}
               className={`tab-button whitespace-nowrap ${activeTab === tab.id ? 'tab-button-active' : ''}`}
             >
               {tab.label}
             </button>
           ))}
         </div>
+        {settings.networkPolicies && activeTab === 'networkpolicies' && (
+          <div className="flex items-center gap-2">
+            <label htmlFor="ingressControllerNamespace" className="text-xs text-muted-foreground whitespace-nowrap">
+              Ingress controller namespace
+            </label>
+            <input
+              id="ingressControllerNamespace"
+              type="text"
+              className="input-field py-1 text-xs"
+              value={settings.ingressControllerNamespace}
+              onChange={(e) => onSettingsChange({ ...settings, ingressControllerNamespace: e.target.value })}
+              placeholder="ingress-nginx"
+            />
+          </div>
+        )}
       </div>
       <div className="flex-1 min-h-0">
         <Editor
           height="100%"
           language="yaml"
           theme="vs-dark"
-          value={currentYaml}
+          value={editorValue}
+          onChange={handleEditorChange}
+          onMount={handleEditorMount}
           options={{
-            readOnly: true,
+            readOnly: !editable,
             minimap: { enabled: false },
             fontSize: 12,
             fontFamily: "'JetBrains Mono', monospace",
@@ -192,6 +329,16 @@ export default function YamlPanel({ yamls }: YamlPanelProps) {
         />
       </div>
 
+      <KustomizeDialog
+        open={showKustomizeDialog}
+        onOpenChange={setShowKustomizeDialog}
+        manifests={manifests}
+        environments={settings.environments}
+        onEnvironmentsChange={(environments) => onSettingsChange({ ...settings, environments })}
+      />
+
+      <HelmChartDialog open={showHelmDialog} onOpenChange={setShowHelmDialog} manifests={manifests} />
+
       <Dialog open={showPRDialog} onOpenChange={setShowPRDialog}>
         <DialogContent className="sm:max-w-md">
           <DialogHeader>
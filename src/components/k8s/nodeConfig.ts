@@ -0,0 +1,75 @@
+import {
+  FolderOpen,
+  Globe,
+  Server,
+  Box,
+  Cpu,
+  Play,
+  Database,
+  FileText,
+  Key,
+  HardDrive,
+  Clock,
+  Activity,
+  Container,
+  Layers
+} from 'lucide-react';
+import { K8sNodeData, K8sNodeType } from '@/types/k8s';
+
+/**
+ * Icon and color of each node type, shared by the canvas and the image export
+ */
+export const nodeConfig: Record<K8sNodeType, { icon: React.ElementType; colorClass: string; bgClass: string }> = {
+  namespace: { icon: FolderOpen, colorClass: 'text-[hsl(var(--node-namespace))]', bgClass: 'border-[hsl(var(--node-namespace))]' },
+  ingress: { icon: Globe, colorClass: 'text-[hsl(var(--node-ingress))]', bgClass: 'border-[hsl(var(--node-ingress))]' },
+  service: { icon: Server, colorClass: 'text-[hsl(var(--node-service))]', bgClass: 'border-[hsl(var(--node-service))]' },
+  deployment: { icon: Box, colorClass: 'text-[hsl(var(--node-deployment))]', bgClass: 'border-[hsl(var(--node-deployment))]' },
+  statefulset: { icon: Database, colorClass: 'text-[hsl(var(--node-statefulset))]', bgClass: 'border-[hsl(var(--node-statefulset))]' },
+  daemonset: { icon: Cpu, colorClass: 'text-[hsl(var(--node-daemonset))]', bgClass: 'border-[hsl(var(--node-daemonset))]' },
+  job: { icon: Play, colorClass: 'text-[hsl(var(--node-job))]', bgClass: 'border-[hsl(var(--node-job))]' },
+  configmap: { icon: FileText, colorClass: 'text-[hsl(var(--node-configmap))]', bgClass: 'border-[hsl(var(--node-configmap))]' },
+  secret: { icon: Key, colorClass: 'text-[hsl(var(--node-secret))]', bgClass: 'border-[hsl(var(--node-secret))]' },
+  pvc: { icon: HardDrive, colorClass: 'text-[hsl(var(--node-pvc))]', bgClass: 'border-[hsl(var(--node-pvc))]' },
+  cronjob: { icon: Clock, colorClass: 'text-[hsl(var(--node-cronjob))]', bgClass: 'border-[hsl(var(--node-cronjob))]' },
+  hpa: { icon: Activity, colorClass: 'text-[hsl(var(--node-hpa))]', bgClass: 'border-[hsl(var(--node-hpa))]' },
+  pod: { icon: Container, colorClass: 'text-[hsl(var(--node-pod))]', bgClass: 'border-[hsl(var(--node-pod))]' },
+  sidecar: { icon: Layers, colorClass: 'text-[hsl(var(--node-sidecar))]', bgClass: 'border-[hsl(var(--node-sidecar))]' },
+};
+
+// Detail lines shown under a node's title
+export function getNodeSummary(data: K8sNodeData): string[] {
+  switch (data.type) {
+    case 'namespace':
+      return [`ns/${data.name}`];
+    case 'ingress': {
+      const [first = '*', ...more] = data.rules.map(rule => rule.host || '*');
+      return [more.length > 0 ? `${first} +${more.length} more` : first, `Class: ${data.ingressClassName}`];
+    }
+    case 'service':
+      return [`${data.port}:${data.targetPort}`, data.headless ? 'Headless' : data.serviceType];
+    case 'deployment':
+      return [data.image, `Replicas: ${data.replicas}`];
+    case 'statefulset':
+      return [data.image, `Replicas: ${data.replicas}`, `${data.volumeClaimTemplates.length} volume claims`];
+    case 'daemonset':
+      return [data.image, data.nodeSelector.length > 0 ? `${data.nodeSelector.length} node selectors` : 'All nodes'];
+    case 'job':
+      return [data.image, `Completions: ${data.completions}`];
+    case 'configmap':
+      return [`${data.data.length} keys`];
+    case 'secret':
+      return [data.secretType, `${data.data.length} keys`];
+    case 'pvc':
+      return [data.size, data.storageClassName];
+    case 'cronjob':
+      return [data.schedule, data.image];
+    case 'hpa':
+      return [`${data.minReplicas}-${data.maxReplicas}`, `CPU: ${data.cpuTarget}%`];
+    case 'pod':
+      return [data.image];
+    case 'sidecar':
+      return [data.image, `Purpose: ${data.purpose}`];
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,82 @@
+import * as React from "react";
+import { DiagramCommand, DiagramState, mergeCommands } from "@/utils/diagramHistory";
+
+const HISTORY_LIMIT = 100;
+// Commands with the same coalesce key this close together become one undo step
+const COALESCE_MS = 1000;
+
+interface HistoryEntry {
+  command: DiagramCommand;
+  time: number;
+}
+
+/**
+ * Undo/redo stacks for the diagram. `execute` applies a command and records
+ * it; `record` only records one whose change React Flow has already applied
+ * (deletions, drags).
+ */
+export function useDiagramHistory(getState: () => DiagramState, applyState: (state: DiagramState) => void) {
+  const undoStack = React.useRef<HistoryEntry[]>([]);
+  const redoStack = React.useRef<DiagramCommand[]>([]);
+  const [, setVersion] = React.useState(0);
+  const state = React.useRef({ getState, applyState });
+  state.current = { getState, applyState };
+
+  const record = React.useCallback((command: DiagramCommand) => {
+    const now = Date.now();
+    const stack = undoStack.current;
+    const top = stack[stack.length - 1];
+    if (top && command.coalesceKey && top.command.coalesceKey === command.coalesceKey && now - top.time < COALESCE_MS) {
+      stack[stack.length - 1] = { command: mergeCommands(top.command, command), time: now };
+    } else {
+      stack.push({ command, time: now });
+      if (stack.length > HISTORY_LIMIT) stack.shift();
+    }
+    redoStack.current = [];
+    setVersion((v) => v + 1);
+  }, []);
+
+  const execute = React.useCallback((command: DiagramCommand) => {
+    state.current.applyState(command.redo(state.current.getState()));
+    record(command);
+  }, [record]);
+
+  const undo = React.useCallback(() => {
+    const entry = undoStack.current.pop();
+    if (!entry) return;
+    state.current.applyState(entry.command.undo(state.current.getState()));
+    redoStack.current.push(entry.command);
+    setVersion((v) => v + 1);
+  }, []);
+
+  const redo = React.useCallback(() => {
+    const command = redoStack.current.pop();
+    if (!command) return;
+    state.current.applyState(command.redo(state.current.getState()));
+    // A redone step never merges with the next edit
+    undoStack.current.push({ command, time: 0 });
+    setVersion((v) => v + 1);
+  }, []);
+
+  // Forgets all steps, e.g. when another project is opened
+  const reset = React.useCallback(() => {
+    undoStack.current = [];
+    redoStack.current = [];
+    setVersion((v) => v + 1);
+  }, []);
+
+  const undoTop = undoStack.current[undoStack.current.length - 1];
+  const redoTop = redoStack.current[redoStack.current.length - 1];
+
+  return {
+    execute,
+    record,
+    undo,
+    redo,
+    reset,
+    canUndo: !!undoTop,
+    canRedo: !!redoTop,
+    undoLabel: undoTop?.command.label,
+    redoLabel: redoTop?.label,
+  };
+}
@@ -1,7 +1,11 @@
 export type K8sNodeType =
+  | 'namespace'
   | 'ingress'
   | 'service'
   | 'deployment'
+  | 'statefulset'
+  | 'daemonset'
+  | 'job'
   | 'configmap'
   | 'secret'
   | 'pvc'
@@ -21,44 +25,127 @@ export interface CloudProviderFieldValues {
   [key: string]: any;
 }
 
+export interface ResourceRequirements {
+  cpuRequest: string;
+  memoryRequest: string;
+  cpuLimit: string;
+  memoryLimit: string;
+}
+
+export interface Probe {
+  handler: 'httpGet' | 'tcpSocket' | 'exec';
+  path: string;
+  // A port number, or the name of a container port
+  port: number | string;
+  command: string[];
+  initialDelaySeconds: number;
+  periodSeconds: number;
+  timeoutSeconds: number;
+  failureThreshold: number;
+}
+
+// Unset fields are left out of the manifest, so Kubernetes' defaults apply
+export interface SecurityContext {
+  runAsNonRoot?: boolean;
+  runAsUser?: number;
+  readOnlyRootFilesystem?: boolean;
+  allowPrivilegeEscalation?: boolean;
+  dropAllCapabilities: boolean;
+}
+
+/**
+ * Per-container settings shared by every node type that renders a container
+ */
+export interface ContainerSettings {
+  resources?: ResourceRequirements;
+  livenessProbe?: Probe;
+  readinessProbe?: Probe;
+  startupProbe?: Probe;
+  securityContext?: SecurityContext;
+}
+
+/**
+ * Fields of a resource's YAML that the node model doesn't cover, kept so they
+ * survive being regenerated (see utils/passthrough.ts)
+ */
+export interface ManifestPassthrough {
+  passthrough?: Record<string, unknown>;
+}
+
+/**
+ * Data of a workload → ConfigMap/Secret edge. Imported edges that stand for a
+ * valueFrom or volume reference have envFrom false; every other edge injects
+ * all keys of the resource into the main container.
+ */
+export interface ConfigReferenceEdgeData {
+  envFrom: boolean;
+}
+
+export interface NamespaceNodeData extends ManifestPassthrough {
+  type: 'namespace';
+  label: string;
+  name: string;
+  labels: KeyValue[];
+}
+
 export interface IngressPath {
   path: string;
   pathType: 'Prefix' | 'Exact' | 'ImplementationSpecific';
+  // Backend Service; bound to one of the Services the Ingress is connected to
   serviceName: string;
+  // 0 uses the Service's own port
   servicePort: number;
+  // Named Service port; used instead of servicePort when set
+  servicePortName?: string;
 }
 
-export interface IngressNodeData {
-  type: 'ingress';
-  label: string;
+export interface IngressRule {
+  // Empty matches every host
   host: string;
   paths: IngressPath[];
+}
+
+export interface IngressTLS {
+  hosts: string[];
+  secretName: string;
+}
+
+export interface IngressNodeData extends ManifestPassthrough {
+  type: 'ingress';
+  label: string;
+  // Name of an imported Ingress that doesn't end in "-ingress"; otherwise derived from the label
+  name?: string;
+  rules: IngressRule[];
+  tls: IngressTLS[];
   ingressClassName: string;
-  enableTLS: boolean;
-  tlsSecretName: string;
   annotations: KeyValue[];
 }
 
-export interface ServiceNodeData {
+export interface ServiceNodeData extends ManifestPassthrough {
   type: 'service';
   label: string;
   serviceName: string;
   port: number;
-  targetPort: number;
+  // A name refers to a named container port
+  targetPort: number | string;
   serviceType: 'ClusterIP' | 'NodePort' | 'LoadBalancer';
   selectorLabels: KeyValue[];
+  headless?: boolean;
 }
 
-export interface DeploymentNodeData {
+export interface DeploymentNodeData extends ContainerSettings, ManifestPassthrough {
   type: 'deployment';
   label: string;
   deploymentName: string;
   replicas: number;
   containerName: string;
   image: string;
-  containerPort: number;
+  containerPort?: number;
   envVars: KeyValue[];
   labels: KeyValue[];
+  // Imported selector and metadata labels that differ from the pod labels; unset follows labels
+  selectorLabels?: KeyValue[];
+  metadataLabels?: KeyValue[];
   volumeMounts: string[];
   cloudProvider?: CloudProvider;
   cloudProviderTemplateId?: string;
@@ -66,14 +153,81 @@ export interface DeploymentNodeData {
   annotations?: KeyValue[];
 }
 
-export interface ConfigMapNodeData {
+export interface VolumeClaimTemplate {
+  name: string;
+  mountPath: string;
+  storageClassName: string;
+  size: string;
+  accessModes: ('ReadWriteOnce' | 'ReadOnlyMany' | 'ReadWriteMany')[];
+}
+
+export interface StatefulSetNodeData extends ContainerSettings, ManifestPassthrough {
+  type: 'statefulset';
+  label: string;
+  name: string;
+  serviceName: string;
+  replicas: number;
+  containerName: string;
+  image: string;
+  containerPort?: number;
+  envVars: KeyValue[];
+  labels: KeyValue[];
+  // Imported selector and metadata labels that differ from the pod labels; unset follows labels
+  selectorLabels?: KeyValue[];
+  metadataLabels?: KeyValue[];
+  podManagementPolicy: 'OrderedReady' | 'Parallel';
+  updateStrategy: 'RollingUpdate' | 'OnDelete';
+  volumeClaimTemplates: VolumeClaimTemplate[];
+}
+
+export interface Toleration {
+  key: string;
+  operator: 'Equal' | 'Exists';
+  value: string;
+  effect: '' | 'NoSchedule' | 'PreferNoSchedule' | 'NoExecute';
+}
+
+export interface DaemonSetNodeData extends ContainerSettings, ManifestPassthrough {
+  type: 'daemonset';
+  label: string;
+  name: string;
+  containerName: string;
+  image: string;
+  containerPort?: number;
+  envVars: KeyValue[];
+  labels: KeyValue[];
+  // Imported selector and metadata labels that differ from the pod labels; unset follows labels
+  selectorLabels?: KeyValue[];
+  metadataLabels?: KeyValue[];
+  nodeSelector: KeyValue[];
+  tolerations: Toleration[];
+}
+
+export interface JobNodeData extends ContainerSettings, ManifestPassthrough {
+  type: 'job';
+  label: string;
+  name: string;
+  // Defaults to the Job's name
+  containerName?: string;
+  image: string;
+  command: string[];
+  args: string[];
+  envVars: KeyValue[];
+  completions: number;
+  parallelism: number;
+  backoffLimit: number;
+  ttlSecondsAfterFinished?: number;
+  restartPolicy: 'OnFailure' | 'Never';
+}
+
+export interface ConfigMapNodeData extends ManifestPassthrough {
   type: 'configmap';
   label: string;
   name: string;
   data: KeyValue[];
 }
 
-export interface SecretNodeData {
+export interface SecretNodeData extends ManifestPassthrough {
   type: 'secret';
   label: string;
   name: string;
@@ -85,7 +239,7 @@ export interface SecretNodeData {
   annotations?: KeyValue[];
 }
 
-export interface PVCNodeData {
+export interface PVCNodeData extends ManifestPassthrough {
   type: 'pvc';
   label: string;
   name: string;
@@ -98,17 +252,21 @@ export interface PVCNodeData {
   annotations?: KeyValue[];
 }
 
-export interface CronJobNodeData {
+export interface CronJobNodeData extends ContainerSettings, ManifestPassthrough {
   type: 'cronjob';
   label: string;
   name: string;
   schedule: string;
+  // Defaults to the CronJob's name
+  containerName?: string;
   image: string;
   command: string[];
   args: string[];
+  // Defaults to OnFailure
+  restartPolicy?: 'OnFailure' | 'Never';
 }
 
-export interface HPANodeData {
+export interface HPANodeData extends ManifestPassthrough {
   type: 'hpa';
   label: string;
   name: string;
@@ -116,17 +274,21 @@ export interface HPANodeData {
   minReplicas: number;
   maxReplicas: number;
   cpuTarget: number;
+  // Resource the utilization target is measured on; defaults to cpu
+  metricResource?: 'cpu' | 'memory';
 }
 
-export interface PodNodeData {
+export interface PodNodeData extends ContainerSettings, ManifestPassthrough {
   type: 'pod';
   label: string;
   name: string;
+  // Defaults to the Pod's name
+  containerName?: string;
   image: string;
-  containerPort: number;
+  containerPort?: number;
 }
 
-export interface SidecarNodeData {
+export interface SidecarNodeData extends ContainerSettings {
   type: 'sidecar';
   label: string;
   containerName: string;
@@ -144,9 +306,13 @@ export interface SidecarNodeData {
 }
 
 export type K8sNodeData =
+  | NamespaceNodeData
   | IngressNodeData
   | ServiceNodeData
   | DeploymentNodeData
+  | StatefulSetNodeData
+  | DaemonSetNodeData
+  | JobNodeData
   | ConfigMapNodeData
   | SecretNodeData
   | PVCNodeData
@@ -156,26 +322,131 @@ export type K8sNodeData =
   | SidecarNodeData;
 
 export interface GeneratedYaml {
+  namespaces: string[];
   ingresses: string[];
   services: string[];
   deployments: string[];
+  statefulsets: string[];
+  daemonsets: string[];
+  jobs: string[];
   configmaps: string[];
   secrets: string[];
   pvcs: string[];
   cronjobs: string[];
   hpas: string[];
   pods: string[];
+  networkpolicies: string[];
+}
+
+export interface K8sMetadata {
+  name: string;
+  namespace?: string;
+  labels?: Record<string, string>;
+  annotations?: Record<string, string>;
+}
+
+/**
+ * A generated Kubernetes object, kept as plain data until it is serialized
+ */
+export interface K8sManifest {
+  apiVersion: string;
+  kind: string;
+  metadata: K8sMetadata;
+  [field: string]: unknown;
+}
+
+export type GeneratedManifests = { [K in keyof GeneratedYaml]: K8sManifest[] };
+
+export type EnvironmentField = 'replicas' | 'host' | 'imageTag';
+
+/**
+ * Deployment environments the diagram is promoted through. Overrides are keyed
+ * by resource field (e.g. "Deployment:web@shop.replicas") and map each
+ * environment name to the value its overlay patches in.
+ */
+export interface DiagramEnvironments {
+  names: string[];
+  overrides: Record<string, Record<string, string>>;
+}
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Per-diagram override of a lint rule's defaults
+ */
+export interface LintRuleConfig {
+  enabled: boolean;
+  severity: LintSeverity;
+}
+
+// Auto-layout flow: top to bottom or left to right
+export type LayoutDirection = 'TB' | 'LR';
+
+/**
+ * Diagram-wide generation settings, saved alongside the nodes and edges
+ */
+export interface DiagramSettings {
+  // Derive a default-deny NetworkPolicy per namespace plus allow rules from the edges
+  networkPolicies: boolean;
+  // Namespace the ingress controller runs in; Ingress-fronted workloads accept traffic from it
+  ingressControllerNamespace: string;
+  // Environments for the Kustomize overlay export
+  environments: DiagramEnvironments;
+  // Lint rule overrides keyed by rule id; rules without an entry use their defaults
+  lintRules: Record<string, LintRuleConfig>;
+  // Target Kubernetes version: picks generated apiVersions and the schemas manifests are validated against
+  kubernetesVersion: string;
+  // Direction the last auto-layout ran in; imports and "Tidy up" default to it
+  layoutDirection: LayoutDirection;
 }
 
+export const defaultDiagramSettings: DiagramSettings = {
+  networkPolicies: false,
+  ingressControllerNamespace: 'ingress-nginx',
+  environments: { names: ['dev', 'staging', 'prod'], overrides: {} },
+  lintRules: {},
+  kubernetesVersion: '1.30',
+  layoutDirection: 'TB',
+};
+
+export const defaultResources = (): ResourceRequirements => ({
+  cpuRequest: '100m',
+  memoryRequest: '128Mi',
+  cpuLimit: '500m',
+  memoryLimit: '256Mi',
+});
+
+export const defaultProbe = (port: number): Probe => ({
+  handler: 'httpGet',
+  path: '/',
+  port,
+  command: [],
+  initialDelaySeconds: 0,
+  periodSeconds: 10,
+  timeoutSeconds: 1,
+  failureThreshold: 3,
+});
+
+export const defaultSecurityContext = (): SecurityContext => ({
+  runAsNonRoot: true,
+  readOnlyRootFilesystem: true,
+  allowPrivilegeEscalation: false,
+  dropAllCapabilities: true,
+});
+
 export const defaultNodeData: Record<K8sNodeType, () => K8sNodeData> = {
+  namespace: () => ({
+    type: 'namespace',
+    label: 'Namespace',
+    name: 'my-namespace',
+    labels: [],
+  }),
   ingress: () => ({
     type: 'ingress',
     label: 'Ingress',
-    host: 'example.com',
-    paths: [{ path: '/', pathType: 'Prefix', serviceName: '', servicePort: 80 }],
+    rules: [{ host: 'example.com', paths: [{ path: '/', pathType: 'Prefix', serviceName: '', servicePort: 80 }] }],
+    tls: [],
     ingressClassName: 'nginx',
-    enableTLS: false,
-    tlsSecretName: '',
     annotations: [],
   }),
   service: () => ({
@@ -202,6 +473,53 @@ export const defaultNodeData: Record<K8sNodeType, () => K8sNodeData> = {
     cloudProviderTemplateId: undefined,
     cloudProviderFields: {},
     annotations: [],
+    resources: defaultResources(),
+  }),
+  statefulset: () => ({
+    type: 'statefulset',
+    label: 'StatefulSet',
+    name: 'my-statefulset',
+    serviceName: '',
+    replicas: 3,
+    containerName: 'main',
+    image: 'postgres:16',
+    containerPort: 5432,
+    envVars: [],
+    labels: [{ key: 'app', value: 'my-db' }],
+    podManagementPolicy: 'OrderedReady',
+    updateStrategy: 'RollingUpdate',
+    resources: defaultResources(),
+    volumeClaimTemplates: [
+      { name: 'data', mountPath: '/var/lib/data', storageClassName: 'standard', size: '10Gi', accessModes: ['ReadWriteOnce'] },
+    ],
+  }),
+  daemonset: () => ({
+    type: 'daemonset',
+    label: 'DaemonSet',
+    name: 'my-daemonset',
+    containerName: 'agent',
+    image: 'fluent/fluent-bit:3.0',
+    containerPort: undefined,
+    envVars: [],
+    labels: [{ key: 'app', value: 'my-agent' }],
+    nodeSelector: [],
+    tolerations: [],
+    resources: defaultResources(),
+  }),
+  job: () => ({
+    type: 'job',
+    label: 'Job',
+    name: 'my-job',
+    image: 'busybox:latest',
+    command: ['/bin/sh', '-c'],
+    args: ['echo "Hello from Job"'],
+    envVars: [],
+    completions: 1,
+    parallelism: 1,
+    backoffLimit: 6,
+    ttlSecondsAfterFinished: undefined,
+    restartPolicy: 'Never',
+    resources: defaultResources(),
   }),
   configmap: () => ({
     type: 'configmap',
@@ -240,6 +558,7 @@ export const defaultNodeData: Record<K8sNodeType, () => K8sNodeData> = {
     image: 'busybox:latest',
     command: ['/bin/sh', '-c'],
     args: ['echo "Hello from CronJob"'],
+    resources: defaultResources(),
   }),
   hpa: () => ({
     type: 'hpa',
@@ -256,6 +575,7 @@ export const defaultNodeData: Record<K8sNodeType, () => K8sNodeData> = {
     name: 'my-pod',
     image: 'nginx:latest',
     containerPort: 80,
+    resources: defaultResources(),
   }),
   sidecar: () => ({
     type: 'sidecar',
@@ -269,8 +589,19 @@ export const defaultNodeData: Record<K8sNodeType, () => K8sNodeData> = {
     command: [],
     args: [],
     volumeMounts: [],
+    resources: { cpuRequest: '50m', memoryRequest: '64Mi', cpuLimit: '200m', memoryLimit: '128Mi' },
     cloudProvider: 'none',
     cloudProviderTemplateId: undefined,
     cloudProviderFields: {},
   }),
 };
+
+/**
+ * React Flow node type used to render a given K8s node type.
+ * Namespaces are drawn as resizable group containers; everything else is a card.
+ */
+export function getFlowNodeType(type: K8sNodeType): 'namespaceNode' | 'k8sNode' {
+  return type === 'namespace' ? 'namespaceNode' : 'k8sNode';
+}
+
+export const NAMESPACE_DEFAULT_SIZE = { width: 640, height: 420 };
@@ -0,0 +1,218 @@
+import { Edge, Node } from 'reactflow';
+import { K8sNodeData, K8sNodeType, LayoutDirection, NAMESPACE_DEFAULT_SIZE } from '@/types/k8s';
+import { sortNamespacesFirst } from './namespaces';
+
+/**
+ * Layered ("Sugiyama") layout: nodes are assigned to layers so traffic flows
+ * from Ingresses down to config and storage, each layer is ordered by the
+ * barycenter heuristic to cut edge crossings, and layers are then spaced out.
+ * Every Namespace container is laid out on its own and sized to its
+ * contents; containers and resources outside any namespace sit side by side.
+ */
+
+// Size assumed for a node React Flow hasn't measured yet
+const NODE_WIDTH = 200;
+const NODE_HEIGHT = 110;
+const NODE_GAP = 50;
+const LAYER_GAP = 90;
+const GROUP_GAP = 120;
+const NAMESPACE_PADDING = 40;
+// Room for the container's title above its first layer
+const NAMESPACE_HEADER = 40;
+const ORDERING_SWEEPS = 8;
+
+// Minimum layer of each kind, so unconnected resources still read top to bottom
+const KIND_LAYERS: Record<K8sNodeType, number> = {
+  namespace: 0,
+  ingress: 0,
+  service: 1,
+  hpa: 1,
+  deployment: 2,
+  statefulset: 2,
+  daemonset: 2,
+  job: 2,
+  cronjob: 2,
+  pod: 2,
+  sidecar: 3,
+  configmap: 3,
+  secret: 3,
+  pvc: 3,
+};
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+function nodeSize(node: Node<K8sNodeData>): Size {
+  return { width: node.width ?? NODE_WIDTH, height: node.height ?? NODE_HEIGHT };
+}
+
+/**
+ * Layer per node: at least its kind's layer and one below every node pointing
+ * at it. Edges closing a cycle are skipped.
+ */
+function assignLayers(nodes: Node<K8sNodeData>[], edges: Edge[]): Map<string, number> {
+  const layers = new Map(nodes.map(n => [n.id, KIND_LAYERS[n.data.type]]));
+  const outgoing = new Map<string, string[]>();
+  edges.forEach(e => outgoing.set(e.source, [...(outgoing.get(e.source) || []), e.target]));
+
+  // Depth-first topological order; a target already on the stack closes a cycle
+  const order: string[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  const backEdges = new Set<string>();
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    (outgoing.get(id) || []).forEach(target => {
+      if (state.get(target) === 'visiting') backEdges.add(`${id}>${target}`);
+      else if (!state.has(target)) visit(target);
+    });
+    state.set(id, 'done');
+    order.unshift(id);
+  };
+  nodes.forEach(n => !state.has(n.id) && visit(n.id));
+
+  order.forEach(id => {
+    (outgoing.get(id) || []).forEach(target => {
+      if (backEdges.has(`${id}>${target}`)) return;
+      layers.set(target, Math.max(layers.get(target) ?? 0, (layers.get(id) ?? 0) + 1));
+    });
+  });
+  return layers;
+}
+
+/**
+ * Orders each layer by the average position of its neighbours in the layers
+ * above (downward sweeps) and below (upward sweeps)
+ */
+function orderLayers(rows: string[][], edges: Edge[]): string[][] {
+  const neighbours = new Map<string, string[]>();
+  edges.forEach(e => {
+    neighbours.set(e.source, [...(neighbours.get(e.source) || []), e.target]);
+    neighbours.set(e.target, [...(neighbours.get(e.target) || []), e.source]);
+  });
+  const rowOf = new Map<string, number>();
+  rows.forEach((row, r) => row.forEach(id => rowOf.set(id, r)));
+
+  let ordered = rows.map(row => [...row]);
+  const indexOf = () => {
+    const index = new Map<string, number>();
+    ordered.forEach(row => row.forEach((id, i) => index.set(id, i / Math.max(row.length - 1, 1))));
+    return index;
+  };
+
+  for (let sweep = 0; sweep < ORDERING_SWEEPS; sweep++) {
+    const down = sweep % 2 === 0;
+    const rowIndexes = ordered.map((_, r) => r);
+    if (!down) rowIndexes.reverse();
+    rowIndexes.forEach(r => {
+      const index = indexOf();
+      const barycenter = (id: string) => {
+        const fixed = (neighbours.get(id) || []).filter(n => {
+          const row = rowOf.get(n);
+          return row !== undefined && (down ? row < r : row > r);
+        });
+        if (fixed.length === 0) return index.get(id) ?? 0;
+        return fixed.reduce((sum, n) => sum + (index.get(n) ?? 0), 0) / fixed.length;
+      };
+      const weights = new Map(ordered[r].map(id => [id, barycenter(id)]));
+      // Stable sort keeps the current order between ties
+      ordered = ordered.map((row, i) => (i === r ? [...row].sort((a, b) => (weights.get(a) ?? 0) - (weights.get(b) ?? 0)) : row));
+    });
+  }
+  return ordered;
+}
+
+/**
+ * Lays out one group of nodes from (0, 0); returns each node's position and
+ * the size of the whole group
+ */
+function layoutGroup(nodes: Node<K8sNodeData>[], edges: Edge[], direction: LayoutDirection) {
+  const ids = new Set(nodes.map(n => n.id));
+  const groupEdges = edges.filter(e => ids.has(e.source) && ids.has(e.target) && e.source !== e.target);
+  const layers = assignLayers(nodes, groupEdges);
+
+  const layerCount = Math.max(-1, ...layers.values()) + 1;
+  const rows: string[][] = Array.from({ length: layerCount }, () => []);
+  nodes.forEach(n => rows[layers.get(n.id) ?? 0].push(n.id));
+  const ordered = orderLayers(rows.filter(row => row.length > 0), groupEdges);
+
+  // Uniform cells keep layers aligned; the largest measured node sets the cell
+  const cell = nodes.reduce<Size>((max, n) => {
+    const size = nodeSize(n);
+    return { width: Math.max(max.width, size.width), height: Math.max(max.height, size.height) };
+  }, { width: NODE_WIDTH, height: NODE_HEIGHT });
+  const horizontal = direction === 'LR';
+  // Along a layer, and from one layer to the next
+  const across = horizontal ? cell.height + NODE_GAP : cell.width + NODE_GAP;
+  const along = horizontal ? cell.width + LAYER_GAP : cell.height + LAYER_GAP;
+  const widest = Math.max(0, ...ordered.map(row => row.length));
+
+  const positions = new Map<string, { x: number; y: number }>();
+  ordered.forEach((row, layer) => {
+    // Center shorter layers against the widest one
+    const offset = ((widest - row.length) * across) / 2;
+    row.forEach((id, i) => {
+      const a = offset + i * across;
+      const b = layer * along;
+      positions.set(id, horizontal ? { x: b, y: a } : { x: a, y: b });
+    });
+  });
+
+  const spanAcross = widest * across - NODE_GAP;
+  const spanAlong = ordered.length * along - LAYER_GAP;
+  const size: Size = horizontal
+    ? { width: Math.max(spanAlong, 0), height: Math.max(spanAcross, 0) }
+    : { width: Math.max(spanAcross, 0), height: Math.max(spanAlong, 0) };
+  return { positions, size };
+}
+
+/**
+ * Returns the nodes with new positions (and Namespace containers resized);
+ * edges are left as they are
+ */
+export function layoutDiagram(
+  nodes: Node<K8sNodeData>[],
+  edges: Edge[],
+  direction: LayoutDirection = 'TB'
+): Node<K8sNodeData>[] {
+  const namespaces = nodes.filter(n => n.data.type === 'namespace');
+  const namespaceIds = new Set(namespaces.map(n => n.id));
+  const membersOf = (parentId?: string) => nodes.filter(n => n.data.type !== 'namespace'
+    && (parentId ? n.parentId === parentId : !(n.parentId && namespaceIds.has(n.parentId))));
+
+  const positioned = new Map<string, Node<K8sNodeData>>();
+  // Groups are placed next to each other across the flow direction
+  let cursor = 0;
+  const place = (size: Size) => {
+    const origin = direction === 'LR' ? { x: 0, y: cursor } : { x: cursor, y: 0 };
+    cursor += (direction === 'LR' ? size.height : size.width) + GROUP_GAP;
+    return origin;
+  };
+
+  const topLevel = membersOf();
+  if (topLevel.length > 0) {
+    const { positions, size } = layoutGroup(topLevel, edges, direction);
+    const origin = place(size);
+    topLevel.forEach(n => {
+      const p = positions.get(n.id) ?? { x: 0, y: 0 };
+      positioned.set(n.id, { ...n, position: { x: origin.x + p.x, y: origin.y + p.y } });
+    });
+  }
+
+  namespaces.forEach(namespace => {
+    const members = membersOf(namespace.id);
+    const { positions, size } = layoutGroup(members, edges, direction);
+    // Empty containers keep their current size
+    const width = members.length > 0 ? size.width + NAMESPACE_PADDING * 2 : (namespace.width ?? NAMESPACE_DEFAULT_SIZE.width);
+    const height = members.length > 0 ? size.height + NAMESPACE_PADDING * 2 + NAMESPACE_HEADER : (namespace.height ?? NAMESPACE_DEFAULT_SIZE.height);
+    const origin = place({ width, height });
+    positioned.set(namespace.id, { ...namespace, position: origin, style: { ...namespace.style, width, height } });
+    members.forEach(n => {
+      const p = positions.get(n.id) ?? { x: 0, y: 0 };
+      positioned.set(n.id, { ...n, position: { x: NAMESPACE_PADDING + p.x, y: NAMESPACE_PADDING + NAMESPACE_HEADER + p.y } });
+    });
+  });
+
+  return sortNamespacesFirst(nodes.map(n => positioned.get(n.id) ?? n));
+}
@@ -1,4 +1,5 @@
-import { K8sNodeType } from '@/types/k8s';
+import { K8sNodeData, K8sNodeType } from '@/types/k8s';
+import { getNodeNamespace } from '@/utils/namespaces';
 import { Edge, Node } from 'reactflow';
 
 /**
@@ -20,15 +21,21 @@ export interface ConnectionRule {
  * - Ingress → Service (Ingress routes traffic to Services)
  * - Service → Deployment (Service selects Pods from Deployments)
  * - Service → Pod (Service can directly select standalone Pods)
+ * - Service → StatefulSet (headless Service governs StatefulSet pod identity)
  * - Deployment → ConfigMap (Deployment can mount ConfigMaps)
  * - Deployment → Secret (Deployment can mount Secrets)
  * - Deployment → PVC (Deployment can mount Persistent Volume Claims)
  * - Deployment → Sidecar (Deployment can include sidecar/init containers)
+ * - StatefulSet → ConfigMap/Secret/PVC/Sidecar (same wiring as Deployment)
+ * - Service → DaemonSet (Service selects the node-local agent Pods)
+ * - DaemonSet → ConfigMap/Secret/PVC/Sidecar (same wiring as Deployment)
+ * - Job → ConfigMap/Secret/PVC/Sidecar (same wiring as Deployment)
  * - Pod → ConfigMap (Pod can mount ConfigMaps)
  * - Pod → Secret (Pod can mount Secrets)
  * - Pod → PVC (Pod can mount Persistent Volume Claims)
  * - Pod → Sidecar (Pod can include sidecar/init containers)
  * - HPA → Deployment (HPA scales Deployments)
+ * - HPA → StatefulSet (HPA scales StatefulSets)
  * - CronJob → ConfigMap (CronJob can use ConfigMaps)
  * - CronJob → Secret (CronJob can use Secrets)
  *
@@ -38,6 +45,9 @@ export interface ConnectionRule {
  * - Service → ConfigMap/Secret/PVC (Services don't mount volumes)
  * - ConfigMap/Secret/PVC/Sidecar → anything (These are passive resources)
  * - HPA → Service/Ingress (HPA only scales Deployments/StatefulSets)
+ * - Ingress → Service in another namespace (Ingress backends must live in the Ingress's namespace)
+ *
+ * Namespaces are containers, not endpoints: resources are dragged inside them instead of connected.
  */
 
 const connectionRules: ConnectionRule[] = [
@@ -51,10 +61,16 @@ const connectionRules: ConnectionRule[] = [
   { from: 'ingress', to: 'cronjob', allowed: false, reason: 'Ingress cannot route to CronJobs' },
   { from: 'ingress', to: 'hpa', allowed: false, reason: 'Ingress cannot connect to HPAs' },
   { from: 'ingress', to: 'ingress', allowed: false, reason: 'Ingress cannot connect to another Ingress' },
+  { from: 'ingress', to: 'statefulset', allowed: false, reason: 'Ingress must route to Services, not directly to StatefulSets' },
+  { from: 'ingress', to: 'daemonset', allowed: false, reason: 'Ingress must route to Services, not directly to DaemonSets' },
+  { from: 'ingress', to: 'job', allowed: false, reason: 'Ingress cannot route to Jobs' },
 
   // Service connections
   { from: 'service', to: 'deployment', allowed: true },
   { from: 'service', to: 'pod', allowed: true },
+  { from: 'service', to: 'statefulset', allowed: true },
+  { from: 'service', to: 'daemonset', allowed: true },
+  { from: 'service', to: 'job', allowed: false, reason: 'Services cannot select Jobs' },
   { from: 'service', to: 'ingress', allowed: false, reason: 'Services are selected by Ingress, not the reverse' },
   { from: 'service', to: 'service', allowed: false, reason: 'Services cannot connect to other Services directly' },
   { from: 'service', to: 'configmap', allowed: false, reason: 'Services cannot mount ConfigMaps' },
@@ -74,6 +90,54 @@ const connectionRules: ConnectionRule[] = [
   { from: 'deployment', to: 'pod', allowed: false, reason: 'Deployments manage their own Pods' },
   { from: 'deployment', to: 'cronjob', allowed: false, reason: 'Deployments cannot connect to CronJobs' },
   { from: 'deployment', to: 'hpa', allowed: false, reason: 'HPAs target Deployments, not the reverse' },
+  { from: 'deployment', to: 'statefulset', allowed: false, reason: 'Deployments cannot connect to StatefulSets' },
+  { from: 'deployment', to: 'daemonset', allowed: false, reason: 'Deployments cannot connect to DaemonSets' },
+  { from: 'deployment', to: 'job', allowed: false, reason: 'Deployments cannot connect to Jobs' },
+
+  // StatefulSet connections
+  { from: 'statefulset', to: 'configmap', allowed: true },
+  { from: 'statefulset', to: 'secret', allowed: true },
+  { from: 'statefulset', to: 'pvc', allowed: true },
+  { from: 'statefulset', to: 'sidecar', allowed: true },
+  { from: 'statefulset', to: 'ingress', allowed: false, reason: 'StatefulSets are selected by Services, not Ingress' },
+  { from: 'statefulset', to: 'service', allowed: false, reason: 'StatefulSets are selected by Services, not the reverse' },
+  { from: 'statefulset', to: 'deployment', allowed: false, reason: 'StatefulSets cannot connect to Deployments' },
+  { from: 'statefulset', to: 'statefulset', allowed: false, reason: 'StatefulSets cannot connect to other StatefulSets' },
+  { from: 'statefulset', to: 'pod', allowed: false, reason: 'StatefulSets manage their own Pods' },
+  { from: 'statefulset', to: 'cronjob', allowed: false, reason: 'StatefulSets cannot connect to CronJobs' },
+  { from: 'statefulset', to: 'hpa', allowed: false, reason: 'HPAs target StatefulSets, not the reverse' },
+  { from: 'statefulset', to: 'daemonset', allowed: false, reason: 'StatefulSets cannot connect to DaemonSets' },
+  { from: 'statefulset', to: 'job', allowed: false, reason: 'StatefulSets cannot connect to Jobs' },
+
+  // DaemonSet connections
+  { from: 'daemonset', to: 'configmap', allowed: true },
+  { from: 'daemonset', to: 'secret', allowed: true },
+  { from: 'daemonset', to: 'pvc', allowed: true },
+  { from: 'daemonset', to: 'sidecar', allowed: true },
+  { from: 'daemonset', to: 'ingress', allowed: false, reason: 'DaemonSets are selected by Services, not Ingress' },
+  { from: 'daemonset', to: 'service', allowed: false, reason: 'DaemonSets are selected by Services, not the reverse' },
+  { from: 'daemonset', to: 'deployment', allowed: false, reason: 'DaemonSets cannot connect to Deployments' },
+  { from: 'daemonset', to: 'statefulset', allowed: false, reason: 'DaemonSets cannot connect to StatefulSets' },
+  { from: 'daemonset', to: 'daemonset', allowed: false, reason: 'DaemonSets cannot connect to other DaemonSets' },
+  { from: 'daemonset', to: 'job', allowed: false, reason: 'DaemonSets cannot connect to Jobs' },
+  { from: 'daemonset', to: 'pod', allowed: false, reason: 'DaemonSets manage their own Pods' },
+  { from: 'daemonset', to: 'cronjob', allowed: false, reason: 'DaemonSets cannot connect to CronJobs' },
+  { from: 'daemonset', to: 'hpa', allowed: false, reason: 'DaemonSets run one Pod per node and cannot be autoscaled' },
+
+  // Job connections
+  { from: 'job', to: 'configmap', allowed: true },
+  { from: 'job', to: 'secret', allowed: true },
+  { from: 'job', to: 'pvc', allowed: true },
+  { from: 'job', to: 'sidecar', allowed: true },
+  { from: 'job', to: 'ingress', allowed: false, reason: 'Jobs run to completion, not web services' },
+  { from: 'job', to: 'service', allowed: false, reason: 'Jobs run to completion, not exposed via Services' },
+  { from: 'job', to: 'deployment', allowed: false, reason: 'Jobs cannot connect to Deployments' },
+  { from: 'job', to: 'statefulset', allowed: false, reason: 'Jobs cannot connect to StatefulSets' },
+  { from: 'job', to: 'daemonset', allowed: false, reason: 'Jobs cannot connect to DaemonSets' },
+  { from: 'job', to: 'job', allowed: false, reason: 'Jobs cannot connect to other Jobs' },
+  { from: 'job', to: 'pod', allowed: false, reason: 'Jobs manage their own Pods' },
+  { from: 'job', to: 'cronjob', allowed: false, reason: 'Jobs cannot connect to CronJobs' },
+  { from: 'job', to: 'hpa', allowed: false, reason: 'Jobs cannot be scaled by HPA' },
 
   // Pod connections (standalone pods)
   { from: 'pod', to: 'configmap', allowed: true },
@@ -86,6 +150,9 @@ const connectionRules: ConnectionRule[] = [
   { from: 'pod', to: 'pod', allowed: false, reason: 'Pods cannot connect to other Pods directly' },
   { from: 'pod', to: 'cronjob', allowed: false, reason: 'Pods cannot connect to CronJobs' },
   { from: 'pod', to: 'hpa', allowed: false, reason: 'Pods cannot connect to HPAs' },
+  { from: 'pod', to: 'statefulset', allowed: false, reason: 'Standalone Pods cannot connect to StatefulSets' },
+  { from: 'pod', to: 'daemonset', allowed: false, reason: 'Standalone Pods cannot connect to DaemonSets' },
+  { from: 'pod', to: 'job', allowed: false, reason: 'Standalone Pods cannot connect to Jobs' },
 
   // ConfigMap connections (passive resource - cannot initiate connections)
   { from: 'configmap', to: 'ingress', allowed: false, reason: 'ConfigMaps are passive resources' },
@@ -97,6 +164,9 @@ const connectionRules: ConnectionRule[] = [
   { from: 'configmap', to: 'pvc', allowed: false, reason: 'ConfigMaps are passive resources' },
   { from: 'configmap', to: 'cronjob', allowed: false, reason: 'ConfigMaps are passive resources' },
   { from: 'configmap', to: 'hpa', allowed: false, reason: 'ConfigMaps are passive resources' },
+  { from: 'configmap', to: 'statefulset', allowed: false, reason: 'ConfigMaps are passive resources' },
+  { from: 'configmap', to: 'daemonset', allowed: false, reason: 'ConfigMaps are passive resources' },
+  { from: 'configmap', to: 'job', allowed: false, reason: 'ConfigMaps are passive resources' },
 
   // Secret connections (passive resource - cannot initiate connections)
   { from: 'secret', to: 'ingress', allowed: false, reason: 'Secrets are passive resources' },
@@ -108,6 +178,9 @@ const connectionRules: ConnectionRule[] = [
   { from: 'secret', to: 'pvc', allowed: false, reason: 'Secrets are passive resources' },
   { from: 'secret', to: 'cronjob', allowed: false, reason: 'Secrets are passive resources' },
   { from: 'secret', to: 'hpa', allowed: false, reason: 'Secrets are passive resources' },
+  { from: 'secret', to: 'statefulset', allowed: false, reason: 'Secrets are passive resources' },
+  { from: 'secret', to: 'daemonset', allowed: false, reason: 'Secrets are passive resources' },
+  { from: 'secret', to: 'job', allowed: false, reason: 'Secrets are passive resources' },
 
   // PVC connections (passive resource - cannot initiate connections)
   { from: 'pvc', to: 'ingress', allowed: false, reason: 'PVCs are passive resources' },
@@ -119,6 +192,9 @@ const connectionRules: ConnectionRule[] = [
   { from: 'pvc', to: 'pvc', allowed: false, reason: 'PVCs are passive resources' },
   { from: 'pvc', to: 'cronjob', allowed: false, reason: 'PVCs are passive resources' },
   { from: 'pvc', to: 'hpa', allowed: false, reason: 'PVCs are passive resources' },
+  { from: 'pvc', to: 'statefulset', allowed: false, reason: 'PVCs are passive resources' },
+  { from: 'pvc', to: 'daemonset', allowed: false, reason: 'PVCs are passive resources' },
+  { from: 'pvc', to: 'job', allowed: false, reason: 'PVCs are passive resources' },
 
   // CronJob connections
   { from: 'cronjob', to: 'configmap', allowed: true },
@@ -130,9 +206,15 @@ const connectionRules: ConnectionRule[] = [
   { from: 'cronjob', to: 'pod', allowed: false, reason: 'CronJobs manage their own Pods' },
   { from: 'cronjob', to: 'cronjob', allowed: false, reason: 'CronJobs cannot connect to other CronJobs' },
   { from: 'cronjob', to: 'hpa', allowed: false, reason: 'CronJobs cannot be scaled by HPA' },
+  { from: 'cronjob', to: 'statefulset', allowed: false, reason: 'CronJobs cannot connect to StatefulSets' },
+  { from: 'cronjob', to: 'daemonset', allowed: false, reason: 'CronJobs cannot connect to DaemonSets' },
+  { from: 'cronjob', to: 'job', allowed: false, reason: 'CronJobs create their own Jobs' },
 
   // HPA connections
   { from: 'hpa', to: 'deployment', allowed: true },
+  { from: 'hpa', to: 'statefulset', allowed: true },
+  { from: 'hpa', to: 'daemonset', allowed: false, reason: 'DaemonSets run one Pod per node and cannot be autoscaled' },
+  { from: 'hpa', to: 'job', allowed: false, reason: 'HPA cannot scale Jobs' },
   { from: 'hpa', to: 'ingress', allowed: false, reason: 'HPA scales workloads, not Ingress' },
   { from: 'hpa', to: 'service', allowed: false, reason: 'HPA scales workloads, not Services' },
   { from: 'hpa', to: 'pod', allowed: false, reason: 'HPA scales Deployments/StatefulSets, not standalone Pods' },
@@ -154,16 +236,26 @@ const connectionRules: ConnectionRule[] = [
   { from: 'sidecar', to: 'cronjob', allowed: false, reason: 'Sidecars are passive containers injected into pods' },
   { from: 'sidecar', to: 'hpa', allowed: false, reason: 'Sidecars are passive containers injected into pods' },
   { from: 'sidecar', to: 'sidecar', allowed: false, reason: 'Sidecars cannot connect to other sidecars' },
+  { from: 'sidecar', to: 'statefulset', allowed: false, reason: 'Sidecars are passive containers injected into pods' },
+  { from: 'sidecar', to: 'daemonset', allowed: false, reason: 'Sidecars are passive containers injected into pods' },
+  { from: 'sidecar', to: 'job', allowed: false, reason: 'Sidecars are passive containers injected into pods' },
 
-  // Update other resources to disallow connections TO sidecar (except Deployment and Pod)
-  { from: 'ingress', to: 'sidecar', allowed: false, reason: 'Sidecars are attached to Deployments and Pods only' },
-  { from: 'service', to: 'sidecar', allowed: false, reason: 'Sidecars are attached to Deployments and Pods only' },
-  { from: 'configmap', to: 'sidecar', allowed: false, reason: 'Sidecars are attached to Deployments and Pods only' },
-  { from: 'secret', to: 'sidecar', allowed: false, reason: 'Sidecars are attached to Deployments and Pods only' },
-  { from: 'pvc', to: 'sidecar', allowed: false, reason: 'Sidecars are attached to Deployments and Pods only' },
-  { from: 'cronjob', to: 'sidecar', allowed: false, reason: 'Sidecars are attached to Deployments and Pods only' },
+  // Update other resources to disallow connections TO sidecar (except workloads)
+  { from: 'ingress', to: 'sidecar', allowed: false, reason: 'Sidecars are attached to workloads only' },
+  { from: 'service', to: 'sidecar', allowed: false, reason: 'Sidecars are attached to workloads only' },
+  { from: 'configmap', to: 'sidecar', allowed: false, reason: 'Sidecars are attached to workloads only' },
+  { from: 'secret', to: 'sidecar', allowed: false, reason: 'Sidecars are attached to workloads only' },
+  { from: 'pvc', to: 'sidecar', allowed: false, reason: 'Sidecars are attached to workloads only' },
+  { from: 'cronjob', to: 'sidecar', allowed: false, reason: 'Sidecars are attached to workloads only' },
 ];
 
+const NAMESPACE_CONNECTION_REASON = 'Namespaces group resources; drag resources inside instead';
+export const CROSS_NAMESPACE_INGRESS_REASON = 'Ingress can only route to Services in its own namespace';
+
+function isCrossNamespace(sourceNode: Node, targetNode: Node, nodes: Node<K8sNodeData>[]): boolean {
+  return getNodeNamespace(sourceNode, nodes) !== getNodeNamespace(targetNode, nodes);
+}
+
 /**
  * Validates if a connection between two node types is allowed
  */
@@ -182,7 +274,8 @@ export function isConnectionAllowed(sourceType: K8sNodeType, targetType: K8sNode
  */
 export function validateConnection(
   sourceNode: Node | undefined,
-  targetNode: Node | undefined
+  targetNode: Node | undefined,
+  nodes: Node<K8sNodeData>[] = []
 ): { valid: boolean; message?: string } {
   if (!sourceNode || !targetNode) {
     return { valid: false, message: 'Invalid nodes' };
@@ -195,6 +288,14 @@ export function validateConnection(
     return { valid: false, message: 'Invalid node types' };
   }
 
+  if (sourceType === 'namespace' || targetType === 'namespace') {
+    return { valid: false, message: NAMESPACE_CONNECTION_REASON };
+  }
+
+  if (sourceType === 'ingress' && targetType === 'service' && isCrossNamespace(sourceNode, targetNode, nodes)) {
+    return { valid: false, message: CROSS_NAMESPACE_INGRESS_REASON };
+  }
+
   const validation = isConnectionAllowed(sourceType, targetType);
 
   return {
@@ -233,3 +334,16 @@ export function hasExistingConnection(
     edge => edge.source === sourceId && edge.target === targetId
   );
 }
+
+/**
+ * Finds Ingress → Service edges that cross a namespace boundary, which Kubernetes rejects
+ */
+export function findCrossNamespaceIngressEdges(nodes: Node<K8sNodeData>[], edges: Edge[]): Edge[] {
+  return edges.filter(edge => {
+    const source = nodes.find(n => n.id === edge.source);
+    const target = nodes.find(n => n.id === edge.target);
+    return source?.data.type === 'ingress'
+      && target?.data.type === 'service'
+      && isCrossNamespace(source, target, nodes);
+  });
+}
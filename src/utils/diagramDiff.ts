@@ -0,0 +1,153 @@
+import { Edge, Node } from 'reactflow';
+import { K8sNodeData } from '@/types/k8s';
+import { DiagramState } from './diagramHistory';
+import { isDeepEqual, manifestKey, orderedManifests } from './manifests';
+import { sortNamespacesFirst } from './namespaces';
+import { generateManifestsFromGraph, manifestToYaml } from './yamlGenerator';
+
+/**
+ * Differences between two revisions of a diagram (snapshots or the live
+ * canvas). Nodes are matched by id, which survives saves, YAML edits and
+ * restores; resources are matched by kind, name and namespace so the YAML
+ * diff also lines up when an import recreated the nodes.
+ */
+
+export type DiffChange = 'added' | 'removed' | 'changed';
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export interface ResourceDiff {
+  key: string;
+  kind: string;
+  name: string;
+  namespace?: string;
+  change: DiffChange;
+  lines: DiffLine[];
+}
+
+export interface DiagramDiff {
+  nodes: Record<string, DiffChange>;
+  edges: Record<string, Exclude<DiffChange, 'changed'>>;
+  resources: ResourceDiff[];
+}
+
+/**
+ * Line diff via longest common subsequence; manifests are short enough that
+ * the quadratic table is not a concern
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+  const common: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (common[i + 1][j] >= common[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  a.slice(i).forEach(text => lines.push({ type: 'removed', text }));
+  b.slice(j).forEach(text => lines.push({ type: 'added', text }));
+  return lines;
+}
+
+function isNodeChanged(before: Node<K8sNodeData>, after: Node<K8sNodeData>): boolean {
+  // Moving a node around isn't a change worth highlighting; leaving its namespace is
+  return before.parentId !== after.parentId || !isDeepEqual(before.data, after.data);
+}
+
+/**
+ * Per-resource YAML diff of the manifests both revisions generate, in apply order
+ */
+function diffResources(before: DiagramState, after: DiagramState): ResourceDiff[] {
+  const yamlByKey = (state: DiagramState) => new Map(
+    orderedManifests(generateManifestsFromGraph(state.nodes, state.edges, state.settings))
+      .map(manifest => [manifestKey(manifest), { manifest, yaml: manifestToYaml(manifest) }])
+  );
+  const previous = yamlByKey(before);
+  const next = yamlByKey(after);
+  const keys = [...next.keys(), ...[...previous.keys()].filter(key => !next.has(key))];
+
+  return keys.flatMap<ResourceDiff>(key => {
+    const old = previous.get(key);
+    const current = next.get(key);
+    const entry = current ?? old;
+    if (!entry || (old && current && old.yaml === current.yaml)) return [];
+    const { kind, metadata } = entry.manifest;
+    return [{
+      key,
+      kind,
+      name: metadata.name,
+      namespace: metadata.namespace,
+      change: !old ? 'added' : !current ? 'removed' : 'changed',
+      lines: diffLines(old?.yaml ?? '', current?.yaml ?? ''),
+    }];
+  });
+}
+
+export function diffDiagrams(before: DiagramState, after: DiagramState): DiagramDiff {
+  const diff: DiagramDiff = { nodes: {}, edges: {}, resources: diffResources(before, after) };
+
+  const previousNodes = new Map(before.nodes.map(n => [n.id, n]));
+  const nextIds = new Set(after.nodes.map(n => n.id));
+  after.nodes.forEach(node => {
+    const previous = previousNodes.get(node.id);
+    if (!previous) diff.nodes[node.id] = 'added';
+    else if (isNodeChanged(previous, node)) diff.nodes[node.id] = 'changed';
+  });
+  before.nodes.forEach(node => {
+    if (!nextIds.has(node.id)) diff.nodes[node.id] = 'removed';
+  });
+
+  const previousEdges = new Set(before.edges.map(e => e.id));
+  const nextEdges = new Set(after.edges.map(e => e.id));
+  after.edges.forEach(edge => {
+    if (!previousEdges.has(edge.id)) diff.edges[edge.id] = 'added';
+  });
+  before.edges.forEach(edge => {
+    if (!nextEdges.has(edge.id)) diff.edges[edge.id] = 'removed';
+  });
+
+  return diff;
+}
+
+/**
+ * The newer revision with removed nodes and edges put back as ghosts and
+ * every element tagged with a diff-* class for the canvas to highlight
+ */
+export function buildDiffGraph(before: DiagramState, after: DiagramState, diff: DiagramDiff): { nodes: Node<K8sNodeData>[]; edges: Edge[] } {
+  const nextIds = new Set(after.nodes.map(n => n.id));
+  const nextEdgeIds = new Set(after.edges.map(e => e.id));
+  const mark = <T extends Node | Edge>(element: T, change: DiffChange | undefined): T => ({
+    ...element,
+    className: change ? `diff-${change}` : undefined,
+    selected: false,
+  });
+
+  const nodes = [
+    ...after.nodes,
+    ...before.nodes.filter(n => !nextIds.has(n.id)),
+  ].map(node => mark(node, diff.nodes[node.id]));
+  const edges = [
+    ...after.edges,
+    ...before.edges.filter(e => !nextEdgeIds.has(e.id)),
+  ].map(edge => mark(edge, diff.edges[edge.id]));
+
+  return { nodes: sortNamespacesFirst(nodes), edges };
+}
@@ -0,0 +1,230 @@
+import { Edge, Node } from 'reactflow';
+import { K8sNodeData, NamespaceNodeData } from '@/types/k8s';
+import { getResourceName } from './diagramLint';
+
+/**
+ * Picture exports of the diagram: Mermaid and Graphviz sources for READMEs
+ * and ADRs, and a standalone SVG (optionally rasterized to PNG) drawn from
+ * the nodes' measured positions.
+ */
+
+// Fallback size of a node React Flow hasn't measured yet
+const DEFAULT_NODE_WIDTH = 180;
+const DEFAULT_NODE_HEIGHT = 80;
+const PADDING = 40;
+const FONT_FAMILY = 'Inter, system-ui, sans-serif';
+
+function sourceId(id: string): string {
+  return id.replace(/[^A-Za-z0-9_]/g, '_');
+}
+
+function describeNode(data: K8sNodeData): string[] {
+  const name = getResourceName(data);
+  return name && name !== data.label ? [data.label, name] : [data.label];
+}
+
+function childrenOf(nodes: Node<K8sNodeData>[]) {
+  const namespaceIds = new Set(nodes.filter(n => n.data.type === 'namespace').map(n => n.id));
+  const topLevel = nodes.filter(n => n.data.type !== 'namespace' && !(n.parentId && namespaceIds.has(n.parentId)));
+  const byNamespace = new Map<string, Node<K8sNodeData>[]>();
+  nodes.forEach(n => {
+    if (n.data.type !== 'namespace' && n.parentId && namespaceIds.has(n.parentId)) {
+      byNamespace.set(n.parentId, [...(byNamespace.get(n.parentId) || []), n]);
+    }
+  });
+  return { namespaces: nodes.filter(n => n.data.type === 'namespace'), topLevel, byNamespace };
+}
+
+/**
+ * Mermaid flowchart; namespaces become subgraphs
+ */
+export function toMermaid(nodes: Node<K8sNodeData>[], edges: Edge[]): string {
+  const label = (lines: string[]) => `"${lines.join('<br/>').replace(/"/g, '#quot;')}"`;
+  const nodeLine = (node: Node<K8sNodeData>, indent: string) => `${indent}${sourceId(node.id)}[${label(describeNode(node.data))}]`;
+  const { namespaces, topLevel, byNamespace } = childrenOf(nodes);
+
+  const lines = ['flowchart TB'];
+  namespaces.forEach(ns => {
+    lines.push(`  subgraph ${sourceId(ns.id)}[${label([`ns/${(ns.data as NamespaceNodeData).name}`])}]`);
+    (byNamespace.get(ns.id) || []).forEach(child => lines.push(nodeLine(child, '    ')));
+    lines.push('  end');
+  });
+  topLevel.forEach(node => lines.push(nodeLine(node, '  ')));
+  edges.forEach(edge => lines.push(`  ${sourceId(edge.source)} --> ${sourceId(edge.target)}`));
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Graphviz DOT; namespaces become clusters
+ */
+export function toDot(nodes: Node<K8sNodeData>[], edges: Edge[], name = 'diagram'): string {
+  const quote = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  const nodeLine = (node: Node<K8sNodeData>, indent: string) =>
+    `${indent}${sourceId(node.id)} [label=${quote(describeNode(node.data).join('\n')).replace(/\n/g, '\\n')}];`;
+  const { namespaces, topLevel, byNamespace } = childrenOf(nodes);
+
+  const lines = [
+    `digraph ${quote(name)} {`,
+    '  rankdir=TB;',
+    `  node [shape=box, style=rounded, fontname=${quote('Inter')}];`,
+  ];
+  namespaces.forEach(ns => {
+    lines.push(`  subgraph cluster_${sourceId(ns.id)} {`);
+    lines.push(`    label=${quote(`ns/${(ns.data as NamespaceNodeData).name}`)};`);
+    lines.push('    style=dashed;');
+    (byNamespace.get(ns.id) || []).forEach(child => lines.push(nodeLine(child, '    ')));
+    lines.push('  }');
+  });
+  topLevel.forEach(node => lines.push(nodeLine(node, '  ')));
+  edges.forEach(edge => lines.push(`  ${sourceId(edge.source)} -> ${sourceId(edge.target)};`));
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Colors of the canvas, resolved from the theme's CSS variables
+ */
+export interface SvgTheme {
+  background: string;
+  card: string;
+  border: string;
+  foreground: string;
+  mutedForeground: string;
+}
+
+/**
+ * How one node is drawn: its type color, icon markup (an <svg> element) and
+ * the detail lines under its title
+ */
+export interface SvgNodeAppearance {
+  color: string;
+  icon: string;
+  lines: string[];
+}
+
+export interface DiagramSvg {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// Text in SVG doesn't wrap or clip, so long lines are cut to roughly fit the node
+function fitText(text: string, width: number, charWidth: number): string {
+  const max = Math.max(4, Math.floor(width / charWidth));
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+/**
+ * Draws the diagram as a standalone SVG. Expects nodes as React Flow reports
+ * them (with positionAbsolute, width and height), namespaces first.
+ */
+export function buildDiagramSvg(
+  nodes: Node<K8sNodeData>[],
+  edges: Edge[],
+  theme: SvgTheme,
+  appearance: (node: Node<K8sNodeData>) => SvgNodeAppearance
+): DiagramSvg {
+  const boxOf = (node: Node<K8sNodeData>) => {
+    const origin = node.positionAbsolute || node.position;
+    return {
+      x: origin.x,
+      y: origin.y,
+      width: node.width ?? DEFAULT_NODE_WIDTH,
+      height: node.height ?? DEFAULT_NODE_HEIGHT,
+    };
+  };
+  const boxes = new Map(nodes.map(node => [node.id, boxOf(node)]));
+  const all = nodes.length > 0 ? [...boxes.values()] : [{ x: 0, y: 0, width: 0, height: 0 }];
+  const minX = Math.min(...all.map(b => b.x)) - PADDING;
+  const minY = Math.min(...all.map(b => b.y)) - PADDING;
+  const width = Math.max(...all.map(b => b.x + b.width)) - minX + PADDING;
+  const height = Math.max(...all.map(b => b.y + b.height)) - minY + PADDING;
+
+  const parts: string[] = [];
+  const icon = (markup: string, x: number, y: number) => `<g transform="translate(${x} ${y})">${markup}</g>`;
+
+  nodes.filter(n => n.data.type === 'namespace').forEach(node => {
+    const box = boxOf(node);
+    const { color, icon: iconMarkup } = appearance(node);
+    const x = box.x - minX;
+    const y = box.y - minY;
+    const name = (node.data as NamespaceNodeData).name;
+    parts.push(
+      `<rect x="${x}" y="${y}" width="${box.width}" height="${box.height}" rx="12" fill="${color}" fill-opacity="0.05" stroke="${color}" stroke-width="2" stroke-dasharray="6 4"/>`,
+      icon(iconMarkup, x + 12, y + 10),
+      `<text x="${x + 36}" y="${y + 23}" font-size="14" font-weight="600" fill="${theme.foreground}">${escapeXml(node.data.label)}` +
+        `<tspan dx="8" font-size="12" font-weight="400" font-family="monospace" fill="${theme.mutedForeground}">ns/${escapeXml(name)}</tspan></text>`
+    );
+  });
+
+  edges.forEach(edge => {
+    const source = boxes.get(edge.source);
+    const target = boxes.get(edge.target);
+    if (!source || !target) return;
+    // Edges leave from the bottom handle and enter at the top one, as on the canvas
+    const sx = source.x + source.width / 2 - minX;
+    const sy = source.y + source.height - minY;
+    const tx = target.x + target.width / 2 - minX;
+    const ty = target.y - minY;
+    const bend = Math.max(Math.abs(ty - sy) / 2, 25);
+    parts.push(`<path d="M ${sx} ${sy} C ${sx} ${sy + bend} ${tx} ${ty - bend} ${tx} ${ty}" fill="none" stroke="${theme.mutedForeground}" stroke-width="2"/>`);
+  });
+
+  nodes.filter(n => n.data.type !== 'namespace').forEach(node => {
+    const box = boxOf(node);
+    const { color, icon: iconMarkup, lines } = appearance(node);
+    const x = box.x - minX;
+    const y = box.y - minY;
+    parts.push(
+      `<rect x="${x}" y="${y}" width="${box.width}" height="${box.height}" rx="8" fill="${theme.card}" stroke="${color}" stroke-width="2"/>`,
+      icon(iconMarkup, x + 12, y + 10),
+      `<text x="${x + 40}" y="${y + 25}" font-size="14" font-weight="500" fill="${theme.foreground}">${escapeXml(fitText(node.data.label, box.width - 52, 8))}</text>`,
+      `<line x1="${x}" y1="${y + 40}" x2="${x + box.width}" y2="${y + 40}" stroke="${theme.border}"/>`,
+      ...lines.map((line, i) => (
+        `<text x="${x + 12}" y="${y + 58 + i * 16}" font-size="12" fill="${theme.mutedForeground}">${escapeXml(fitText(line, box.width - 24, 7))}</text>`
+      ))
+    );
+  });
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${Math.ceil(width)}" height="${Math.ceil(height)}" viewBox="0 0 ${Math.ceil(width)} ${Math.ceil(height)}" font-family="${FONT_FAMILY}">`,
+    `<rect width="100%" height="100%" fill="${theme.background}"/>`,
+    ...parts,
+    '</svg>',
+  ].join('\n');
+  return { svg, width: Math.ceil(width), height: Math.ceil(height) };
+}
+
+/**
+ * Rasterizes an SVG in the browser; scale 2 keeps text sharp on high-DPI screens
+ */
+export function svgToPng({ svg, width, height }: DiagramSvg, scale = 2): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width * scale;
+      canvas.height = height * scale;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        URL.revokeObjectURL(url);
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0, width, height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('The diagram image could not be rendered'));
+    };
+    image.src = url;
+  });
+}
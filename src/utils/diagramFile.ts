@@ -0,0 +1,219 @@
+import { z } from 'zod';
+import { Edge, Node, Viewport } from 'reactflow';
+import { DiagramSettings, K8sNodeData, K8sNodeType, defaultDiagramSettings, defaultNodeData } from '@/types/k8s';
+import { upgradeIngressNodes } from './ingressRouting';
+
+/**
+ * The .k8sdiagram.json project file: a whole diagram as stable, pretty-printed
+ * JSON meant to be committed next to the code it describes. Every file states
+ * its version; older files are upgraded step by step through `migrations`
+ * before being validated against the current schema.
+ */
+
+export const DIAGRAM_FILE_EXTENSION = '.k8sdiagram.json';
+export const DIAGRAM_FILE_FORMAT = 'k8s-diagram-builder';
+export const DIAGRAM_FILE_VERSION = 3;
+
+export interface DiagramFile {
+  format: typeof DIAGRAM_FILE_FORMAT;
+  version: typeof DIAGRAM_FILE_VERSION;
+  name: string;
+  nodes: Node<K8sNodeData>[];
+  edges: Edge[];
+  settings: DiagramSettings;
+  viewport?: Viewport;
+}
+
+type RawDiagramFile = Record<string, unknown>;
+
+/**
+ * migrations[n] turns a version n file into a version n + 1 file. When the
+ * node model changes incompatibly, bump DIAGRAM_FILE_VERSION and add a step.
+ */
+const migrations: Record<number, (file: RawDiagramFile) => RawDiagramFile> = {
+  // Version 1 is the unversioned { nodes, edges, settings?, lastSaved } state
+  // the app used to keep in localStorage
+  1: ({ nodes, edges, settings }) => ({
+    format: DIAGRAM_FILE_FORMAT,
+    version: 2,
+    name: 'My diagram',
+    nodes,
+    edges,
+    settings: settings ?? {},
+  }),
+  // Ingress nodes went from one host and a flat path list to rules and TLS blocks
+  2: (file) => ({
+    ...file,
+    version: 3,
+    nodes: Array.isArray(file.nodes) && Array.isArray(file.edges)
+      ? upgradeIngressNodes(file.nodes as Node<K8sNodeData>[], file.edges as Edge[])
+      : file.nodes,
+  }),
+};
+
+const NODE_TYPES = Object.keys(defaultNodeData) as [K8sNodeType, ...K8sNodeType[]];
+
+const nodeSchema = z.object({
+  id: z.string().min(1),
+  type: z.string().optional(),
+  position: z.object({ x: z.number(), y: z.number() }),
+  parentId: z.string().optional(),
+  data: z.object({
+    type: z.enum(NODE_TYPES),
+    label: z.string(),
+  }).passthrough(),
+}).passthrough();
+
+const edgeSchema = z.object({
+  id: z.string().min(1),
+  source: z.string().min(1),
+  target: z.string().min(1),
+  sourceHandle: z.string().nullish(),
+  targetHandle: z.string().nullish(),
+}).passthrough();
+
+// Settings missing from a file fall back to their defaults
+const settingsSchema = z.object({
+  networkPolicies: z.boolean(),
+  ingressControllerNamespace: z.string(),
+  environments: z.object({
+    names: z.array(z.string()),
+    overrides: z.record(z.record(z.string())),
+  }),
+  lintRules: z.record(z.object({
+    enabled: z.boolean(),
+    severity: z.enum(['error', 'warning', 'info']),
+  })),
+  kubernetesVersion: z.string(),
+  layoutDirection: z.enum(['TB', 'LR']),
+}).partial();
+
+const diagramFileSchema = z.object({
+  format: z.literal(DIAGRAM_FILE_FORMAT),
+  version: z.literal(DIAGRAM_FILE_VERSION),
+  name: z.string(),
+  nodes: z.array(nodeSchema),
+  edges: z.array(edgeSchema),
+  settings: settingsSchema,
+  viewport: z.object({ x: z.number(), y: z.number(), zoom: z.number() }).optional(),
+}).superRefine((file, ctx) => {
+  const ids = new Set(file.nodes.map(n => n.id));
+  file.nodes.forEach((node, i) => {
+    if (node.parentId && !ids.has(node.parentId)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['nodes', i, 'parentId'], message: `Unknown parent node ${node.parentId}` });
+    }
+  });
+  file.edges.forEach((edge, i) => {
+    [edge.source, edge.target].forEach((id, end) => {
+      if (!ids.has(id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['edges', i, end === 0 ? 'source' : 'target'], message: `Unknown node ${id}` });
+      }
+    });
+  });
+});
+
+function getFileVersion(file: RawDiagramFile): number {
+  if (typeof file.version === 'number') return file.version;
+  // Only the unversioned localStorage state has no version
+  return Array.isArray(file.nodes) ? 1 : NaN;
+}
+
+/**
+ * Upgrades parsed JSON of any known version to the current version. Throws
+ * for files from a newer release of the app or that aren't diagrams at all.
+ */
+export function migrateDiagramFile(raw: unknown): RawDiagramFile {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Not a diagram file');
+  }
+  let file = raw as RawDiagramFile;
+  let version = getFileVersion(file);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error('Not a diagram file: missing version');
+  }
+  if (version > DIAGRAM_FILE_VERSION) {
+    throw new Error(`The diagram file is version ${version}, but this app reads up to version ${DIAGRAM_FILE_VERSION}. Update the app to open it.`);
+  }
+  while (version < DIAGRAM_FILE_VERSION) {
+    file = migrations[version](file);
+    version++;
+  }
+  return file;
+}
+
+/**
+ * Reads a diagram from parsed JSON: migrates it, validates it and fills in
+ * default settings. Validation errors name the offending path.
+ */
+export function readDiagramFile(raw: unknown): DiagramFile {
+  const result = diagramFileSchema.safeParse(migrateDiagramFile(raw));
+  if (!result.success) {
+    const issues = result.error.issues.slice(0, 3).map(issue => `${issue.path.join('.') || 'file'}: ${issue.message}`);
+    const more = result.error.issues.length - issues.length;
+    throw new Error(`Invalid diagram file. ${issues.join('; ')}${more > 0 ? ` (and ${more} more)` : ''}`);
+  }
+  const { name, nodes, edges, settings, viewport } = result.data;
+  return {
+    format: DIAGRAM_FILE_FORMAT,
+    version: DIAGRAM_FILE_VERSION,
+    name,
+    nodes: nodes as unknown as Node<K8sNodeData>[],
+    edges: edges as Edge[],
+    settings: { ...defaultDiagramSettings, ...settings } as DiagramSettings,
+    viewport: viewport as Viewport | undefined,
+  };
+}
+
+/**
+ * Whether JSON text holds a diagram rather than Kubernetes objects, such as
+ * `kubectl get -o json` output
+ */
+export function isDiagramFileJson(text: string): boolean {
+  try {
+    const raw = JSON.parse(text);
+    return !!raw && typeof raw === 'object' && !Array.isArray(raw) && !('kind' in raw && 'apiVersion' in raw);
+  } catch (error) {
+    return false;
+  }
+}
+
+export function parseDiagramFile(text: string): DiagramFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Not a diagram file: ${error instanceof Error ? error.message : 'invalid JSON'}`);
+  }
+  return readDiagramFile(raw);
+}
+
+/**
+ * Serializes a diagram, leaving out React Flow's runtime fields (selection,
+ * measured size) so the file only changes when the diagram does
+ */
+export function serializeDiagramFile(
+  name: string,
+  contents: { nodes: Node<K8sNodeData>[]; edges: Edge[]; settings: DiagramSettings; viewport?: Viewport }
+): string {
+  const file: DiagramFile = {
+    format: DIAGRAM_FILE_FORMAT,
+    version: DIAGRAM_FILE_VERSION,
+    name,
+    nodes: contents.nodes.map(({ id, type, position, parentId, style, data }) => ({ id, type, position, parentId, style, data })),
+    edges: contents.edges.map(({ id, source, target, sourceHandle, targetHandle, type, animated, data }) => (
+      { id, source, target, sourceHandle, targetHandle, type, animated, data }
+    )),
+    settings: contents.settings,
+    viewport: contents.viewport,
+  };
+  return `${JSON.stringify(file, null, 2)}\n`;
+}
+
+// File-name friendly form of a project name, shared by all exports
+export function fileSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'diagram';
+}
+
+export function diagramFileName(name: string): string {
+  return `${fileSlug(name)}${DIAGRAM_FILE_EXTENSION}`;
+}
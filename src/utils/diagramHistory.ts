@@ -0,0 +1,148 @@
+import { Edge, Node, XYPosition } from 'reactflow';
+import { DiagramSettings, K8sNodeData } from '@/types/k8s';
+import { sortNamespacesFirst } from './namespaces';
+
+/**
+ * Commands behind undo/redo. Each command knows how to apply and revert one
+ * change to the diagram as a pure function of the current state, so undoing
+ * a move doesn't also revert an unrelated edit made since.
+ */
+
+export interface DiagramState {
+  nodes: Node<K8sNodeData>[];
+  edges: Edge[];
+  settings: DiagramSettings;
+}
+
+export interface DiagramCommand {
+  // Shown in the undo/redo button titles, e.g. "Undo Move node"
+  label: string;
+  // Consecutive commands with the same key are merged into one undo step
+  coalesceKey?: string;
+  redo: (state: DiagramState) => DiagramState;
+  undo: (state: DiagramState) => DiagramState;
+}
+
+export interface NodeMove {
+  id: string;
+  from: { position: XYPosition; parentId?: string };
+  to: { position: XYPosition; parentId?: string };
+}
+
+/**
+ * Chains two commands into one step: applied in order, reverted in reverse
+ */
+export function mergeCommands(first: DiagramCommand, second: DiagramCommand): DiagramCommand {
+  return {
+    label: second.label,
+    coalesceKey: second.coalesceKey,
+    redo: (state) => second.redo(first.redo(state)),
+    undo: (state) => first.undo(second.undo(state)),
+  };
+}
+
+function withoutNodes(state: DiagramState, ids: Set<string>): DiagramState {
+  return {
+    ...state,
+    nodes: state.nodes.filter(n => !ids.has(n.id)),
+    edges: state.edges.filter(e => !ids.has(e.source) && !ids.has(e.target)),
+  };
+}
+
+function withNodes(state: DiagramState, nodes: Node<K8sNodeData>[]): DiagramState {
+  const ids = new Set(nodes.map(n => n.id));
+  return { ...state, nodes: sortNamespacesFirst([...state.nodes.filter(n => !ids.has(n.id)), ...nodes]) };
+}
+
+function withEdges(state: DiagramState, edges: Edge[]): DiagramState {
+  const ids = new Set(edges.map(e => e.id));
+  return { ...state, edges: [...state.edges.filter(e => !ids.has(e.id)), ...edges] };
+}
+
+export function addNodesCommand(nodes: Node<K8sNodeData>[]): DiagramCommand {
+  const ids = new Set(nodes.map(n => n.id));
+  return {
+    label: nodes.length === 1 ? `Add ${nodes[0].data.label}` : `Add ${nodes.length} nodes`,
+    redo: (state) => withNodes(state, nodes),
+    undo: (state) => withoutNodes(state, ids),
+  };
+}
+
+/**
+ * Removal of nodes and edges; undo brings back the edges removed along with their nodes
+ */
+export function removeElementsCommand(nodes: Node<K8sNodeData>[], edges: Edge[]): DiagramCommand {
+  const nodeIds = new Set(nodes.map(n => n.id));
+  const edgeIds = new Set(edges.map(e => e.id));
+  const count = nodes.length + edges.length;
+  return {
+    label: count === 1 ? `Delete ${nodes[0]?.data.label ?? 'connection'}` : `Delete ${count} elements`,
+    coalesceKey: 'remove',
+    redo: (state) => {
+      const next = withoutNodes(state, nodeIds);
+      return { ...next, edges: next.edges.filter(e => !edgeIds.has(e.id)) };
+    },
+    undo: (state) => withEdges(withNodes(state, nodes), edges),
+  };
+}
+
+export function moveNodesCommand(moves: NodeMove[]): DiagramCommand {
+  const move = (state: DiagramState, side: 'from' | 'to'): DiagramState => ({
+    ...state,
+    nodes: state.nodes.map(n => {
+      const m = moves.find(mv => mv.id === n.id);
+      return m ? { ...n, position: m[side].position, parentId: m[side].parentId } : n;
+    }),
+  });
+  return {
+    label: moves.length === 1 ? 'Move node' : `Move ${moves.length} nodes`,
+    redo: (state) => move(state, 'to'),
+    undo: (state) => move(state, 'from'),
+  };
+}
+
+export function addEdgeCommand(edge: Edge): DiagramCommand {
+  return {
+    label: 'Connect',
+    redo: (state) => withEdges(state, [edge]),
+    undo: (state) => ({ ...state, edges: state.edges.filter(e => e.id !== edge.id) }),
+  };
+}
+
+/**
+ * A property edit; keystrokes in the same field of the same node coalesce
+ */
+export function updateNodeDataCommand(
+  nodeId: string,
+  before: Partial<K8sNodeData>,
+  after: Partial<K8sNodeData>
+): DiagramCommand {
+  const update = (state: DiagramState, data: Partial<K8sNodeData>): DiagramState => ({
+    ...state,
+    nodes: state.nodes.map(n => (n.id === nodeId ? { ...n, data: { ...n.data, ...data } as K8sNodeData } : n)),
+  });
+  return {
+    label: 'Edit properties',
+    coalesceKey: `data:${nodeId}:${Object.keys(after).sort().join(',')}`,
+    redo: (state) => update(state, after),
+    undo: (state) => update(state, before),
+  };
+}
+
+/**
+ * Swaps the whole graph, for imports, template loads, clearing and YAML edits.
+ * Settings are only swapped when the command changes them (clearing does).
+ */
+export function replaceDiagramCommand(label: string, before: DiagramState, after: DiagramState, coalesceKey?: string): DiagramCommand {
+  const replace = (state: DiagramState, target: DiagramState): DiagramState => ({
+    nodes: target.nodes,
+    edges: target.edges,
+    settings: before.settings === after.settings ? state.settings : target.settings,
+  });
+  return {
+    label,
+    coalesceKey,
+    redo: (state) => replace(state, after),
+    undo: (state) => replace(state, before),
+  };
+}
@@ -0,0 +1,330 @@
+import { Edge, Node } from 'reactflow';
+import {
+  K8sNodeData,
+  K8sNodeType,
+  DeploymentNodeData,
+  ServiceNodeData,
+  LintRuleConfig,
+  LintSeverity,
+  K8sManifest,
+} from '@/types/k8s';
+import { getNodeNamespace } from './namespaces';
+import { getIngressName } from './yamlGenerator';
+import { findUnreachablePaths, formatIngressRoute } from './ingressRouting';
+import { findInvalidAnnotationValues, findMisplacedAnnotations, getIngressControllerProfile } from './ingressControllerProfiles';
+import { mergePassthrough } from './passthrough';
+
+/**
+ * Diagram lint engine
+ * Checks the whole graph for mistakes that connection validation can't see,
+ * such as mismatched ports or references to resources that don't exist
+ */
+
+export interface LintProblem {
+  ruleId: string;
+  // Missing for problems in generated resources that have no node (NetworkPolicies)
+  nodeId?: string;
+  severity: LintSeverity;
+  message: string;
+}
+
+interface LintContext {
+  nodes: Node<K8sNodeData>[];
+  edges: Edge[];
+}
+
+export interface LintRule {
+  id: string;
+  title: string;
+  description: string;
+  defaultSeverity: LintSeverity;
+  check: (context: LintContext) => Omit<LintProblem, 'ruleId' | 'severity'>[];
+}
+
+const IMAGE_NODE_TYPES: K8sNodeType[] = ['deployment', 'statefulset', 'daemonset', 'job', 'cronjob', 'pod', 'sidecar'];
+
+const DNS1123_LABEL = /^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/;
+const DNS1123_SUBDOMAIN = /^[a-z0-9]([-a-z0-9]*[a-z0-9])?(\.[a-z0-9]([-a-z0-9]*[a-z0-9])?)*$/;
+
+// Services and Namespaces become DNS labels, so their names can't contain dots
+const LABEL_NAMED_KINDS: K8sNodeType[] = ['service', 'namespace'];
+
+/**
+ * Returns the metadata.name the generator emits for a node, or undefined for
+ * nodes that don't become standalone resources (sidecars)
+ */
+export function getResourceName(data: K8sNodeData): string | undefined {
+  switch (data.type) {
+    case 'ingress':
+      return getIngressName(data);
+    case 'service':
+      return data.serviceName;
+    case 'deployment':
+      return data.deploymentName;
+    case 'sidecar':
+      return undefined;
+    default:
+      return data.name;
+  }
+}
+
+const KIND_NODE_TYPES: Record<string, K8sNodeType> = {
+  Namespace: 'namespace',
+  Ingress: 'ingress',
+  Service: 'service',
+  Deployment: 'deployment',
+  StatefulSet: 'statefulset',
+  DaemonSet: 'daemonset',
+  Job: 'job',
+  Pod: 'pod',
+  ConfigMap: 'configmap',
+  Secret: 'secret',
+  PersistentVolumeClaim: 'pvc',
+  CronJob: 'cronjob',
+  HorizontalPodAutoscaler: 'hpa',
+};
+
+/**
+ * Finds the node that emits the resource with this kind, name and namespace
+ */
+export function findResourceNode(
+  resource: Pick<K8sManifest, 'kind' | 'metadata'>,
+  nodes: Node<K8sNodeData>[]
+): Node<K8sNodeData> | undefined {
+  const type = KIND_NODE_TYPES[resource.kind];
+  if (!type) return undefined;
+  return nodes.find(n => n.data.type === type
+    && getResourceName(n.data) === resource.metadata?.name
+    && getNodeNamespace(n, nodes) === resource.metadata?.namespace);
+}
+
+function getTargets(nodeId: string, edges: Edge[], nodes: Node<K8sNodeData>[]): Node<K8sNodeData>[] {
+  const targetIds = edges.filter(e => e.source === nodeId).map(e => e.target);
+  return nodes.filter(n => targetIds.includes(n.id));
+}
+
+interface ContainerPort {
+  containerPort: number;
+  name?: string;
+}
+
+interface PassthroughContainer {
+  name?: string;
+  ports?: ContainerPort[];
+}
+
+/**
+ * Ports the main container of a workload exposes. The first one is modeled;
+ * port names and any further ports come from the passthrough layer.
+ */
+function getContainerPorts(data: K8sNodeData): ContainerPort[] {
+  if (!['deployment', 'statefulset', 'daemonset', 'pod'].includes(data.type)) return [];
+  const workload = data as Extract<K8sNodeData, { type: 'deployment' | 'statefulset' | 'daemonset' | 'pod' }>;
+  const spec = workload.passthrough?.spec as { containers?: PassthroughContainer[]; template?: { spec?: { containers?: PassthroughContainer[] } } } | undefined;
+  const containers = (workload.type === 'pod' ? spec?.containers : spec?.template?.spec?.containers) || [];
+  const containerName = workload.containerName || (workload.type === 'pod' ? workload.name : undefined);
+  const passthroughPorts = containers.find(c => c.name === containerName)?.ports;
+  const modeled = workload.containerPort ? [{ containerPort: workload.containerPort }] : [];
+  if (!passthroughPorts) return modeled;
+  return modeled.length > 0 ? mergePassthrough(modeled, passthroughPorts) : passthroughPorts;
+}
+
+/**
+ * An image without a tag resolves to :latest as well; digests are always pinned
+ */
+function usesLatestTag(image: string): boolean {
+  if (image.includes('@')) return false;
+  const tagIndex = image.lastIndexOf(':');
+  return tagIndex <= image.lastIndexOf('/') || image.slice(tagIndex + 1) === 'latest';
+}
+
+export const LINT_RULES: LintRule[] = [
+  {
+    id: 'latest-image-tag',
+    title: 'Image uses :latest',
+    description: 'Pin images to a version so rollouts are reproducible',
+    defaultSeverity: 'warning',
+    check: ({ nodes }) => nodes
+      .filter(n => IMAGE_NODE_TYPES.includes(n.data.type))
+      .filter(n => {
+        const image = (n.data as { image: string }).image;
+        return image && usesLatestTag(image);
+      })
+      .map(n => ({
+        nodeId: n.id,
+        message: `${n.data.label} uses image "${(n.data as { image: string }).image}" without a pinned tag`,
+      })),
+  },
+  {
+    id: 'service-target-port',
+    title: 'Service targetPort mismatch',
+    description: 'A Service must target a containerPort exposed by the workloads it selects',
+    defaultSeverity: 'error',
+    check: ({ nodes, edges }) => nodes
+      .filter(n => n.data.type === 'service')
+      .flatMap(n => {
+        const service = n.data as ServiceNodeData;
+        const ports = getTargets(n.id, edges, nodes).flatMap(t => getContainerPorts(t.data));
+        // A named targetPort refers to a container port by its name
+        const targeted = ports.some(p => (typeof service.targetPort === 'string'
+          ? p.name === service.targetPort
+          : p.containerPort === service.targetPort));
+        if (ports.length === 0 || targeted) return [];
+        const exposed = ports.map(p => (p.name ? `${p.containerPort} (${p.name})` : String(p.containerPort)));
+        return [{
+          nodeId: n.id,
+          message: `${service.serviceName} targets port ${service.targetPort}, but its workloads expose ${[...new Set(exposed)].join(', ')}`,
+        }];
+      }),
+  },
+  {
+    id: 'ingress-missing-service',
+    title: 'Ingress references a missing Service',
+    description: 'Every Ingress path must be bound to a Service that exists in the same namespace',
+    defaultSeverity: 'error',
+    check: ({ nodes }) => nodes
+      .filter(n => n.data.type === 'ingress')
+      .flatMap(n => {
+        const namespace = getNodeNamespace(n, nodes);
+        const serviceNames = new Set(nodes
+          .filter(s => s.data.type === 'service' && getNodeNamespace(s, nodes) === namespace)
+          .map(s => (s.data as ServiceNodeData).serviceName));
+        const data = n.data as Extract<K8sNodeData, { type: 'ingress' }>;
+        return data.rules.flatMap(rule => rule.paths
+          .filter(p => !serviceNames.has(p.serviceName))
+          .map(p => ({
+            nodeId: n.id,
+            // Paths without a backend are left out of the manifest
+            message: p.serviceName
+              ? `${data.label} routes ${formatIngressRoute(rule.host, p.path)} to Service "${p.serviceName}", which does not exist${namespace ? ` in namespace ${namespace}` : ''}`
+              : `${data.label} has no backend Service for ${formatIngressRoute(rule.host, p.path)}; connect a Service and pick it for the path`,
+          })));
+      }),
+  },
+  {
+    id: 'ingress-annotation-value',
+    title: 'Invalid ingress controller annotation',
+    description: 'Annotations read by the Ingress\'s controller must have values it accepts',
+    defaultSeverity: 'error',
+    check: ({ nodes }) => nodes
+      .filter(n => n.data.type === 'ingress')
+      .flatMap(n => {
+        const data = n.data as Extract<K8sNodeData, { type: 'ingress' }>;
+        const profile = getIngressControllerProfile(data.ingressClassName);
+        if (!profile) return [];
+        return findInvalidAnnotationValues(profile, data.annotations)
+          .map(problem => ({ nodeId: n.id, message: `${data.label}: ${problem.message}` }));
+      }),
+  },
+  {
+    id: 'ingress-annotation-name',
+    title: 'Annotation ignored by the ingress controller',
+    description: 'Annotations meant for another controller, or misspelled ones, have no effect',
+    defaultSeverity: 'warning',
+    check: ({ nodes }) => nodes
+      .filter(n => n.data.type === 'ingress')
+      .flatMap(n => {
+        const data = n.data as Extract<K8sNodeData, { type: 'ingress' }>;
+        return findMisplacedAnnotations(data.ingressClassName, data.annotations)
+          .map(problem => ({ nodeId: n.id, message: `${data.label}: ${problem.message}` }));
+      }),
+  },
+  {
+    id: 'ingress-shadowed-path',
+    title: 'Unreachable Ingress path',
+    description: 'A path that another Ingress path already serves, or that no request can match, never routes traffic',
+    defaultSeverity: 'warning',
+    check: ({ nodes }) => findUnreachablePaths(nodes),
+  },
+  {
+    id: 'hpa-target-mismatch',
+    title: 'HPA target not found',
+    description: 'An HPA must name a Deployment that exists in the diagram',
+    defaultSeverity: 'error',
+    check: ({ nodes, edges }) => nodes
+      .filter(n => n.data.type === 'hpa')
+      .flatMap(n => {
+        const targets = getTargets(n.id, edges, nodes);
+        // An HPA wired to a StatefulSet scales it by name, so targetDeployment is unused
+        if (targets.some(t => t.data.type === 'statefulset')) return [];
+
+        const data = n.data as Extract<K8sNodeData, { type: 'hpa' }>;
+        const deploymentNames = nodes
+          .filter(d => d.data.type === 'deployment')
+          .map(d => (d.data as DeploymentNodeData).deploymentName);
+        if (deploymentNames.includes(data.targetDeployment)) return [];
+
+        const connected = targets.find(t => t.data.type === 'deployment');
+        const hint = connected ? ` (connected to ${(connected.data as DeploymentNodeData).deploymentName})` : '';
+        return [{
+          nodeId: n.id,
+          message: data.targetDeployment
+            ? `${data.name} targets Deployment "${data.targetDeployment}", which does not exist${hint}`
+            : `${data.name} has no target Deployment${hint}`,
+        }];
+      }),
+  },
+  {
+    id: 'duplicate-name',
+    title: 'Duplicate resource name',
+    description: 'Two resources of the same kind in one namespace cannot share a name',
+    defaultSeverity: 'error',
+    check: ({ nodes }) => {
+      const seen = new Map<string, Node<K8sNodeData>[]>();
+      nodes.forEach(n => {
+        const name = getResourceName(n.data);
+        if (!name) return;
+        const key = `${n.data.type}:${name}@${getNodeNamespace(n, nodes) || ''}`;
+        seen.set(key, [...(seen.get(key) || []), n]);
+      });
+      return [...seen.values()]
+        .filter(group => group.length > 1)
+        .flatMap(group => group.map(n => ({
+          nodeId: n.id,
+          message: `${group.length} ${n.data.type} resources are named "${getResourceName(n.data)}"`,
+        })));
+    },
+  },
+  {
+    id: 'dns-1123-name',
+    title: 'Invalid resource name',
+    description: 'Names must be lowercase alphanumerics and "-" (RFC 1123); Services and Namespaces also forbid "."',
+    defaultSeverity: 'error',
+    check: ({ nodes }) => nodes.flatMap(n => {
+      const name = getResourceName(n.data);
+      if (name === undefined) return [];
+      const asLabel = LABEL_NAMED_KINDS.includes(n.data.type);
+      const valid = asLabel
+        ? DNS1123_LABEL.test(name) && name.length <= 63
+        : DNS1123_SUBDOMAIN.test(name) && name.length <= 253;
+      if (valid) return [];
+      return [{
+        nodeId: n.id,
+        message: `"${name}" is not a valid DNS-1123 ${asLabel ? 'label' : 'subdomain'} name`,
+      }];
+    }),
+  },
+];
+
+const SEVERITY_ORDER: Record<LintSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+export function getLintRuleConfig(rule: LintRule, overrides: Record<string, LintRuleConfig>): LintRuleConfig {
+  return overrides[rule.id] || { enabled: true, severity: rule.defaultSeverity };
+}
+
+/**
+ * Runs every enabled rule over the diagram, most severe problems first
+ */
+export function lintDiagram(
+  nodes: Node<K8sNodeData>[],
+  edges: Edge[],
+  overrides: Record<string, LintRuleConfig> = {}
+): LintProblem[] {
+  return LINT_RULES
+    .flatMap(rule => {
+      const config = getLintRuleConfig(rule, overrides);
+      if (!config.enabled) return [];
+      return rule.check({ nodes, edges }).map(p => ({ ...p, ruleId: rule.id, severity: config.severity }));
+    })
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
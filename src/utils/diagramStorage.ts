@@ -1,101 +1,231 @@
-import { Node, Edge } from 'reactflow';
-import { K8sNodeData } from '@/types/k8s';
+import { Node, Edge, Viewport } from 'reactflow';
+import { DiagramSettings, K8sNodeData, defaultDiagramSettings } from '@/types/k8s';
+import { DiagramFile, parseDiagramFile } from './diagramFile';
+import { DiagramState } from './diagramHistory';
+import { upgradeIngressNodes } from './ingressRouting';
 
-const STORAGE_KEY = 'k8s-diagram-builder-state';
-const AUTO_SAVE_DELAY = 1000; // 1 second debounce
+/**
+ * Projects are kept in IndexedDB, one record per diagram, with their named
+ * snapshots in a second store. The single localStorage slot used before is
+ * migrated into the first project.
+ */
+
+const LEGACY_STORAGE_KEY = 'k8s-diagram-builder-state';
+// Which project was open last; small enough to stay in localStorage
+const CURRENT_PROJECT_KEY = 'k8s-diagram-builder-project';
+const DB_NAME = 'k8s-diagram-builder';
+const DB_VERSION = 2;
+const PROJECT_STORE = 'projects';
+const SNAPSHOT_STORE = 'snapshots';
 
-export interface DiagramState {
+export const DEFAULT_PROJECT_NAME = 'Untitled diagram';
+
+export interface Project {
+  id: string;
+  name: string;
   nodes: Node<K8sNodeData>[];
   edges: Edge[];
-  lastSaved: number;
+  viewport?: Viewport;
+  settings: DiagramSettings;
+  createdAt: number;
+  updatedAt: number;
+  openedAt: number;
+}
+
+export type ProjectContents = Pick<Project, 'nodes' | 'edges' | 'viewport' | 'settings'>;
+
+export interface ProjectSummary extends Pick<Project, 'id' | 'name' | 'createdAt' | 'updatedAt' | 'openedAt'> {
+  nodeCount: number;
 }
 
 /**
- * Save diagram state to localStorage
+ * A named checkpoint of a project's diagram, e.g. "before adding redis"
  */
-export function saveDiagramState(nodes: Node<K8sNodeData>[], edges: Edge[]): void {
-  try {
-    const state: DiagramState = {
-      nodes,
-      edges,
-      lastSaved: Date.now(),
-    };
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
-  } catch (error) {
-    console.error('Failed to save diagram state:', error);
+export interface Snapshot extends DiagramState {
+  id: string;
+  projectId: string;
+  name: string;
+  createdAt: number;
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+          db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+          db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id' }).createIndex('projectId', 'projectId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
   }
+  return database;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName: string = PROJECT_STORE
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function emptyContents(): ProjectContents {
+  return { nodes: [], edges: [], settings: defaultDiagramSettings };
 }
 
 /**
- * Load diagram state from localStorage
+ * All projects, most recently opened first
  */
-export function loadDiagramState(): DiagramState | null {
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (!stored) return null;
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const projects = await withStore<Project[]>('readonly', store => store.getAll());
+  return projects
+    .map(({ id, name, createdAt, updatedAt, openedAt, nodes }) => ({ id, name, createdAt, updatedAt, openedAt, nodeCount: nodes.length }))
+    .sort((a, b) => b.openedAt - a.openedAt);
+}
 
-    const state = JSON.parse(stored) as DiagramState;
+export async function loadProject(id: string): Promise<Project | undefined> {
+  const project = await withStore<Project | undefined>('readonly', store => store.get(id));
+  // Projects saved before a setting existed pick up its default, and older node data is upgraded
+  return project && {
+    ...project,
+    nodes: upgradeIngressNodes(project.nodes, project.edges),
+    settings: { ...defaultDiagramSettings, ...project.settings },
+  };
+}
 
-    // Validate the loaded state has the expected structure
-    if (!state.nodes || !state.edges || !Array.isArray(state.nodes) || !Array.isArray(state.edges)) {
-      console.warn('Invalid diagram state in localStorage');
-      return null;
-    }
+export async function saveProject(project: Project): Promise<Project> {
+  const saved = { ...project, updatedAt: Date.now() };
+  await withStore('readwrite', store => store.put(saved));
+  return saved;
+}
 
-    return state;
-  } catch (error) {
-    console.error('Failed to load diagram state:', error);
-    return null;
+export async function createProject(name: string = DEFAULT_PROJECT_NAME, contents: ProjectContents = emptyContents()): Promise<Project> {
+  const now = Date.now();
+  const project: Project = { id: crypto.randomUUID(), name, ...contents, createdAt: now, updatedAt: now, openedAt: now };
+  await withStore('readwrite', store => store.add(project));
+  return project;
+}
+
+export async function renameProject(id: string, name: string): Promise<void> {
+  const project = await loadProject(id);
+  if (project) await saveProject({ ...project, name });
+}
+
+export async function duplicateProject(id: string): Promise<Project | undefined> {
+  const project = await loadProject(id);
+  if (!project) return undefined;
+  const { nodes, edges, viewport, settings } = project;
+  return createProject(`${project.name} (copy)`, { nodes, edges, viewport, settings });
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+  for (const snapshot of await listSnapshots(id)) {
+    await deleteSnapshot(snapshot.id);
   }
+  if (getCurrentProjectId() === id) localStorage.removeItem(CURRENT_PROJECT_KEY);
 }
 
 /**
- * Clear saved diagram state
+ * Snapshots of a project, newest first
  */
-export function clearDiagramState(): void {
+export async function listSnapshots(projectId: string): Promise<Snapshot[]> {
+  const snapshots = await withStore<Snapshot[]>('readonly', store => store.index('projectId').getAll(projectId), SNAPSHOT_STORE);
+  return snapshots
+    .map(snapshot => ({
+      ...snapshot,
+      nodes: upgradeIngressNodes(snapshot.nodes, snapshot.edges),
+      settings: { ...defaultDiagramSettings, ...snapshot.settings },
+    }))
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function createSnapshot(projectId: string, name: string, state: DiagramState): Promise<Snapshot> {
+  const { nodes, edges, settings } = state;
+  const snapshot: Snapshot = { id: crypto.randomUUID(), projectId, name, nodes, edges, settings, createdAt: Date.now() };
+  await withStore('readwrite', store => store.add(snapshot), SNAPSHOT_STORE);
+  return snapshot;
+}
+
+export async function deleteSnapshot(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id), SNAPSHOT_STORE);
+}
+
+function getCurrentProjectId(): string | null {
   try {
-    localStorage.removeItem(STORAGE_KEY);
+    return localStorage.getItem(CURRENT_PROJECT_KEY);
   } catch (error) {
-    console.error('Failed to clear diagram state:', error);
+    return null;
   }
 }
 
 /**
- * Check if there's a saved diagram
+ * Loads a project, marks it as the most recently opened and remembers it for the next visit
  */
-export function hasSavedDiagram(): boolean {
+export async function openProject(id: string): Promise<Project | undefined> {
+  const project = await loadProject(id);
+  if (!project) return undefined;
+  const opened = { ...project, openedAt: Date.now() };
+  await withStore('readwrite', store => store.put(opened));
   try {
-    return localStorage.getItem(STORAGE_KEY) !== null;
+    localStorage.setItem(CURRENT_PROJECT_KEY, id);
   } catch (error) {
-    return false;
+    console.error('Failed to remember the open project:', error);
   }
+  return opened;
 }
 
 /**
- * Get when the diagram was last saved
+ * Moves the diagram saved in the old localStorage slot into a project and
+ * removes the slot
  */
-export function getLastSavedTime(): Date | null {
-  const state = loadDiagramState();
-  return state ? new Date(state.lastSaved) : null;
+async function migrateLegacyState(): Promise<Project | null> {
+  let state: DiagramFile;
+  try {
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!stored) return null;
+    // The slot holds a version 1 diagram file
+    state = parseDiagramFile(stored);
+  } catch (error) {
+    // Left in place rather than deleted, so nothing is lost if validation is too strict
+    console.warn('Invalid diagram state in localStorage:', error);
+    return null;
+  }
+
+  const { name, nodes, edges, settings } = state;
+  const project = await createProject(name, { nodes, edges, settings });
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  return project;
 }
 
 /**
- * Create a debounced auto-save function
+ * The project to show on startup: a migrated legacy diagram, the project open
+ * last time, the most recent one, or a new empty project
  */
-export function createAutoSave(
-  callback: (nodes: Node<K8sNodeData>[], edges: Edge[]) => void,
-  delay: number = AUTO_SAVE_DELAY
-): (nodes: Node<K8sNodeData>[], edges: Edge[]) => void {
-  let timeoutId: NodeJS.Timeout | null = null;
-
-  return (nodes: Node<K8sNodeData>[], edges: Edge[]) => {
-    if (timeoutId) {
-      clearTimeout(timeoutId);
-    }
-
-    timeoutId = setTimeout(() => {
-      callback(nodes, edges);
-      timeoutId = null;
-    }, delay);
-  };
+export async function openInitialProject(): Promise<Project> {
+  const migrated = await migrateLegacyState();
+  const currentId = migrated?.id ?? getCurrentProjectId();
+  const current = currentId ? await openProject(currentId) : undefined;
+  if (current) return current;
+
+  const [recent] = await listProjects();
+  const opened = recent ? await openProject(recent.id) : undefined;
+  if (opened) return opened;
+
+  const created = await createProject();
+  return (await openProject(created.id)) ?? created;
 }
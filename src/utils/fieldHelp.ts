@@ -18,28 +18,37 @@ export const fieldHelp: Record<string, FieldHelp> = {
     validationRules: "Any descriptive text"
   },
 
+  // Namespace fields
+  'namespace.name': {
+    description: "Name of the namespace; resources placed inside this container are created in it",
+    example: "production, team-payments, monitoring",
+    validationRules: "Lowercase alphanumeric with hyphens, DNS-1123 compliant, max 63 characters",
+    learnMore: "Resources outside any namespace container are created in the default namespace"
+  },
+  'namespace.labels': {
+    description: "Labels on the Namespace object itself",
+    example: "team: payments, istio-injection: enabled",
+    learnMore: "Often used by NetworkPolicy namespaceSelectors and admission controllers"
+  },
+
   // Ingress fields
-  'ingress.host': {
-    description: "Domain name for your application",
-    example: "api.example.com, myapp.com, *.example.com",
-    validationRules: "Valid domain name or wildcard domain",
-    learnMore: "This is the domain users will access your app from"
+  'ingress.rules': {
+    description: "Hosts and the paths under each one, routed to a connected Service",
+    example: "api.example.com /v1 → api-service, shop.example.com / → web-service",
+    validationRules: "Host is a domain name, a wildcard like *.example.com, or empty for every host",
+    learnMore: "Connect the Ingress to a Service, then pick that Service as a path's backend"
   },
   'ingress.ingressClassName': {
     description: "Ingress controller to use for routing traffic",
-    example: "nginx, traefik, istio",
+    example: "nginx, traefik, haproxy, alb, gce, azure-application-gateway",
     validationRules: "Must match an installed ingress controller",
-    learnMore: "Common: nginx for most apps, traefik for microservices, istio for service mesh"
+    learnMore: "Known controllers show typed fields for their common annotations, checked in the Problems panel"
   },
-  'ingress.enableTLS': {
-    description: "Enable HTTPS/SSL for secure connections",
-    learnMore: "Requires a TLS secret with certificate and private key"
-  },
-  'ingress.tlsSecretName': {
-    description: "Name of the secret containing TLS certificate",
-    example: "tls-secret, myapp-tls",
-    validationRules: "Must reference an existing secret",
-    learnMore: "Create a secret with tls.crt and tls.key"
+  'ingress.tls': {
+    description: "HTTPS certificates, each covering one or more hosts",
+    example: "api.example.com, shop.example.com → shop-tls",
+    validationRules: "Secret must exist in the Ingress namespace and hold tls.crt and tls.key",
+    learnMore: "cert-manager can create and renew these secrets for you"
   },
   'ingress.annotations': {
     description: "Additional configuration for the ingress controller",
@@ -71,6 +80,10 @@ export const fieldHelp: Record<string, FieldHelp> = {
     example: "ClusterIP: internal only\nNodePort: accessible on node IPs\nLoadBalancer: cloud load balancer",
     learnMore: "ClusterIP for internal, LoadBalancer for production external access"
   },
+  'service.headless': {
+    description: "Create a headless Service with no cluster IP",
+    learnMore: "Required as the governing Service of a StatefulSet; DNS resolves directly to pod IPs"
+  },
   'service.selectorLabels': {
     description: "Labels to select which pods receive traffic",
     example: "app: backend, version: v1",
@@ -120,6 +133,88 @@ export const fieldHelp: Record<string, FieldHelp> = {
     learnMore: "Can reference ConfigMaps and Secrets for values"
   },
 
+  // StatefulSet fields
+  'statefulset.name': {
+    description: "Unique name for this StatefulSet; pods are named <name>-0, <name>-1, ...",
+    example: "postgres, kafka, redis",
+    validationRules: "Lowercase alphanumeric with hyphens, DNS-1123 compliant"
+  },
+  'statefulset.serviceName': {
+    description: "Headless Service that governs the network identity of the pods",
+    example: "postgres-headless",
+    validationRules: "Must match a Service with clusterIP: None",
+    learnMore: "Leave empty to use the connected Service. Pods get DNS names like <pod>.<serviceName>"
+  },
+  'statefulset.replicas': {
+    description: "Number of stateful pods to run",
+    example: "1 (single instance), 3 (quorum-based clusters)",
+    validationRules: "Positive integer"
+  },
+  'statefulset.podManagementPolicy': {
+    description: "How pods are created and deleted during scaling",
+    example: "OrderedReady, Parallel",
+    learnMore: "OrderedReady starts pods one at a time in order; Parallel starts them all at once"
+  },
+  'statefulset.updateStrategy': {
+    description: "How pods are replaced when the template changes",
+    example: "RollingUpdate, OnDelete",
+    learnMore: "OnDelete only updates a pod after you delete it manually"
+  },
+  'statefulset.volumeClaimTemplates': {
+    description: "Per-pod persistent volumes created for every replica",
+    example: "data mounted at /var/lib/postgresql/data, 10Gi",
+    learnMore: "Each replica gets its own PVC named <template>-<statefulset>-<ordinal>"
+  },
+
+  // DaemonSet fields
+  'daemonset.name': {
+    description: "Unique name for this DaemonSet",
+    example: "fluent-bit, node-exporter, calico-node",
+    validationRules: "Lowercase alphanumeric with hyphens, DNS-1123 compliant",
+    learnMore: "Runs one pod on every (selected) node"
+  },
+  'daemonset.nodeSelector': {
+    description: "Only run on nodes carrying all of these labels",
+    example: "kubernetes.io/os: linux, disktype: ssd",
+    learnMore: "Leave empty to run on every schedulable node"
+  },
+  'daemonset.tolerations': {
+    description: "Allow pods onto nodes with matching taints",
+    example: "Exists / NoSchedule to run on tainted control-plane nodes",
+    learnMore: "An empty key with operator Exists tolerates every taint"
+  },
+
+  // Job fields
+  'job.name': {
+    description: "Unique name for this Job",
+    example: "db-migrate, backfill-2024",
+    validationRules: "Lowercase alphanumeric with hyphens, DNS-1123 compliant"
+  },
+  'job.completions': {
+    description: "Number of pods that must finish successfully",
+    example: "1 (single run), 10 (work queue)",
+    validationRules: "Positive integer"
+  },
+  'job.parallelism': {
+    description: "Maximum number of pods running at the same time",
+    example: "1, 5",
+    validationRules: "Positive integer"
+  },
+  'job.backoffLimit': {
+    description: "Retries before the Job is marked as failed",
+    example: "0 (no retries), 6 (default)",
+    validationRules: "Zero or positive integer"
+  },
+  'job.ttlSecondsAfterFinished': {
+    description: "Delete the Job this many seconds after it finishes",
+    example: "3600 (one hour), 0 (immediately)",
+    learnMore: "Leave empty to keep finished Jobs until deleted manually"
+  },
+  'job.restartPolicy': {
+    description: "What happens to a failed container",
+    example: "Never (new pod per retry), OnFailure (restart in place)"
+  },
+
   // ConfigMap fields
   'configmap.name': {
     description: "Unique name for this config map",
@@ -216,7 +311,40 @@ export const fieldHelp: Record<string, FieldHelp> = {
     description: "Target CPU utilization percentage",
     example: "50 (aggressive scaling), 80 (balanced), 90 (conservative)",
     validationRules: "1-100 percentage",
-    learnMore: "HPA adds pods when average CPU exceeds this threshold"
+    learnMore: "HPA adds pods when average CPU exceeds this threshold. Utilization is measured against the target's CPU request, so the workload must set one"
+  },
+  'hpa.metricResource': {
+    description: "Resource whose utilization drives scaling",
+    example: "cpu (most workloads), memory (caches, JVM services)",
+    learnMore: "Utilization is a percentage of the container's request for this resource"
+  },
+
+  // Container settings (shared by every node that renders a container)
+  'container.resources': {
+    description: "CPU and memory the container requests from the scheduler and may not exceed",
+    example: "Requests: 100m / 128Mi, Limits: 500m / 256Mi",
+    validationRules: "CPU in cores or millicores (0.5, 500m); memory with a binary suffix (128Mi, 1Gi)",
+    learnMore: "Many admission policies reject pods without requests, and an HPA on CPU has nothing to scale against without a CPU request"
+  },
+  'container.livenessProbe': {
+    description: "Restarts the container when this check keeps failing",
+    example: "HTTP GET /healthz on port 8080",
+    learnMore: "Keep it cheap and independent of downstream services, or an outage elsewhere restarts every pod"
+  },
+  'container.readinessProbe': {
+    description: "Removes the pod from Service endpoints while this check fails",
+    example: "HTTP GET /ready on port 8080",
+    learnMore: "Use it to hold traffic until caches are warm or dependencies are reachable"
+  },
+  'container.startupProbe': {
+    description: "Holds off liveness and readiness checks until the application has started",
+    example: "HTTP GET /healthz with failure threshold 30 and period 10s (5 minutes to start)",
+    learnMore: "Useful for slow-starting apps that would otherwise be killed by the liveness probe"
+  },
+  'container.securityContext': {
+    description: "Linux security settings applied to the container",
+    example: "runAsNonRoot, readOnlyRootFilesystem, drop ALL capabilities",
+    learnMore: "The defaults match the Pod Security 'restricted' profile; images that run as root (such as nginx) need runAsNonRoot turned off"
   },
 
   // Pod fields
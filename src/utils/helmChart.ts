@@ -0,0 +1,254 @@
+import * as yaml from 'js-yaml';
+import { GeneratedManifests, K8sManifest } from '@/types/k8s';
+import { manifestToYaml } from './yamlGenerator';
+import {
+  YamlObject,
+  orderedManifests,
+  manifestKey,
+  getMainContainer,
+  getIngressHosts,
+  manifestFileName,
+} from './manifests';
+
+export type HelmValueField = 'image' | 'replicas' | 'host' | 'resources' | 'env';
+
+/**
+ * A node field that can be lifted into values.yaml
+ */
+export interface HelmValueCandidate {
+  id: string;
+  kind: string;
+  name: string;
+  namespace?: string;
+  field: HelmValueField;
+  valuesKey: string;
+  // Key under the resource's values: the field, or host2, host3... for an Ingress's further hosts
+  valueName: string;
+  defaultValue: unknown;
+}
+
+export interface HelmChartOptions {
+  chartName: string;
+  chartVersion: string;
+  appVersion: string;
+  selectedValueIds: Set<string>;
+}
+
+export const HELM_VALUE_FIELD_LABELS: Record<HelmValueField, string> = {
+  image: 'Image',
+  replicas: 'Replicas',
+  host: 'Host',
+  resources: 'Resources',
+  env: 'Env vars',
+};
+
+export const DEFAULT_HELM_CHART_NAME = 'k8s-diagram';
+
+// Keys set by the "<chart>.labels" helper; duplicating them in metadata.labels breaks rendering
+const HELPER_LABEL_KEYS = [
+  'helm.sh/chart',
+  'app.kubernetes.io/name',
+  'app.kubernetes.io/instance',
+  'app.kubernetes.io/version',
+  'app.kubernetes.io/managed-by',
+];
+
+const LABELS_PLACEHOLDER = '__HELM_LABELS__';
+
+/**
+ * Values keys are camelCased so templates can use plain .Values.a.b paths
+ */
+function toValuesKey(name: string): string {
+  const key = name.replace(/[^a-zA-Z0-9]+(.)?/g, (_, c: string | undefined) => (c ? c.toUpperCase() : ''));
+  return /^[a-zA-Z]/.test(key) ? key : `r${key}`;
+}
+
+function candidateFields(manifest: K8sManifest): { field: HelmValueField; valueName: string; defaultValue: unknown }[] {
+  const fields: { field: HelmValueField; valueName: string; defaultValue: unknown }[] = [];
+  const add = (field: HelmValueField, defaultValue: unknown, valueName: string = field) => {
+    fields.push({ field, valueName, defaultValue });
+  };
+  const container = getMainContainer(manifest);
+  if (container) {
+    add('image', container.image);
+    if (manifest.kind === 'Deployment' || manifest.kind === 'StatefulSet') {
+      add('replicas', (manifest.spec as YamlObject).replicas);
+    }
+    add('resources', container.resources || {});
+    add('env', container.env || []);
+  }
+  getIngressHosts(manifest).forEach((host, i) => add('host', host, i === 0 ? 'host' : `host${i + 1}`));
+  return fields;
+}
+
+/**
+ * Lists every field the chart export can parameterize. Each resource gets its
+ * own values key, disambiguated by kind and namespace when two resources
+ * share a name.
+ */
+export function findHelmValueCandidates(manifests: GeneratedManifests): HelmValueCandidate[] {
+  const candidates: HelmValueCandidate[] = [];
+  const usedKeys = new Set<string>();
+
+  orderedManifests(manifests).forEach(manifest => {
+    const fields = candidateFields(manifest);
+    if (fields.length === 0) return;
+
+    const { name, namespace } = manifest.metadata;
+    const options = [name, `${name}-${manifest.kind}`, `${name}-${manifest.kind}-${namespace || 'default'}`].map(toValuesKey);
+    let valuesKey = options.find(key => !usedKeys.has(key));
+    for (let i = 2; !valuesKey; i++) {
+      if (!usedKeys.has(`${options[0]}${i}`)) valuesKey = `${options[0]}${i}`;
+    }
+    usedKeys.add(valuesKey);
+
+    fields.forEach(({ field, valueName, defaultValue }) => {
+      candidates.push({
+        id: `${manifestKey(manifest)}.${valueName}`,
+        kind: manifest.kind,
+        name,
+        namespace,
+        field,
+        valuesKey,
+        valueName,
+        defaultValue,
+      });
+    });
+  });
+
+  return candidates;
+}
+
+function buildHelpersTpl(chartName: string): string {
+  return `{{/*
+Expand the name of the chart.
+*/}}
+{{- define "${chartName}.name" -}}
+{{- default .Chart.Name .Values.nameOverride | trunc 63 | trimSuffix "-" }}
+{{- end }}
+
+{{/*
+Create chart name and version as used by the chart label.
+*/}}
+{{- define "${chartName}.chart" -}}
+{{- printf "%s-%s" .Chart.Name .Chart.Version | replace "+" "_" | trunc 63 | trimSuffix "-" }}
+{{- end }}
+
+{{/*
+Common labels
+*/}}
+{{- define "${chartName}.labels" -}}
+helm.sh/chart: {{ include "${chartName}.chart" . }}
+app.kubernetes.io/name: {{ include "${chartName}.name" . }}
+app.kubernetes.io/instance: {{ .Release.Name }}
+{{- if .Chart.AppVersion }}
+app.kubernetes.io/version: {{ .Chart.AppVersion | quote }}
+{{- end }}
+app.kubernetes.io/managed-by: {{ .Release.Service }}
+{{- end }}
+`;
+}
+
+/**
+ * Renders one manifest as a template: selected fields are swapped for
+ * placeholders before serializing, then replaced with {{ .Values... }}
+ * references so js-yaml still handles all quoting of the literal parts.
+ */
+function buildTemplate(manifest: K8sManifest, candidates: HelmValueCandidate[], chartName: string): string {
+  const copy = structuredClone(manifest);
+  const expressions: { expression: string; block: boolean }[] = [];
+  const placeholder = (expression: string, block: boolean) => {
+    expressions.push({ expression, block });
+    return `__HELM_VALUE_${expressions.length - 1}__`;
+  };
+
+  const container = getMainContainer(copy);
+  candidates.forEach(c => {
+    const path = `.Values.${c.valuesKey}.${c.valueName}`;
+    switch (c.field) {
+      case 'image':
+        if (container) container.image = placeholder(`{{ ${path} | quote }}`, false);
+        break;
+      case 'replicas':
+        (copy.spec as YamlObject).replicas = placeholder(`{{ ${path} }}`, false);
+        break;
+      case 'resources':
+      case 'env':
+        if (container) container[c.field] = placeholder(`toYaml ${path}`, true);
+        break;
+      case 'host': {
+        // Every rule for the host, and the TLS certificate securing it, use the value
+        ((copy.spec as YamlObject).rules as YamlObject[] | undefined)?.forEach(rule => {
+          if (rule.host === c.defaultValue) rule.host = placeholder(`{{ ${path} | quote }}`, false);
+        });
+        // A TLS block without hosts covers the controller's default certificate
+        ((copy.spec as YamlObject).tls as { hosts?: unknown[] }[] | undefined)?.forEach(tls => {
+          if (tls.hosts) tls.hosts = tls.hosts.map(h => (h === c.defaultValue ? placeholder(`{{ ${path} | quote }}`, false) : h));
+        });
+        break;
+      }
+    }
+  });
+
+  const labels = Object.fromEntries(
+    Object.entries(copy.metadata.labels || {}).filter(([key]) => !HELPER_LABEL_KEYS.includes(key))
+  );
+  copy.metadata = {
+    ...copy.metadata,
+    labels: { [LABELS_PLACEHOLDER]: '', ...labels },
+  };
+
+  // Literal braces in the diagram (e.g. annotation values) must not be read as template actions
+  let text = manifestToYaml(copy).replace(/\{\{|\}\}/g, braces => `{{ "${braces}" }}`);
+
+  text = text.replace(/^( *)"?__HELM_LABELS__"?: .*$/m, (_, indent: string) =>
+    `${indent}{{- include "${chartName}.labels" . | nindent ${indent.length} }}`);
+  text = text.replace(/^( *)(- )?([\w.-]+): __HELM_VALUE_(\d+)__$/gm, (line, indent: string, dash: string | undefined, key: string, index: string) => {
+    const { expression, block } = expressions[Number(index)];
+    if (!block) return line;
+    const column = indent.length + (dash ? 2 : 0) + 2;
+    return `${indent}${dash || ''}${key}: {{- ${expression} | nindent ${column} }}`;
+  });
+  text = text.replace(/__HELM_VALUE_(\d+)__/g, (_, index: string) => expressions[Number(index)].expression);
+
+  return `${text}\n`;
+}
+
+/**
+ * Builds a Helm chart from the generated manifests, returning file contents
+ * keyed by their path inside the chart directory
+ */
+export function buildHelmChart(manifests: GeneratedManifests, options: HelmChartOptions): Record<string, string> {
+  const { chartName, chartVersion, appVersion, selectedValueIds } = options;
+  const selected = findHelmValueCandidates(manifests).filter(c => selectedValueIds.has(c.id));
+
+  const values: YamlObject = { nameOverride: '' };
+  selected.forEach(c => {
+    const resourceValues = (values[c.valuesKey] as YamlObject | undefined) || {};
+    resourceValues[c.valueName] = c.defaultValue;
+    values[c.valuesKey] = resourceValues;
+  });
+
+  const files: Record<string, string> = {
+    'Chart.yaml': yaml.dump({
+      apiVersion: 'v2',
+      name: chartName,
+      description: 'Generated by K8s Diagram Builder',
+      type: 'application',
+      version: chartVersion,
+      appVersion,
+    }, { quotingType: '"' }),
+    'values.yaml': `# Default values for ${chartName}.\n${yaml.dump(values, { lineWidth: -1, noRefs: true, quotingType: '"' })}`,
+    'templates/_helpers.tpl': buildHelpersTpl(chartName),
+  };
+
+  const usedFileNames = new Set<string>();
+  orderedManifests(manifests).forEach(manifest => {
+    const { name, namespace } = manifest.metadata;
+    const resourceCandidates = selected.filter(c =>
+      c.kind === manifest.kind && c.name === name && c.namespace === namespace);
+    files[`templates/${manifestFileName(manifest, usedFileNames)}`] = buildTemplate(manifest, resourceCandidates, chartName);
+  });
+
+  return files;
+}
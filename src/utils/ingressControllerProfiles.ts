@@ -0,0 +1,618 @@
+import { KeyValue } from '@/types/k8s';
+import { CloudProviderField } from './cloudProviderTemplates';
+
+/**
+ * Ingress controller profiles: the annotations each controller reads, as typed
+ * fields with value checks. A profile is picked by the Ingress's class; its
+ * fields read and write the node's annotation list directly, so imported
+ * annotations show up in the fields and nothing is stored twice.
+ */
+
+/**
+ * A typed annotation; `key` is the full annotation name it reads and writes
+ */
+export interface IngressAnnotationField extends CloudProviderField {
+  // Problem with a set value, or null when it is fine. Gets every annotation
+  // of the Ingress for checks that depend on another field.
+  validate?: (value: string, annotations: Record<string, string>) => string | null;
+}
+
+export interface IngressControllerProfile {
+  id: string;
+  name: string;
+  // ingressClassName the controller is installed with by default
+  ingressClassName: string;
+  // Annotations starting with these belong to this controller
+  annotationPrefixes: string[];
+  fields: IngressAnnotationField[];
+}
+
+// Profile registry
+const ingressControllerProfiles: IngressControllerProfile[] = [];
+
+export function registerIngressControllerProfile(profile: IngressControllerProfile) {
+  const existingIndex = ingressControllerProfiles.findIndex(p => p.id === profile.id);
+  if (existingIndex >= 0) {
+    ingressControllerProfiles[existingIndex] = profile;
+  } else {
+    ingressControllerProfiles.push(profile);
+  }
+}
+
+export function getIngressControllerProfiles(): IngressControllerProfile[] {
+  return ingressControllerProfiles;
+}
+
+export function getIngressControllerProfile(ingressClassName: string): IngressControllerProfile | undefined {
+  return ingressControllerProfiles.find(p => p.ingressClassName === ingressClassName);
+}
+
+/**
+ * Sets a profile field's annotation, or removes it when the value is cleared
+ */
+export function setProfileAnnotation(annotations: KeyValue[], key: string, value: string): KeyValue[] {
+  if (!value) return annotations.filter(a => a.key !== key);
+  return annotations.some(a => a.key === key)
+    ? annotations.map(a => (a.key === key ? { ...a, value } : a))
+    : [...annotations, { key, value }];
+}
+
+export interface AnnotationProblem {
+  key: string;
+  message: string;
+}
+
+/**
+ * Values the profile's controller would reject or misread
+ */
+export function findInvalidAnnotationValues(profile: IngressControllerProfile, annotations: KeyValue[]): AnnotationProblem[] {
+  const values = Object.fromEntries(annotations.filter(a => a.key).map(a => [a.key, a.value]));
+  return profile.fields.flatMap(field => {
+    const value = values[field.key];
+    if (value === undefined || !field.validate) return [];
+    const problem = field.validate(value, values);
+    return problem ? [{ key: field.key, message: `${field.label} (${field.key}) ${problem}` }] : [];
+  });
+}
+
+// Edit distance, for spotting misspelled annotation names
+function distance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Annotation names the Ingress's controller will ignore: ones meant for a
+ * different controller, and near misses of the profile's own fields
+ */
+export function findMisplacedAnnotations(ingressClassName: string, annotations: KeyValue[]): AnnotationProblem[] {
+  const profile = getIngressControllerProfile(ingressClassName);
+  return annotations.filter(a => a.key).flatMap(({ key }) => {
+    const owner = ingressControllerProfiles.find(p => p.annotationPrefixes.some(prefix => key.startsWith(prefix)));
+    if (owner && owner !== profile) {
+      return [{ key, message: `${key} is read by ${owner.name}, but the class is ${ingressClassName}` }];
+    }
+    if (!profile || profile.fields.some(f => f.key === key)) return [];
+    const suggestion = profile.fields.find(f => distance(f.key, key) <= 2);
+    return suggestion ? [{ key, message: `${key} is not an annotation of ${profile.name}; did you mean ${suggestion.key}?` }] : [];
+  });
+}
+
+// ============================================================================
+// VALUE CHECKS
+// ============================================================================
+
+const BOOLEAN_OPTIONS = [
+  { label: 'Controller default', value: '' },
+  { label: 'Enabled', value: 'true' },
+  { label: 'Disabled', value: 'false' },
+];
+
+const list = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+const isBoolean = (value: string) => (value === 'true' || value === 'false' ? null : 'must be "true" or "false"');
+
+const isOneOf = (allowed: string[]) => (value: string) =>
+  (allowed.includes(value) ? null : `must be one of ${allowed.join(', ')}`);
+
+const isIntegerBetween = (min: number, max = Infinity) => (value: string) => {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    return max === Infinity ? `must be a whole number of at least ${min}` : `must be a whole number from ${min} to ${max}`;
+  }
+  return null;
+};
+
+const isUrl = (value: string) => (/^https?:\/\/\S+$/.test(value) ? null : 'must be an http:// or https:// URL');
+
+const isPath = (value: string) => (/^\/\S*$/.test(value) ? null : 'must be a path starting with /');
+
+const isOriginList = (value: string) => {
+  const invalid = list(value).filter(origin => origin !== '*' && !/^https?:\/\/[^/\s]+$/.test(origin));
+  return invalid.length > 0 ? `has invalid origins ${invalid.join(', ')}; use * or scheme://host[:port]` : null;
+};
+
+const HTTP_METHODS = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS', 'CONNECT', 'TRACE'];
+
+const isMethodList = (value: string) => {
+  const invalid = list(value).filter(method => !HTTP_METHODS.includes(method.toUpperCase()));
+  return invalid.length > 0 ? `has unknown methods ${invalid.join(', ')}` : null;
+};
+
+// Only takes effect when another annotation is switched on
+const requires = (key: string, check?: (value: string) => string | null) =>
+  (value: string, annotations: Record<string, string>) =>
+    (annotations[key] !== 'true' ? `has no effect unless ${key} is "true"` : check?.(value) ?? null);
+
+// ============================================================================
+// DEFAULT INGRESS CONTROLLER PROFILES
+// ============================================================================
+
+const NGINX = 'nginx.ingress.kubernetes.io/';
+
+const nginxProfile: IngressControllerProfile = {
+  id: 'ingress-nginx',
+  name: 'NGINX Ingress Controller',
+  ingressClassName: 'nginx',
+  annotationPrefixes: [NGINX],
+  fields: [
+    {
+      key: `${NGINX}rewrite-target`,
+      label: 'Rewrite Target',
+      type: 'text',
+      description: 'Path the matched request is rewritten to',
+      placeholder: '/$2',
+      helpText: 'Refer to capture groups of a regex path with $1, $2...',
+      validate: (value) => (/\s/.test(value) ? 'must not contain spaces' : null),
+    },
+    {
+      key: `${NGINX}ssl-redirect`,
+      label: 'SSL Redirect',
+      type: 'select',
+      description: 'Redirect HTTP to HTTPS when the Ingress has TLS',
+      options: BOOLEAN_OPTIONS,
+      helpText: 'On by default for Ingresses with a TLS block',
+      validate: isBoolean,
+    },
+    {
+      key: `${NGINX}force-ssl-redirect`,
+      label: 'Force SSL Redirect',
+      type: 'select',
+      description: 'Redirect HTTP to HTTPS even without a TLS block',
+      options: BOOLEAN_OPTIONS,
+      helpText: 'For TLS terminated in front of the controller, e.g. at a load balancer',
+      validate: isBoolean,
+    },
+    {
+      key: `${NGINX}proxy-body-size`,
+      label: 'Max Body Size',
+      type: 'text',
+      description: 'Largest request body accepted',
+      placeholder: '8m',
+      helpText: 'Size with an optional k, m or g suffix; 0 removes the limit',
+      validationRules: 'e.g. 1m, 512k, 0',
+      validate: (value) => (/^\d+[kmgKMG]?$/.test(value) ? null : 'must be a size such as 8m, 512k or 0'),
+    },
+    {
+      key: `${NGINX}limit-rps`,
+      label: 'Rate Limit (req/s)',
+      type: 'number',
+      description: 'Requests per second allowed from one client IP',
+      placeholder: '10',
+      helpText: 'Requests over the limit get 503 responses',
+      validate: isIntegerBetween(1),
+    },
+    {
+      key: `${NGINX}limit-connections`,
+      label: 'Connection Limit',
+      type: 'number',
+      description: 'Concurrent connections allowed from one client IP',
+      placeholder: '20',
+      validate: isIntegerBetween(1),
+    },
+    {
+      key: `${NGINX}enable-cors`,
+      label: 'CORS',
+      type: 'select',
+      description: 'Answer cross-origin requests with CORS headers',
+      options: BOOLEAN_OPTIONS,
+      validate: isBoolean,
+    },
+    {
+      key: `${NGINX}cors-allow-origin`,
+      label: 'CORS Allowed Origins',
+      type: 'text',
+      description: 'Origins allowed to call the API',
+      placeholder: 'https://app.example.com, https://admin.example.com',
+      helpText: 'Comma-separated; * allows every origin',
+      validate: requires(`${NGINX}enable-cors`, isOriginList),
+    },
+    {
+      key: `${NGINX}cors-allow-methods`,
+      label: 'CORS Allowed Methods',
+      type: 'text',
+      description: 'Methods allowed in cross-origin requests',
+      placeholder: 'GET, PUT, POST, DELETE, PATCH, OPTIONS',
+      validate: requires(`${NGINX}enable-cors`, isMethodList),
+    },
+    {
+      key: `${NGINX}auth-url`,
+      label: 'External Auth URL',
+      type: 'text',
+      description: 'Service asked to authorize every request',
+      placeholder: 'https://auth.example.com/oauth2/auth',
+      helpText: 'A 2xx answer lets the request through; 401 and 403 are returned to the client',
+      validate: isUrl,
+    },
+    {
+      key: `${NGINX}auth-signin`,
+      label: 'Auth Sign-in URL',
+      type: 'text',
+      description: 'Where unauthenticated users are sent',
+      placeholder: 'https://auth.example.com/oauth2/start?rd=$escaped_request_uri',
+      validate: isUrl,
+    },
+    {
+      key: `${NGINX}canary`,
+      label: 'Canary',
+      type: 'select',
+      description: 'Treat this Ingress as a canary of another one with the same host and path',
+      options: BOOLEAN_OPTIONS,
+      validate: isBoolean,
+    },
+    {
+      key: `${NGINX}canary-weight`,
+      label: 'Canary Weight (%)',
+      type: 'number',
+      description: 'Share of requests sent to the canary',
+      placeholder: '10',
+      validate: requires(`${NGINX}canary`, isIntegerBetween(0, 100)),
+    },
+    {
+      key: `${NGINX}backend-protocol`,
+      label: 'Backend Protocol',
+      type: 'select',
+      description: 'Protocol used to talk to the Service',
+      options: [
+        { label: 'Controller default (HTTP)', value: '' },
+        ...['HTTP', 'HTTPS', 'GRPC', 'GRPCS', 'AJP', 'FCGI'].map(value => ({ label: value, value })),
+      ],
+      validate: isOneOf(['HTTP', 'HTTPS', 'GRPC', 'GRPCS', 'AJP', 'FCGI']),
+    },
+  ],
+};
+
+const TRAEFIK = 'traefik.ingress.kubernetes.io/';
+
+const traefikProfile: IngressControllerProfile = {
+  id: 'traefik',
+  name: 'Traefik',
+  ingressClassName: 'traefik',
+  annotationPrefixes: [TRAEFIK],
+  fields: [
+    {
+      key: `${TRAEFIK}router.entrypoints`,
+      label: 'Entry Points',
+      type: 'text',
+      description: 'Traefik entry points the routes listen on',
+      placeholder: 'websecure',
+      helpText: 'Comma-separated, e.g. web, websecure',
+      validate: (value) => (list(value).every(name => /^[A-Za-z0-9_-]+$/.test(name)) ? null : 'must be comma-separated entry point names'),
+    },
+    {
+      key: `${TRAEFIK}router.tls`,
+      label: 'TLS',
+      type: 'select',
+      description: 'Serve the routes over TLS',
+      options: BOOLEAN_OPTIONS,
+      validate: isBoolean,
+    },
+    {
+      key: `${TRAEFIK}router.middlewares`,
+      label: 'Middlewares',
+      type: 'text',
+      description: 'Middlewares applied to the routes, e.g. rewrites, rate limits, auth',
+      placeholder: 'default-strip-prefix@kubernetescrd',
+      helpText: 'Comma-separated <namespace>-<name>@<provider> references',
+      validate: (value) => {
+        const invalid = list(value).filter(ref => !/^[a-z0-9.-]+@[a-z0-9]+$/.test(ref));
+        return invalid.length > 0 ? `has invalid references ${invalid.join(', ')}; use <namespace>-<name>@kubernetescrd` : null;
+      },
+    },
+    {
+      key: `${TRAEFIK}router.priority`,
+      label: 'Priority',
+      type: 'number',
+      description: 'Router priority; higher wins when rules overlap',
+      placeholder: '10',
+      validate: isIntegerBetween(1),
+    },
+  ],
+};
+
+const HAPROXY = 'haproxy.org/';
+
+const haproxyProfile: IngressControllerProfile = {
+  id: 'haproxy',
+  name: 'HAProxy Kubernetes Ingress',
+  ingressClassName: 'haproxy',
+  annotationPrefixes: [HAPROXY],
+  fields: [
+    {
+      key: `${HAPROXY}path-rewrite`,
+      label: 'Path Rewrite',
+      type: 'text',
+      description: 'Rewrite the request path: a new path, or a regex and its replacement',
+      placeholder: '/api/(.*) /\\1',
+    },
+    {
+      key: `${HAPROXY}ssl-redirect`,
+      label: 'SSL Redirect',
+      type: 'select',
+      description: 'Redirect HTTP to HTTPS',
+      options: BOOLEAN_OPTIONS,
+      validate: isBoolean,
+    },
+    {
+      key: `${HAPROXY}rate-limit-requests`,
+      label: 'Rate Limit (requests)',
+      type: 'number',
+      description: 'Requests allowed from one client IP per rate limit period',
+      placeholder: '100',
+      validate: isIntegerBetween(1),
+    },
+    {
+      key: `${HAPROXY}rate-limit-period`,
+      label: 'Rate Limit Period',
+      type: 'text',
+      description: 'Window the request limit applies to',
+      placeholder: '1s',
+      validate: (value) => (/^\d+(ms|s|m|h|d)$/.test(value) ? null : 'must be a duration such as 1s or 1m'),
+    },
+    {
+      key: `${HAPROXY}cors-enable`,
+      label: 'CORS',
+      type: 'select',
+      description: 'Answer cross-origin requests with CORS headers',
+      options: BOOLEAN_OPTIONS,
+      validate: isBoolean,
+    },
+    {
+      key: `${HAPROXY}cors-allow-origin`,
+      label: 'CORS Allowed Origin',
+      type: 'text',
+      description: 'Origin allowed to call the API',
+      placeholder: 'https://app.example.com',
+      validate: requires(`${HAPROXY}cors-enable`, isOriginList),
+    },
+  ],
+};
+
+const ALB = 'alb.ingress.kubernetes.io/';
+
+const albProfile: IngressControllerProfile = {
+  id: 'aws-alb',
+  name: 'AWS Load Balancer Controller',
+  ingressClassName: 'alb',
+  annotationPrefixes: [ALB],
+  fields: [
+    {
+      key: `${ALB}scheme`,
+      label: 'Scheme',
+      type: 'select',
+      description: 'Whether the load balancer is reachable from the internet',
+      options: [
+        { label: 'Controller default (internal)', value: '' },
+        { label: 'Internal', value: 'internal' },
+        { label: 'Internet-facing', value: 'internet-facing' },
+      ],
+      validate: isOneOf(['internal', 'internet-facing']),
+    },
+    {
+      key: `${ALB}target-type`,
+      label: 'Target Type',
+      type: 'select',
+      description: 'How traffic reaches the pods',
+      options: [
+        { label: 'Controller default (instance)', value: '' },
+        { label: 'Instance (through NodePorts)', value: 'instance' },
+        { label: 'IP (straight to pods)', value: 'ip' },
+      ],
+      helpText: 'Fargate pods and ClusterIP Services need ip',
+      validate: isOneOf(['instance', 'ip']),
+    },
+    {
+      key: `${ALB}certificate-arn`,
+      label: 'Certificate ARN',
+      type: 'text',
+      description: 'ACM certificates for the HTTPS listener',
+      placeholder: 'arn:aws:acm:us-east-1:123456789012:certificate/abcd-1234',
+      helpText: 'Comma-separated for several certificates',
+      validate: (value) => {
+        const invalid = list(value).filter(arn => !/^arn:aws[a-z-]*:acm:[a-z0-9-]+:\d{12}:certificate\/[A-Za-z0-9-]+$/.test(arn));
+        return invalid.length > 0 ? `has invalid ARNs ${invalid.join(', ')}` : null;
+      },
+    },
+    {
+      key: `${ALB}listen-ports`,
+      label: 'Listen Ports',
+      type: 'text',
+      description: 'Listeners the load balancer opens',
+      placeholder: '[{"HTTP": 80}, {"HTTPS": 443}]',
+      validate: (value) => {
+        try {
+          const ports = JSON.parse(value);
+          const valid = Array.isArray(ports) && ports.every(entry =>
+            entry && typeof entry === 'object' && Object.entries(entry).every(([protocol, port]) =>
+              (protocol === 'HTTP' || protocol === 'HTTPS') && Number.isInteger(port)));
+          return valid ? null : 'must be a JSON list like [{"HTTP": 80}, {"HTTPS": 443}]';
+        } catch (error) {
+          return 'must be valid JSON, e.g. [{"HTTP": 80}, {"HTTPS": 443}]';
+        }
+      },
+    },
+    {
+      key: `${ALB}ssl-redirect`,
+      label: 'SSL Redirect Port',
+      type: 'number',
+      description: 'HTTPS port that HTTP requests are redirected to',
+      placeholder: '443',
+      validate: isIntegerBetween(1, 65535),
+    },
+    {
+      key: `${ALB}group.name`,
+      label: 'Group Name',
+      type: 'text',
+      description: 'Ingresses in one group share a load balancer',
+      placeholder: 'shared-alb',
+      validate: (value) => (/^[a-z0-9]([-a-z0-9.]{0,61}[a-z0-9])?$/.test(value) ? null : 'must be lowercase letters, digits, - and ., up to 63 characters'),
+    },
+    {
+      key: `${ALB}healthcheck-path`,
+      label: 'Health Check Path',
+      type: 'text',
+      description: 'Path the target group health check requests',
+      placeholder: '/healthz',
+      validate: isPath,
+    },
+  ],
+};
+
+const gceProfile: IngressControllerProfile = {
+  id: 'gce',
+  name: 'GKE Ingress',
+  ingressClassName: 'gce',
+  // Not all of kubernetes.io/ingress.*: the legacy class annotation is read by every controller
+  annotationPrefixes: [
+    'ingress.gcp.kubernetes.io/',
+    'networking.gke.io/',
+    'kubernetes.io/ingress.global-static-ip-name',
+    'kubernetes.io/ingress.regional-static-ip-name',
+    'kubernetes.io/ingress.allow-http',
+  ],
+  fields: [
+    {
+      key: 'kubernetes.io/ingress.global-static-ip-name',
+      label: 'Static IP Name',
+      type: 'text',
+      description: 'Reserved global static IP address for the load balancer',
+      placeholder: 'web-static-ip',
+      validate: (value) => (/^[a-z]([-a-z0-9]{0,61}[a-z0-9])?$/.test(value) ? null : 'must be a GCP resource name (lowercase, starts with a letter)'),
+    },
+    {
+      key: 'kubernetes.io/ingress.allow-http',
+      label: 'Allow HTTP',
+      type: 'select',
+      description: 'Serve plain HTTP besides HTTPS',
+      options: BOOLEAN_OPTIONS,
+      validate: isBoolean,
+    },
+    {
+      key: 'networking.gke.io/managed-certificates',
+      label: 'Managed Certificates',
+      type: 'text',
+      description: 'ManagedCertificate resources to serve',
+      placeholder: 'web-cert',
+      helpText: 'Comma-separated ManagedCertificate names',
+    },
+    {
+      key: 'ingress.gcp.kubernetes.io/pre-shared-cert',
+      label: 'Pre-shared Certificates',
+      type: 'text',
+      description: 'SSL certificates already uploaded to the project',
+      placeholder: 'web-cert-2024',
+    },
+    {
+      key: 'networking.gke.io/v1beta1.FrontendConfig',
+      label: 'FrontendConfig',
+      type: 'text',
+      description: 'FrontendConfig resource with HTTPS redirect and SSL policy settings',
+      placeholder: 'web-frontend-config',
+    },
+  ],
+};
+
+const APPGW = 'appgw.ingress.kubernetes.io/';
+
+const agicProfile: IngressControllerProfile = {
+  id: 'agic',
+  name: 'Azure Application Gateway',
+  ingressClassName: 'azure-application-gateway',
+  annotationPrefixes: [APPGW],
+  fields: [
+    {
+      key: `${APPGW}backend-path-prefix`,
+      label: 'Backend Path Prefix',
+      type: 'text',
+      description: 'Prefix the matched path is rewritten to',
+      placeholder: '/',
+      validate: isPath,
+    },
+    {
+      key: `${APPGW}ssl-redirect`,
+      label: 'SSL Redirect',
+      type: 'select',
+      description: 'Redirect HTTP to HTTPS',
+      options: BOOLEAN_OPTIONS,
+      validate: isBoolean,
+    },
+    {
+      key: `${APPGW}appgw-ssl-certificate`,
+      label: 'Gateway SSL Certificate',
+      type: 'text',
+      description: 'Certificate already installed on the Application Gateway',
+      placeholder: 'web-cert',
+    },
+    {
+      key: `${APPGW}backend-protocol`,
+      label: 'Backend Protocol',
+      type: 'select',
+      description: 'Protocol used to talk to the pods',
+      options: [
+        { label: 'Controller default (http)', value: '' },
+        { label: 'http', value: 'http' },
+        { label: 'https', value: 'https' },
+      ],
+      validate: isOneOf(['http', 'https']),
+    },
+    {
+      key: `${APPGW}request-timeout`,
+      label: 'Request Timeout (s)',
+      type: 'number',
+      description: 'Seconds to wait for a backend response',
+      placeholder: '30',
+      validate: isIntegerBetween(1, 86400),
+    },
+    {
+      key: `${APPGW}use-private-ip`,
+      label: 'Use Private IP',
+      type: 'select',
+      description: 'Expose the routes on the gateway\'s private frontend IP',
+      options: BOOLEAN_OPTIONS,
+      validate: isBoolean,
+    },
+    {
+      key: `${APPGW}health-probe-path`,
+      label: 'Health Probe Path',
+      type: 'text',
+      description: 'Path the gateway probes on the backends',
+      placeholder: '/healthz',
+      validate: isPath,
+    },
+  ],
+};
+
+// Register all default profiles
+registerIngressControllerProfile(nginxProfile);
+registerIngressControllerProfile(traefikProfile);
+registerIngressControllerProfile(haproxyProfile);
+registerIngressControllerProfile(albProfile);
+registerIngressControllerProfile(gceProfile);
+registerIngressControllerProfile(agicProfile);
@@ -0,0 +1,394 @@
+import { Edge, Node } from 'reactflow';
+import { IngressNodeData, IngressPath, IngressRule, K8sNodeData, ServiceNodeData } from '@/types/k8s';
+import { getIngressControllerProfile } from './ingressControllerProfiles';
+import { getNodeNamespace } from './namespaces';
+
+/**
+ * Ingress rules and the Services their paths route to. A path is bound to
+ * one of the Ingress's outgoing edges by naming that edge's Service, and the
+ * canvas labels each edge with the hosts and paths it serves. The route
+ * tester resolves URLs against the Ingresses of one class with the Ingress
+ * API's matching rules.
+ */
+
+// Edge labels list this many routes before summarizing the rest
+const MAX_LABEL_ROUTES = 3;
+
+/**
+ * Services an Ingress is connected to, in edge order
+ */
+export function getIngressServices(ingressId: string, nodes: Node<K8sNodeData>[], edges: Edge[]): ServiceNodeData[] {
+  return edges
+    .filter(e => e.source === ingressId)
+    .map(e => nodes.find(n => n.id === e.target))
+    .filter((n): n is Node<K8sNodeData> => n?.data.type === 'service')
+    .map(n => n.data as ServiceNodeData);
+}
+
+/**
+ * Ingress nodes connected to a Service
+ */
+export function getConnectedIngresses(serviceId: string, nodes: Node<K8sNodeData>[], edges: Edge[]): Node<K8sNodeData>[] {
+  const sourceIds = new Set(edges.filter(e => e.target === serviceId).map(e => e.source));
+  return nodes.filter(n => sourceIds.has(n.id) && n.data.type === 'ingress');
+}
+
+/**
+ * A path as users read it, e.g. "api.example.com/v1"; rules without a host
+ * show "*" in its place
+ */
+export function formatIngressRoute(host: string, path: string): string {
+  return `${host || '*'}${path.startsWith('/') ? '' : '/'}${path}`;
+}
+
+/**
+ * Routes an Ingress sends to a Service
+ */
+export function getServiceRoutes(data: IngressNodeData, serviceName: string): string[] {
+  return data.rules.flatMap(rule => rule.paths
+    .filter(p => p.serviceName === serviceName)
+    .map(p => formatIngressRoute(rule.host, p.path)));
+}
+
+/**
+ * Labels for Ingress → Service edges, keyed by edge id. Edges no path is
+ * bound to get none.
+ */
+export function getIngressEdgeLabels(nodes: Node<K8sNodeData>[], edges: Edge[]): Map<string, string> {
+  const labels = new Map<string, string>();
+  edges.forEach(edge => {
+    const source = nodes.find(n => n.id === edge.source);
+    const target = nodes.find(n => n.id === edge.target);
+    if (source?.data.type !== 'ingress' || target?.data.type !== 'service') return;
+
+    const routes = getServiceRoutes(source.data, target.data.serviceName);
+    if (routes.length === 0) return;
+    labels.set(edge.id, routes.length > MAX_LABEL_ROUTES
+      ? `${routes.slice(0, MAX_LABEL_ROUTES - 1).join(', ')} +${routes.length - MAX_LABEL_ROUTES + 1} more`
+      : routes.join(', '));
+  });
+  return labels;
+}
+
+function mapPaths(rules: IngressRule[], update: (path: IngressPath) => IngressPath): IngressRule[] {
+  return rules.map(rule => ({ ...rule, paths: rule.paths.map(update) }));
+}
+
+/**
+ * Binds a newly connected Service to the first path that has no backend yet.
+ * Returns null when every path already has one.
+ */
+export function bindIngressPath(data: IngressNodeData, service: ServiceNodeData): IngressRule[] | null {
+  const unbound = data.rules.flatMap(rule => rule.paths).find(p => !p.serviceName);
+  if (!unbound) return null;
+  return mapPaths(data.rules, p => (p === unbound ? { ...p, serviceName: service.serviceName, servicePort: service.port } : p));
+}
+
+/**
+ * Points the paths that named a Service at its new name. Returns null when no
+ * path routes to it, or while the name is cleared to be retyped.
+ */
+export function renameIngressBackend(data: IngressNodeData, from: string, to: string): IngressRule[] | null {
+  if (!from || !to || !data.rules.some(rule => rule.paths.some(p => p.serviceName === from))) return null;
+  return mapPaths(data.rules, p => (p.serviceName === from ? { ...p, serviceName: to } : p));
+}
+
+// Ingress data as saved before rules and TLS blocks existed
+interface LegacyIngressData extends Omit<IngressNodeData, 'rules' | 'tls'> {
+  host: string;
+  paths: IngressPath[];
+  enableTLS: boolean;
+  tlsSecretName: string;
+}
+
+/**
+ * Converts one host, a flat path list and a TLS switch into a single rule and
+ * TLS block. Paths without a Service get the one the generator used to fill
+ * in: the first connected Service, or one "/" path per Service when there
+ * were no paths at all.
+ */
+function upgradeIngressData(data: LegacyIngressData, connectedServices: ServiceNodeData[]): IngressNodeData {
+  const { host = '', paths = [], enableTLS, tlsSecretName, ...rest } = data;
+  const [fallback] = connectedServices;
+  const upgradedPaths: IngressPath[] = paths.length > 0
+    ? paths.map(p => ({
+      ...p,
+      serviceName: p.serviceName || fallback?.serviceName || '',
+      servicePort: p.servicePort || fallback?.port || 80,
+    }))
+    : connectedServices.map(s => ({ path: '/', pathType: 'Prefix', serviceName: s.serviceName, servicePort: s.port }));
+  return {
+    ...rest,
+    rules: [{ host, paths: upgradedPaths }],
+    tls: enableTLS && tlsSecretName ? [{ hosts: host ? [host] : [], secretName: tlsSecretName }] : [],
+  };
+}
+
+/**
+ * Brings Ingress nodes saved by older releases up to the rules model. Nodes
+ * that already have rules are returned as they are.
+ */
+export function upgradeIngressNodes(nodes: Node<K8sNodeData>[], edges: Edge[]): Node<K8sNodeData>[] {
+  return nodes.map(node => {
+    if (node.data.type !== 'ingress' || Array.isArray(node.data.rules)) return node;
+    const data = node.data as unknown as LegacyIngressData;
+    return { ...node, data: upgradeIngressData(data, getIngressServices(node.id, nodes, edges)) };
+  });
+}
+
+// ============================================================================
+// ROUTE RESOLUTION
+// ============================================================================
+
+// Every Ingress path in the diagram, with the rule it belongs to
+interface IngressRoute {
+  ingress: Node<K8sNodeData>;
+  host: string;
+  path: IngressPath;
+}
+
+export interface RouteCandidate {
+  ingressId: string;
+  ingressLabel: string;
+  host: string;
+  path: IngressPath;
+  // Why the path lost to the match; unset for the match itself
+  reason?: string;
+}
+
+export interface RouteMatch extends RouteCandidate {
+  // Ingress → Service → workloads, for highlighting on the canvas
+  nodeIds: string[];
+  edgeIds: string[];
+  // Set when the chain stops short of a workload
+  warning?: string;
+}
+
+export interface RouteTestResult {
+  host: string;
+  path: string;
+  match: RouteMatch | null;
+  // Every path that matches the request, best first
+  candidates: RouteCandidate[];
+  // Why the request is not routed, or how the winner was picked
+  notes: string[];
+}
+
+const WORKLOAD_TYPES = ['deployment', 'statefulset', 'daemonset', 'pod'];
+
+// Characters that only mean something to controllers matching paths as regexes
+const REGEX_CHARACTERS = /[()[\]{}*+?|^$\\]/;
+
+/**
+ * Ingress classes in the diagram, in order of appearance. Each class is
+ * served by its own controller, which only sees the Ingresses of that class.
+ */
+export function getIngressClasses(nodes: Node<K8sNodeData>[]): string[] {
+  return [...new Set(nodes
+    .filter(n => n.data.type === 'ingress')
+    .map(n => (n.data as IngressNodeData).ingressClassName || ''))];
+}
+
+/**
+ * A class as the route tester shows it, with the controller its profile names
+ */
+export function describeIngressClass(ingressClassName: string): string {
+  if (!ingressClassName) return 'the default class';
+  const profile = getIngressControllerProfile(ingressClassName);
+  return profile ? `${ingressClassName} (${profile.name})` : ingressClassName;
+}
+
+/**
+ * Paths of every Ingress, or only of those a class's controller serves
+ */
+function getIngressRoutes(nodes: Node<K8sNodeData>[], ingressClassName?: string): IngressRoute[] {
+  return nodes
+    .filter(n => n.data.type === 'ingress')
+    .filter(n => ingressClassName === undefined || ((n.data as IngressNodeData).ingressClassName || '') === ingressClassName)
+    .flatMap(ingress => (ingress.data as IngressNodeData).rules
+      .flatMap(rule => rule.paths.map(path => ({ ingress, host: rule.host.toLowerCase(), path }))));
+}
+
+const pathElements = (path: string) => path.split('/').filter(Boolean);
+
+// Prefix paths match element-wise, so "/foo/" and "/foo" are the same path
+const normalizePath = (path: IngressPath) => (path.pathType === 'Exact' ? path.path : `/${pathElements(path.path).join('/')}`);
+
+/**
+ * How specifically a rule's host matches a request: 0 for the same host,
+ * 1 for a wildcard, 2 for a rule without a host, null for no match. A
+ * wildcard covers exactly one DNS label, so *.example.com matches
+ * api.example.com but neither example.com nor a.b.example.com.
+ */
+function hostTier(ruleHost: string, host: string): number | null {
+  if (!ruleHost) return 2;
+  if (ruleHost === host) return 0;
+  if (ruleHost.startsWith('*.')) {
+    const [label, ...rest] = host.split('.');
+    return label && rest.join('.') === ruleHost.slice(2) ? 1 : null;
+  }
+  return null;
+}
+
+/**
+ * Length of the part of the request path an Ingress path matches, or null.
+ * ImplementationSpecific is matched like Prefix, as most controllers do.
+ */
+function matchLength(path: IngressPath, requestPath: string): number | null {
+  if (path.pathType === 'Exact') return path.path === requestPath ? path.path.length : null;
+  const prefix = pathElements(path.path);
+  const request = pathElements(requestPath);
+  return prefix.every((element, i) => request[i] === element) ? normalizePath(path).length : null;
+}
+
+const PATH_TYPE_ORDER: Record<IngressPath['pathType'], number> = { Exact: 0, Prefix: 1, ImplementationSpecific: 2 };
+
+function toCandidate({ ingress, host, path }: IngressRoute): RouteCandidate {
+  return { ingressId: ingress.id, ingressLabel: ingress.data.label, host, path };
+}
+
+/**
+ * Follows a matched path to its Service and the workloads behind it
+ */
+function traceBackend(route: IngressRoute, nodes: Node<K8sNodeData>[], edges: Edge[]): RouteMatch {
+  const match: RouteMatch = { ...toCandidate(route), nodeIds: [route.ingress.id], edgeIds: [] };
+  const { serviceName } = route.path;
+  if (!serviceName) return { ...match, warning: 'The path has no backend Service, so it is left out of the manifest' };
+
+  const namespace = getNodeNamespace(route.ingress, nodes);
+  const connected = edges
+    .filter(e => e.source === route.ingress.id)
+    .find(e => {
+      const target = nodes.find(n => n.id === e.target);
+      return target?.data.type === 'service' && target.data.serviceName === serviceName;
+    });
+  const service = connected
+    ? nodes.find(n => n.id === connected.target)
+    : nodes.find(n => n.data.type === 'service' && n.data.serviceName === serviceName && getNodeNamespace(n, nodes) === namespace);
+  if (!service) return { ...match, warning: `Service "${serviceName}" does not exist${namespace ? ` in namespace ${namespace}` : ''}` };
+
+  match.nodeIds.push(service.id);
+  if (connected) match.edgeIds.push(connected.id);
+  edges
+    .filter(e => e.source === service.id)
+    .forEach(e => {
+      const workload = nodes.find(n => n.id === e.target);
+      if (workload && WORKLOAD_TYPES.includes(workload.data.type)) {
+        match.nodeIds.push(workload.id);
+        match.edgeIds.push(e.id);
+      }
+    });
+  if (match.nodeIds.length === 2) return { ...match, warning: `Service "${serviceName}" selects no workload in the diagram` };
+  return match;
+}
+
+/**
+ * Resolves a URL such as "shop.example.com/api/v1" the way the Ingress API
+ * specifies: rules for the exact host win over wildcard hosts, which win
+ * over rules without a host; among their paths the longest match wins, and
+ * on equal length Exact beats Prefix. Prefix paths match whole path
+ * elements, so /api matches /api/v1 but not /apiv1. With a class, only the
+ * Ingresses its controller serves take part.
+ */
+export function resolveIngressRoute(
+  nodes: Node<K8sNodeData>[],
+  edges: Edge[],
+  url: string,
+  ingressClassName?: string
+): RouteTestResult | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(url) ? url : `http://${url}`);
+  } catch (error) {
+    return null;
+  }
+  const host = parsed.hostname.toLowerCase();
+  const path = parsed.pathname || '/';
+  const result: RouteTestResult = { host, path, match: null, candidates: [], notes: [] };
+
+  if (ingressClassName !== undefined) {
+    const others = getIngressClasses(nodes).filter(c => c !== ingressClassName
+      && getIngressRoutes(nodes, c).some(route => hostTier(route.host, host) !== null));
+    if (others.length > 0) {
+      result.notes.push(`Ingresses of ${others.map(describeIngressClass).join(', ')} also cover ${host}; they are served by another controller`);
+    }
+  }
+
+  const routes = getIngressRoutes(nodes, ingressClassName)
+    .map(route => ({ route, tier: hostTier(route.host, host) }))
+    .filter((r): r is { route: IngressRoute; tier: number } => r.tier !== null);
+  if (routes.length === 0) {
+    result.notes.push(`No Ingress rule covers host ${host}; the controller's default backend answers (usually 404)`);
+    return result;
+  }
+
+  // Only the most specific host rules are considered, even when none of their paths match
+  const tier = Math.min(...routes.map(r => r.tier));
+  if (tier > 0) {
+    result.notes.push(tier === 1 ? `No rule names ${host}; wildcard host rules apply` : `No rule names ${host}; rules without a host apply`);
+  }
+  const matching = routes
+    .filter(r => r.tier === tier)
+    .map(({ route }) => ({ route, length: matchLength(route.path, path) }))
+    .filter((m): m is { route: IngressRoute; length: number } => m.length !== null)
+    .sort((a, b) => b.length - a.length || PATH_TYPE_ORDER[a.route.path.pathType] - PATH_TYPE_ORDER[b.route.path.pathType]);
+  if (matching.length === 0) {
+    result.notes.push(`No path for ${tier === 2 ? 'hostless rules' : routes.find(r => r.tier === tier)!.route.host} matches ${path}; the controller answers 404`);
+    return result;
+  }
+
+  const [best, runnerUp] = matching;
+  const bestType = best.route.path.pathType;
+  result.match = traceBackend(best.route, nodes, edges);
+  result.candidates = matching.map((m, i) => {
+    if (i === 0) return toCandidate(m.route);
+    const reason = m.length < best.length
+      ? `${best.route.path.path} is a longer match`
+      : bestType === 'Exact' && m.route.path.pathType !== 'Exact' ? 'Exact wins over Prefix' : 'Same path as the match, which comes first';
+    return { ...toCandidate(m.route), reason };
+  });
+  if (runnerUp && runnerUp.length === best.length && (bestType !== 'Exact' || runnerUp.route.path.pathType === 'Exact')) {
+    const other = runnerUp.route.ingress.id === best.route.ingress.id ? 'Another path of the same Ingress' : runnerUp.route.ingress.data.label;
+    result.notes.push(`${other} serves the same path; which one wins depends on the controller`);
+  }
+  if (best.route.path.pathType === 'ImplementationSpecific') {
+    result.notes.push('ImplementationSpecific is matched like Prefix here; the controller may match it differently, e.g. as a regex');
+  }
+  return result;
+}
+
+export interface UnreachablePath {
+  nodeId: string;
+  message: string;
+}
+
+/**
+ * Paths no request can reach: ones that don't start with "/", Exact and
+ * Prefix paths written as regexes, and paths another Ingress of the same
+ * class already serves for the same host. The first in diagram order is
+ * taken as the one that serves.
+ */
+export function findUnreachablePaths(nodes: Node<K8sNodeData>[]): UnreachablePath[] {
+  const served = new Map<string, IngressRoute>();
+  return getIngressRoutes(nodes).flatMap(route => {
+    const { ingress, host, path } = route;
+    const label = `${ingress.data.label} ${formatIngressRoute(host, path.path)}`;
+    if (!path.path.startsWith('/') && path.pathType !== 'ImplementationSpecific') {
+      return [{ nodeId: ingress.id, message: `${label} does not start with "/", so no request matches it` }];
+    }
+    if (path.pathType !== 'ImplementationSpecific' && REGEX_CHARACTERS.test(path.path)) {
+      return [{ nodeId: ingress.id, message: `${label} is matched literally as ${path.pathType}; regex paths need ImplementationSpecific` }];
+    }
+
+    // Prefix and ImplementationSpecific both match as prefixes
+    const ingressClassName = (ingress.data as IngressNodeData).ingressClassName || '';
+    const key = `${ingressClassName} ${host} ${path.pathType === 'Exact' ? 'Exact' : 'Prefix'} ${normalizePath(path)}`;
+    const first = served.get(key);
+    if (!first) {
+      served.set(key, route);
+      return [];
+    }
+    const by = first.ingress.id === ingress.id ? 'an earlier path of the same Ingress' : first.ingress.data.label;
+    return [{ nodeId: ingress.id, message: `${label} is shadowed by ${by}, which serves the same host and path` }];
+  });
+}
@@ -0,0 +1,251 @@
+import { K8sManifest } from '@/types/k8s';
+import versions from '@/schemas/kubernetes/versions.json';
+import { YamlObject } from './manifests';
+
+/**
+ * Kubernetes versions a diagram can target, which apiVersion of each kind
+ * they serve, and upgrades from apiVersions that are deprecated or removed
+ */
+
+// Only the identifying fields are read; everything else is carried along as is
+export type KubernetesDocument = Pick<K8sManifest, 'apiVersion' | 'kind' | 'metadata'>;
+
+export interface KubernetesResourceVersion {
+  apiVersion: string;
+  kind: string;
+  // Definition name in definitions.json; missing for long-removed apiVersions
+  definition?: string;
+  // First Kubernetes version that serves this apiVersion
+  introducedIn?: string;
+  // First Kubernetes version that no longer serves this apiVersion
+  removedIn?: string;
+}
+
+/**
+ * An imported document whose apiVersion can be moved to the one the target
+ * version prefers
+ */
+export interface ApiVersionUpgrade {
+  documentIndex: number;
+  kind: string;
+  name: string;
+  from: string;
+  to: string;
+  removedIn: string;
+  // Field changes the upgrade makes besides the apiVersion
+  changes: string[];
+}
+
+export const KUBERNETES_VERSIONS: string[] = versions.versions;
+export const DEFAULT_KUBERNETES_VERSION: string = versions.default;
+export const KUBERNETES_RESOURCES: KubernetesResourceVersion[] = versions.resources;
+
+/**
+ * Compares two "major.minor" versions
+ */
+export function compareKubernetesVersions(a: string, b: string): number {
+  const [aMajor, aMinor] = a.split('.').map(Number);
+  const [bMajor, bMinor] = b.split('.').map(Number);
+  return aMajor - bMajor || aMinor - bMinor;
+}
+
+export function isServedIn(resource: KubernetesResourceVersion, version: string): boolean {
+  return (!resource.introducedIn || compareKubernetesVersions(version, resource.introducedIn) >= 0)
+    && (!resource.removedIn || compareKubernetesVersions(version, resource.removedIn) < 0);
+}
+
+/**
+ * The apiVersion generated manifests use for a kind: the first one in
+ * versions.json that the target version serves
+ */
+export function getPreferredApiVersion(kind: string, version: string = DEFAULT_KUBERNETES_VERSION): string | undefined {
+  return KUBERNETES_RESOURCES.find(r => r.kind === kind && r.definition && isServedIn(r, version))?.apiVersion;
+}
+
+type Migration = (doc: YamlObject) => string[];
+
+const INGRESS_CLASS_ANNOTATION = 'kubernetes.io/ingress.class';
+
+function convertIngressBackend(backend: YamlObject): YamlObject {
+  const { serviceName, servicePort, ...rest } = backend;
+  const port = /^\d+$/.test(String(servicePort)) ? { number: Number(servicePort) } : { name: servicePort };
+  return { ...rest, service: { name: serviceName, port } };
+}
+
+/**
+ * extensions/v1beta1 and networking.k8s.io/v1beta1 → networking.k8s.io/v1
+ */
+const migrateIngress: Migration = (doc) => {
+  const changes: string[] = [];
+  const spec = (doc.spec || {}) as YamlObject;
+
+  if (spec.backend) {
+    const { backend, ...rest } = spec;
+    doc.spec = { defaultBackend: convertIngressBackend(backend as YamlObject), ...rest };
+    changes.push('spec.backend → spec.defaultBackend');
+  }
+
+  let backends = 0;
+  let pathTypes = 0;
+  ((spec.rules || []) as YamlObject[]).forEach(rule => {
+    const paths = ((rule?.http as YamlObject | undefined)?.paths || []) as YamlObject[];
+    paths.filter(Boolean).forEach(path => {
+      const backend = path.backend as YamlObject | undefined;
+      if (backend && 'serviceName' in backend) {
+        path.backend = convertIngressBackend(backend);
+        backends++;
+      }
+      if (!path.pathType) {
+        path.pathType = 'ImplementationSpecific';
+        pathTypes++;
+      }
+    });
+  });
+  if (backends > 0) {
+    changes.push(`${backends} path backend${backends === 1 ? '' : 's'}: serviceName/servicePort → service.name/service.port`);
+  }
+  if (pathTypes > 0) {
+    changes.push(`${pathTypes} path${pathTypes === 1 ? '' : 's'} without a pathType set to ImplementationSpecific`);
+  }
+
+  const metadata = doc.metadata as YamlObject;
+  const annotations = metadata.annotations as Record<string, string> | undefined;
+  const currentSpec = doc.spec as YamlObject;
+  if (annotations?.[INGRESS_CLASS_ANNOTATION] && !currentSpec.ingressClassName) {
+    const { [INGRESS_CLASS_ANNOTATION]: ingressClass, ...rest } = annotations;
+    metadata.annotations = rest;
+    currentSpec.ingressClassName = ingressClass;
+    changes.push(`${INGRESS_CLASS_ANNOTATION} annotation → spec.ingressClassName`);
+  }
+  return changes;
+};
+
+/**
+ * apps/v1beta1, apps/v1beta2 and extensions/v1beta1 workloads → apps/v1
+ */
+const migrateWorkload: Migration = (doc) => {
+  const changes: string[] = [];
+  const spec = (doc.spec || {}) as YamlObject;
+  const templateLabels = ((spec.template as YamlObject | undefined)?.metadata as YamlObject | undefined)?.labels;
+
+  // apps/v1 no longer defaults the selector to the pod template labels
+  if (!spec.selector && templateLabels) {
+    spec.selector = { matchLabels: templateLabels };
+    changes.push('spec.selector.matchLabels added from the pod template labels');
+  }
+  ['rollbackTo', 'templateGeneration'].forEach(field => {
+    if (field in spec) {
+      delete spec[field];
+      changes.push(`spec.${field} removed`);
+    }
+  });
+  return changes;
+};
+
+function convertMetricTarget(value: unknown, averageValue: unknown, averageUtilization?: unknown): YamlObject {
+  if (averageUtilization !== undefined) return { type: 'Utilization', averageUtilization };
+  if (averageValue !== undefined) return { type: 'AverageValue', averageValue };
+  return { type: 'Value', value };
+}
+
+/**
+ * autoscaling/v2beta1 → autoscaling/v2: metric targets moved into target objects
+ */
+const migrateHPAv2beta1: Migration = (doc) => {
+  const spec = (doc.spec || {}) as YamlObject;
+  const metrics = (spec.metrics || []) as YamlObject[];
+  if (metrics.length === 0) return [];
+
+  spec.metrics = metrics.map(metric => {
+    switch (metric.type) {
+      case 'Resource': {
+        const { name, targetAverageUtilization, targetAverageValue } = (metric.resource || {}) as YamlObject;
+        return { type: 'Resource', resource: { name, target: convertMetricTarget(undefined, targetAverageValue, targetAverageUtilization) } };
+      }
+      case 'Pods': {
+        const { metricName, selector, targetAverageValue } = (metric.pods || {}) as YamlObject;
+        return {
+          type: 'Pods',
+          pods: { metric: { name: metricName, ...(selector && { selector }) }, target: convertMetricTarget(undefined, targetAverageValue) },
+        };
+      }
+      case 'Object': {
+        const { target, metricName, selector, targetValue, averageValue } = (metric.object || {}) as YamlObject;
+        return {
+          type: 'Object',
+          object: {
+            describedObject: target,
+            metric: { name: metricName, ...(selector && { selector }) },
+            target: convertMetricTarget(targetValue, averageValue),
+          },
+        };
+      }
+      case 'External': {
+        const { metricName, metricSelector, targetValue, targetAverageValue } = (metric.external || {}) as YamlObject;
+        return {
+          type: 'External',
+          external: {
+            metric: { name: metricName, ...(metricSelector && { selector: metricSelector }) },
+            target: convertMetricTarget(targetValue, targetAverageValue),
+          },
+        };
+      }
+      default:
+        return metric;
+    }
+  });
+  return [`${metrics.length} metric${metrics.length === 1 ? '' : 's'}: target fields moved into metric/target objects`];
+};
+
+const unchanged: Migration = () => [];
+
+// Keyed by deprecated apiVersion and kind; each migration rewrites the document in place
+const MIGRATIONS: Record<string, Migration> = {
+  'extensions/v1beta1/Ingress': migrateIngress,
+  'networking.k8s.io/v1beta1/Ingress': migrateIngress,
+  'apps/v1beta1/Deployment': migrateWorkload,
+  'apps/v1beta2/Deployment': migrateWorkload,
+  'extensions/v1beta1/Deployment': migrateWorkload,
+  'apps/v1beta1/StatefulSet': migrateWorkload,
+  'apps/v1beta2/StatefulSet': migrateWorkload,
+  'apps/v1beta2/DaemonSet': migrateWorkload,
+  'extensions/v1beta1/DaemonSet': migrateWorkload,
+  'extensions/v1beta1/NetworkPolicy': unchanged,
+  'batch/v1beta1/CronJob': unchanged,
+  'autoscaling/v2beta1/HorizontalPodAutoscaler': migrateHPAv2beta1,
+  'autoscaling/v2beta2/HorizontalPodAutoscaler': unchanged,
+};
+
+/**
+ * Upgrades a document from a deprecated apiVersion to the one the target
+ * version prefers. Returns null when the apiVersion is current, or when the
+ * target version still prefers it (e.g. batch/v1beta1 CronJob on 1.20).
+ */
+export function upgradeApiVersion<T extends KubernetesDocument>(
+  doc: T,
+  version: string = DEFAULT_KUBERNETES_VERSION
+): { manifest: T; upgrade: Omit<ApiVersionUpgrade, 'documentIndex'> } | null {
+  const resource = KUBERNETES_RESOURCES.find(r => r.apiVersion === doc.apiVersion && r.kind === doc.kind);
+  const migrate = MIGRATIONS[`${doc.apiVersion}/${doc.kind}`];
+  if (!resource?.removedIn || !migrate) return null;
+
+  const to = getPreferredApiVersion(doc.kind, version);
+  if (!to || to === doc.apiVersion) return null;
+
+  const manifest = structuredClone(doc);
+  manifest.metadata = manifest.metadata || { name: '' };
+  const changes = migrate(manifest as unknown as YamlObject);
+  manifest.apiVersion = to;
+
+  return {
+    manifest,
+    upgrade: {
+      kind: doc.kind,
+      name: doc.metadata?.name || '',
+      from: doc.apiVersion,
+      to,
+      removedIn: resource.removedIn,
+      changes,
+    },
+  };
+}
@@ -0,0 +1,173 @@
+import * as yaml from 'js-yaml';
+import { DiagramEnvironments, EnvironmentField, GeneratedManifests, K8sManifest } from '@/types/k8s';
+import { manifestToYaml } from './yamlGenerator';
+import {
+  YamlObject,
+  orderedManifests,
+  manifestKey,
+  getPodSpecPath,
+  getMainContainer,
+  getIngressHosts,
+  manifestFileName,
+} from './manifests';
+
+/**
+ * A resource field that can differ between environments
+ */
+export interface EnvironmentFieldCandidate {
+  id: string;
+  kind: string;
+  name: string;
+  namespace?: string;
+  field: EnvironmentField;
+  baseValue: string;
+}
+
+interface JsonPatchOperation {
+  op: 'replace';
+  path: string;
+  value: string | number;
+}
+
+export const ENVIRONMENT_FIELD_LABELS: Record<EnvironmentField, string> = {
+  replicas: 'Replicas',
+  host: 'Host',
+  imageTag: 'Image tag',
+};
+
+export const ENVIRONMENT_NAME_PATTERN = /^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/;
+
+const KUSTOMIZATION_HEADER = {
+  apiVersion: 'kustomize.config.k8s.io/v1beta1',
+  kind: 'Kustomization',
+};
+
+/**
+ * Splits an image reference into repository and tag, ignoring the colon of a
+ * registry port (registry:5000/app)
+ */
+function splitImage(image: string): { repository: string; tag: string } {
+  const digestIndex = image.indexOf('@');
+  const ref = digestIndex >= 0 ? image.slice(0, digestIndex) : image;
+  const tagIndex = ref.lastIndexOf(':');
+  if (tagIndex > ref.lastIndexOf('/')) {
+    return { repository: ref.slice(0, tagIndex), tag: ref.slice(tagIndex + 1) };
+  }
+  return { repository: ref, tag: 'latest' };
+}
+
+/**
+ * Lists the replicas, ingress hosts and image tags that overlays can patch
+ */
+export function findEnvironmentFieldCandidates(manifests: GeneratedManifests): EnvironmentFieldCandidate[] {
+  const candidates: EnvironmentFieldCandidate[] = [];
+
+  orderedManifests(manifests).forEach(manifest => {
+    const { name, namespace } = manifest.metadata;
+    // Further hosts of an Ingress get their own id: host2, host3...
+    const add = (field: EnvironmentField, baseValue: unknown, idField: string = field) => {
+      candidates.push({
+        id: `${manifestKey(manifest)}.${idField}`,
+        kind: manifest.kind,
+        name,
+        namespace,
+        field,
+        baseValue: String(baseValue ?? ''),
+      });
+    };
+
+    if (manifest.kind === 'Deployment' || manifest.kind === 'StatefulSet') {
+      add('replicas', (manifest.spec as YamlObject).replicas);
+    }
+    const container = getMainContainer(manifest);
+    if (container) {
+      add('imageTag', splitImage(String(container.image)).tag);
+    }
+    getIngressHosts(manifest).forEach((host, i) => add('host', host, i === 0 ? 'host' : `host${i + 1}`));
+  });
+
+  return candidates;
+}
+
+function buildPatchOperations(manifest: K8sManifest, candidate: EnvironmentFieldCandidate, value: string): JsonPatchOperation[] {
+  switch (candidate.field) {
+    case 'replicas': {
+      const replicas = parseInt(value, 10);
+      return isNaN(replicas) ? [] : [{ op: 'replace', path: '/spec/replicas', value: replicas }];
+    }
+    case 'imageTag': {
+      const image = String(getMainContainer(manifest)?.image);
+      return [{
+        op: 'replace',
+        path: `${getPodSpecPath(manifest.kind)}/containers/0/image`,
+        value: `${splitImage(image).repository}:${value}`,
+      }];
+    }
+    case 'host': {
+      const host = candidate.baseValue;
+      const operations: JsonPatchOperation[] = [];
+      const rules = ((manifest.spec as YamlObject).rules as YamlObject[] | undefined) || [];
+      rules.forEach((rule, i) => {
+        if (rule.host === host) operations.push({ op: 'replace', path: `/spec/rules/${i}/host`, value });
+      });
+      // The TLS certificate has to cover the new host as well; blocks without hosts use the default one
+      const tls = (manifest.spec as YamlObject).tls as { hosts?: string[] }[] | undefined;
+      tls?.forEach((entry, i) => entry.hosts?.forEach((h, j) => {
+        if (h === host) operations.push({ op: 'replace', path: `/spec/tls/${i}/hosts/${j}`, value });
+      }));
+      return operations;
+    }
+  }
+}
+
+function dumpKustomization(kustomization: YamlObject): string {
+  return yaml.dump({ ...KUSTOMIZATION_HEADER, ...kustomization }, { lineWidth: -1, noRefs: true, quotingType: '"' });
+}
+
+/**
+ * Builds a Kustomize layout: base/ holds every generated manifest, and each
+ * environment gets overlays/<name>/ with JSON patches for the fields marked
+ * as environment-specific. Fields left blank for an environment keep the base value.
+ */
+export function buildKustomizeExport(manifests: GeneratedManifests, environments: DiagramEnvironments): Record<string, string> {
+  const files: Record<string, string> = {};
+  const all = orderedManifests(manifests);
+
+  const usedFileNames = new Set<string>();
+  const resources = all.map(manifest => {
+    const fileName = manifestFileName(manifest, usedFileNames);
+    files[`base/${fileName}`] = `${manifestToYaml(manifest)}\n`;
+    return fileName;
+  });
+  files['base/kustomization.yaml'] = dumpKustomization({ resources });
+
+  const candidates = findEnvironmentFieldCandidates(manifests)
+    .filter(c => environments.overrides[c.id]);
+  const environmentNames = [...new Set(environments.names)].filter(name => ENVIRONMENT_NAME_PATTERN.test(name));
+
+  environmentNames.forEach(environment => {
+    const patches: YamlObject[] = [];
+    all.forEach(manifest => {
+      const { name, namespace } = manifest.metadata;
+      const operations = candidates
+        .filter(c => c.kind === manifest.kind && c.name === name && c.namespace === namespace)
+        .flatMap(c => {
+          const value = environments.overrides[c.id][environment]?.trim();
+          return value ? buildPatchOperations(manifest, c, value) : [];
+        });
+      if (operations.length === 0) return;
+
+      patches.push({
+        target: { kind: manifest.kind, name, ...(namespace && { namespace }) },
+        patch: yaml.dump(operations, { lineWidth: -1, quotingType: '"' }),
+      });
+    });
+
+    files[`overlays/${environment}/kustomization.yaml`] = dumpKustomization({
+      resources: ['../../base'],
+      ...(patches.length > 0 && { patches }),
+    });
+  });
+
+  return files;
+}
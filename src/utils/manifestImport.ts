@@ -0,0 +1,219 @@
+import * as yaml from 'js-yaml';
+import JSZip from 'jszip';
+import { KubernetesDocument } from './kubernetesVersions';
+import { isSupportedKind } from './yamlParser';
+import { GENERATED_ONLY_KINDS } from './yamlSync';
+
+/**
+ * Reads many manifests at once (a picked or dropped folder, a ZIP like the
+ * one the YAML panel exports, `kubectl get -o json` List output) into one
+ * multi-document YAML text for the parser, and records what was recognized
+ * and what was skipped and why.
+ */
+
+export interface ImportFile {
+  // Path inside the picked folder or ZIP, or just the file name
+  path: string;
+  file: Blob;
+}
+
+export interface SkippedImport {
+  // File the entry came from
+  source: string;
+  // Kind/name of the skipped document, when it could be read
+  resource?: string;
+  reason: string;
+}
+
+export interface ImportSummary {
+  // Manifest files read, counting each file inside a ZIP
+  files: number;
+  // Documents that became part of the import, by kind
+  recognized: Record<string, number>;
+  skipped: SkippedImport[];
+}
+
+export interface ManifestBundle {
+  // Shown in toasts and the summary, e.g. "manifests.zip" or "k8s/"
+  name: string;
+  // Recognized documents only; empty when nothing could be imported
+  yamlText: string;
+  summary: ImportSummary;
+}
+
+const MANIFEST_EXTENSIONS = ['.yaml', '.yml', '.json'];
+
+// Fields the API server fills in; `kubectl get` output carries them but manifests shouldn't
+const SERVER_METADATA = ['uid', 'resourceVersion', 'generation', 'creationTimestamp', 'managedFields', 'selfLink'];
+const SERVER_ANNOTATIONS = ['kubectl.kubernetes.io/last-applied-configuration', 'deployment.kubernetes.io/revision'];
+
+interface OwnerReference {
+  kind: string;
+  name: string;
+  controller?: boolean;
+}
+
+interface ImportedDocument extends KubernetesDocument {
+  metadata: KubernetesDocument['metadata'] & { ownerReferences?: OwnerReference[] };
+  items?: unknown[];
+  status?: unknown;
+  spec?: { template?: { metadata?: Record<string, unknown> } };
+}
+
+const hasExtension = (path: string, extensions: string[]) => extensions.some(ext => path.toLowerCase().endsWith(ext));
+
+// Finder and editor leftovers that nobody expects to see listed as skipped
+const isHidden = (path: string) => path.split('/').some(part => part.startsWith('.') || part === '__MACOSX');
+
+/**
+ * Files dropped on the canvas, with folders walked recursively. Entries have
+ * to be taken from the event before the first await.
+ */
+export async function readDroppedFiles(dataTransfer: DataTransfer): Promise<ImportFile[]> {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files).map(file => ({ path: file.name, file }));
+  }
+
+  const walk = async (entry: FileSystemEntry): Promise<ImportFile[]> => {
+    const path = entry.fullPath.replace(/^\//, '');
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+      return [{ path, file }];
+    }
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const children: FileSystemEntry[] = [];
+    // readEntries returns at most 100 entries per call, and an empty batch at the end
+    for (;;) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      if (batch.length === 0) break;
+      children.push(...batch);
+    }
+    return (await Promise.all(children.map(walk))).flat();
+  };
+  return (await Promise.all(entries.map(walk))).flat();
+}
+
+function bundleName(files: ImportFile[]): string {
+  if (files.length === 1) return files[0].path;
+  const roots = new Set(files.map(f => f.path.split('/')[0]));
+  const [root] = [...roots];
+  return roots.size === 1 && files.some(f => f.path.includes('/')) ? `${root}/` : `${files.length} files`;
+}
+
+/**
+ * Removes what a live object has on top of its manifest: status, server-set
+ * metadata and annotations such as kubectl's last-applied configuration
+ */
+function stripServerFields(doc: ImportedDocument): ImportedDocument {
+  const { status: _status, ...manifest } = doc;
+  const metadata = { ...manifest.metadata } as Record<string, unknown>;
+  SERVER_METADATA.forEach(field => delete metadata[field]);
+  const annotations = { ...(metadata.annotations as Record<string, string> | undefined) };
+  SERVER_ANNOTATIONS.forEach(key => delete annotations[key]);
+  if (Object.keys(annotations).length > 0) metadata.annotations = annotations;
+  else delete metadata.annotations;
+  const cleaned = metadata as unknown as ImportedDocument['metadata'];
+
+  const template = manifest.spec?.template;
+  if (template?.metadata && template.metadata.creationTimestamp === null) {
+    const { creationTimestamp: _creationTimestamp, ...templateMetadata } = template.metadata;
+    return { ...manifest, metadata: cleaned, spec: { ...manifest.spec, template: { ...template, metadata: templateMetadata } } };
+  }
+  return { ...manifest, metadata: cleaned };
+}
+
+// kubectl wraps `get` output for several objects in a List (or e.g. DeploymentList)
+function flattenLists(doc: unknown): unknown[] {
+  const list = doc as ImportedDocument | null;
+  if (list && typeof list === 'object' && list.kind?.endsWith('List') && Array.isArray(list.items)) {
+    return list.items.flatMap(flattenLists);
+  }
+  return [doc];
+}
+
+/**
+ * Why a document can't become part of the diagram, or null when it can
+ */
+function skipReason(doc: ImportedDocument): string | null {
+  const owner = doc.metadata?.ownerReferences?.find(ref => ref.controller);
+  if (owner) return `Managed by ${owner.kind}/${owner.name}, not a manifest of its own`;
+  if (GENERATED_ONLY_KINDS.includes(doc.kind)) return `${doc.kind} resources are generated from connections`;
+  if (!isSupportedKind(doc.kind)) return `${doc.kind} has no diagram node`;
+  return null;
+}
+
+/**
+ * Reads the picked or dropped files, unpacking ZIPs, into one import
+ */
+export async function readManifestFiles(files: ImportFile[]): Promise<ManifestBundle> {
+  const sources: { path: string; text: string }[] = [];
+  const skipped: SkippedImport[] = [];
+
+  for (const { path, file } of files) {
+    if (isHidden(path)) continue;
+    if (hasExtension(path, ['.zip'])) {
+      let zip: JSZip;
+      try {
+        zip = await JSZip.loadAsync(await file.arrayBuffer());
+      } catch (error) {
+        skipped.push({ source: path, reason: 'Not a readable ZIP archive' });
+        continue;
+      }
+      const entries = Object.values(zip.files)
+        .filter(entry => !entry.dir && !isHidden(entry.name))
+        .sort((a, b) => a.name.localeCompare(b.name));
+      for (const entry of entries) {
+        const entryPath = `${path}/${entry.name}`;
+        if (hasExtension(entry.name, MANIFEST_EXTENSIONS)) {
+          sources.push({ path: entryPath, text: await entry.async('string') });
+        } else {
+          skipped.push({ source: entryPath, reason: 'Not a YAML or JSON file' });
+        }
+      }
+    } else if (hasExtension(path, MANIFEST_EXTENSIONS)) {
+      sources.push({ path, text: await file.text() });
+    } else {
+      skipped.push({ source: path, reason: 'Not a YAML or JSON file' });
+    }
+  }
+
+  const recognized: Record<string, number> = {};
+  const documents: ImportedDocument[] = [];
+  sources.forEach(({ path, text }) => {
+    let loaded: unknown[];
+    try {
+      // JSON is valid YAML, so kubectl's JSON output goes through the same loader
+      loaded = yaml.loadAll(text);
+    } catch (error) {
+      const reason = (error as yaml.YAMLException).reason || (error as Error).message;
+      const line = (error as yaml.YAMLException).mark?.line;
+      skipped.push({ source: path, reason: `Syntax error${line !== undefined ? ` on line ${line + 1}` : ''}: ${reason}` });
+      return;
+    }
+
+    loaded.flatMap(flattenLists).forEach(value => {
+      if (value === null || value === undefined) return;
+      const doc = value as ImportedDocument;
+      if (typeof doc !== 'object' || !doc.kind || !doc.apiVersion) {
+        skipped.push({ source: path, reason: 'Not a Kubernetes object (no apiVersion or kind)' });
+        return;
+      }
+      const reason = skipReason(doc);
+      if (reason) {
+        skipped.push({ source: path, resource: `${doc.kind}/${doc.metadata?.name ?? '?'}`, reason });
+        return;
+      }
+      recognized[doc.kind] = (recognized[doc.kind] || 0) + 1;
+      documents.push(stripServerFields(doc));
+    });
+  });
+
+  return {
+    name: bundleName(files),
+    yamlText: documents.map(doc => yaml.dump(doc, { lineWidth: -1, noRefs: true, quotingType: '"' })).join('---\n'),
+    summary: { files: sources.length, recognized, skipped },
+  };
+}
@@ -0,0 +1,101 @@
+import { GeneratedManifests, K8sManifest } from '@/types/k8s';
+
+export type YamlObject = Record<string, unknown>;
+
+// Structural equality for plain YAML values
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return aKeys.length === bKeys.length
+    && aKeys.every(key => isDeepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
+
+/**
+ * Manifests in the order they would be applied, matching combineYamls
+ */
+export function orderedManifests(manifests: GeneratedManifests): K8sManifest[] {
+  return [
+    ...manifests.namespaces,
+    ...manifests.configmaps,
+    ...manifests.secrets,
+    ...manifests.pvcs,
+    ...manifests.pods,
+    ...manifests.deployments,
+    ...manifests.statefulsets,
+    ...manifests.daemonsets,
+    ...manifests.services,
+    ...manifests.ingresses,
+    ...manifests.jobs,
+    ...manifests.cronjobs,
+    ...manifests.hpas,
+    ...manifests.networkpolicies,
+  ];
+}
+
+/**
+ * Identifies a manifest the same way the YAML parser keys resources
+ */
+export function manifestKey(manifest: K8sManifest): string {
+  return `${manifest.kind}:${manifest.metadata.name}@${manifest.metadata.namespace || ''}`;
+}
+
+/**
+ * JSON pointer to the pod spec of a workload kind, or undefined for kinds that
+ * do not run pods
+ */
+export function getPodSpecPath(kind: string): string | undefined {
+  switch (kind) {
+    case 'Pod':
+      return '/spec';
+    case 'Deployment':
+    case 'StatefulSet':
+    case 'DaemonSet':
+    case 'Job':
+      return '/spec/template/spec';
+    case 'CronJob':
+      return '/spec/jobTemplate/spec/template/spec';
+    default:
+      return undefined;
+  }
+}
+
+function getPodSpec(manifest: K8sManifest): YamlObject | undefined {
+  const path = getPodSpecPath(manifest.kind);
+  if (!path) return undefined;
+  return path.split('/').slice(1)
+    .reduce<YamlObject | undefined>((obj, key) => obj?.[key] as YamlObject | undefined, manifest);
+}
+
+/**
+ * The first container of a workload, which the diagram node describes
+ */
+export function getMainContainer(manifest: K8sManifest): YamlObject | undefined {
+  return (getPodSpec(manifest)?.containers as YamlObject[] | undefined)?.[0];
+}
+
+/**
+ * The distinct hosts of an Ingress's rules, in rule order; rules without a
+ * host match every host and are left out
+ */
+export function getIngressHosts(manifest: K8sManifest): string[] {
+  if (manifest.kind !== 'Ingress') return [];
+  const rules = ((manifest.spec as YamlObject).rules as YamlObject[] | undefined) || [];
+  return [...new Set(rules.map(rule => rule.host).filter((host): host is string => typeof host === 'string' && host !== ''))];
+}
+
+/**
+ * File name for a manifest in an exported directory, e.g. deployment-web.yaml;
+ * numbered when two resources of a kind share a name across namespaces
+ */
+export function manifestFileName(manifest: K8sManifest, used: Set<string>): string {
+  const base = `${manifest.kind.toLowerCase()}-${manifest.metadata.name}`;
+  let fileName = `${base}.yaml`;
+  for (let i = 2; used.has(fileName); i++) {
+    fileName = `${base}-${i}.yaml`;
+  }
+  used.add(fileName);
+  return fileName;
+}
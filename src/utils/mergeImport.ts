@@ -0,0 +1,386 @@
+import * as yaml from 'js-yaml';
+import { Edge, Node } from 'reactflow';
+import { DiagramSettings, K8sNodeData, K8sNodeType, KeyValue, NamespaceNodeData } from '@/types/k8s';
+import { findResourceNode, getResourceName } from './diagramLint';
+import { KubernetesDocument } from './kubernetesVersions';
+import { orderedManifests } from './manifests';
+import { getNodeNamespace, sortNamespacesFirst } from './namespaces';
+import { generateManifestsFromGraph } from './yamlGenerator';
+import { ParsedGraph, parseYamlToGraph } from './yamlParser';
+
+/**
+ * Merges an imported graph (a YAML import or a library template) into the
+ * current diagram instead of replacing it. Resources of the same kind, name
+ * and namespace collide and are renamed, skipped or replaced one by one;
+ * imported resources land in matching Namespace containers or next to the
+ * existing content, and references between new and existing resources become
+ * connections.
+ */
+
+export type MergeResolution = 'rename' | 'skip' | 'replace';
+
+export interface MergeConflict {
+  importedId: string;
+  existingId: string;
+  type: K8sNodeType;
+  name: string;
+  namespace?: string;
+  // Free name the imported resource gets when renamed
+  renameTo: string;
+}
+
+export interface MergeResult {
+  nodes: Node<K8sNodeData>[];
+  edges: Edge[];
+  // Node each imported node ended up as; skipped ones map to the existing node
+  idMap: Map<string, string>;
+  added: number;
+  replaced: number;
+  skipped: number;
+  // Connections made between imported and existing resources
+  linked: number;
+}
+
+type ImportedGraph = Pick<ParsedGraph, 'nodes' | 'edges' | 'sourceDocuments'>;
+
+// Space between the existing content and what is merged in next to it
+const MERGE_GAP = 120;
+
+function nodeKey(node: Node<K8sNodeData>, nodes: Node<K8sNodeData>[]): string | undefined {
+  const name = getResourceName(node.data);
+  if (!name || node.data.type === 'namespace') return undefined;
+  return `${node.data.type}:${name}@${getNodeNamespace(node, nodes) || ''}`;
+}
+
+function withResourceName(data: K8sNodeData, name: string): K8sNodeData {
+  const previous = getResourceName(data);
+  // Labels that just repeat the name follow the rename
+  const label = data.label === previous ? name : data.label;
+  switch (data.type) {
+    case 'service':
+      return { ...data, label, serviceName: name };
+    case 'deployment':
+      return { ...data, label, deploymentName: name };
+    case 'sidecar':
+      return data;
+    default:
+      return { ...data, label, name } as K8sNodeData;
+  }
+}
+
+/**
+ * Imported resources that collide with existing ones, with the name a rename would use
+ */
+export function findMergeConflicts(existing: Node<K8sNodeData>[], imported: Node<K8sNodeData>[]): MergeConflict[] {
+  const existingByKey = new Map<string, Node<K8sNodeData>>();
+  existing.forEach(node => {
+    const key = nodeKey(node, existing);
+    if (key && !existingByKey.has(key)) existingByKey.set(key, node);
+  });
+  const taken = new Set([...existing.map(n => nodeKey(n, existing)), ...imported.map(n => nodeKey(n, imported))]);
+
+  return imported.flatMap(node => {
+    const key = nodeKey(node, imported);
+    const match = key && existingByKey.get(key);
+    if (!match) return [];
+    const name = getResourceName(node.data) ?? '';
+    const namespace = getNodeNamespace(node, imported);
+    let renameTo = name;
+    for (let i = 2; taken.has(`${node.data.type}:${renameTo}@${namespace || ''}`); i++) renameTo = `${name}-${i}`;
+    taken.add(`${node.data.type}:${renameTo}@${namespace || ''}`);
+    return [{ importedId: node.id, existingId: match.id, type: node.data.type, name, namespace, renameTo }];
+  });
+}
+
+function boundsOf(nodes: Node<K8sNodeData>[]) {
+  const topLevel = nodes.filter(n => !n.parentId);
+  if (topLevel.length === 0) return null;
+  const right = (n: Node<K8sNodeData>) => n.position.x + (n.width ?? (n.style?.width as number) ?? 200);
+  return {
+    minX: Math.min(...topLevel.map(n => n.position.x)),
+    minY: Math.min(...topLevel.map(n => n.position.y)),
+    maxX: Math.max(...topLevel.map(right)),
+  };
+}
+
+// Where manifests name another resource: the key holding the reference, its name field and the kind it names
+const PASSTHROUGH_REFERENCES: { key: string; field: string; type: K8sNodeType }[] = [
+  { key: 'configMapRef', field: 'name', type: 'configmap' },
+  { key: 'configMapKeyRef', field: 'name', type: 'configmap' },
+  { key: 'configMap', field: 'name', type: 'configmap' },
+  { key: 'secretRef', field: 'name', type: 'secret' },
+  { key: 'secretKeyRef', field: 'name', type: 'secret' },
+  { key: 'secret', field: 'secretName', type: 'secret' },
+  { key: 'persistentVolumeClaim', field: 'claimName', type: 'pvc' },
+  { key: 'service', field: 'name', type: 'service' },
+];
+
+/**
+ * Renames references kept in a passthrough layer, such as valueFrom env vars,
+ * ConfigMap, Secret and PVC volumes or an Ingress default backend
+ */
+function renamePassthroughReferences(value: unknown, renamed: (type: K8sNodeType, name: string) => string): unknown {
+  if (Array.isArray(value)) return value.map(item => renamePassthroughReferences(item, renamed));
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(Object.entries(value).map(([key, child]) => {
+    const reference = PASSTHROUGH_REFERENCES.find(r => r.key === key);
+    const target = child as Record<string, unknown> | null;
+    if (reference && target && typeof target === 'object' && typeof target[reference.field] === 'string') {
+      return [key, { ...target, [reference.field]: renamed(reference.type, target[reference.field] as string) }];
+    }
+    // A StatefulSet's governing Service
+    if (key === 'serviceName' && typeof child === 'string') return [key, renamed('service', child)];
+    return [key, renamePassthroughReferences(child, renamed)];
+  }));
+}
+
+// Workloads whose pods carry labels; label values that repeat such a workload's name follow its rename
+const LABELED_WORKLOADS: K8sNodeType[] = ['deployment', 'statefulset', 'daemonset'];
+
+// Keys whose value maps label keys to label values, in manifests and passthrough layers
+const LABEL_MAPS = ['labels', 'matchLabels', 'selector'];
+
+/**
+ * The value a pod label or selector takes when it repeats the old name of a
+ * renamed workload (app: web for a Deployment web renamed to web-2), so the
+ * renamed pods don't join the Services of the workload they collided with
+ */
+function relabeler(renames: Map<string, string>, namespace?: string) {
+  return (value: string) => LABELED_WORKLOADS
+    .map(type => renames.get(`${type}:${value}@${namespace || ''}`))
+    .find(Boolean) ?? value;
+}
+
+/**
+ * Relabels the values of every label map and selector in a manifest or
+ * passthrough layer
+ */
+function renameLabelValues(value: unknown, relabel: (value: string) => string, labelMap = false): unknown {
+  if (Array.isArray(value)) return value.map(item => renameLabelValues(item, relabel));
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(Object.entries(value).map(([key, child]) => [
+    key,
+    labelMap && typeof child === 'string' ? relabel(child) : renameLabelValues(child, relabel, LABEL_MAPS.includes(key)),
+  ]));
+}
+
+/**
+ * Points references inside the import at the new names of renamed resources,
+ * in modeled fields and in the passthrough layer alike
+ */
+function renameReferences(data: K8sNodeData, renames: Map<string, string>, namespace?: string): K8sNodeData {
+  const renamed = (type: K8sNodeType, name: string) => renames.get(`${type}:${name}@${namespace || ''}`) ?? name;
+  const relabel = relabeler(renames, namespace);
+  const relabeled = (labels: KeyValue[]) => labels.map(l => ({ ...l, value: relabel(l.value) }));
+  const withPassthrough = (next: K8sNodeData): K8sNodeData => (next.type !== 'sidecar' && next.passthrough
+    ? {
+      ...next,
+      passthrough: renameLabelValues(renamePassthroughReferences(next.passthrough, renamed), relabel) as Record<string, unknown>,
+    }
+    : next);
+  switch (data.type) {
+    case 'service':
+      return withPassthrough({ ...data, selectorLabels: relabeled(data.selectorLabels) });
+    case 'deployment':
+    case 'daemonset':
+      return withPassthrough({
+        ...data,
+        labels: relabeled(data.labels),
+        selectorLabels: data.selectorLabels && relabeled(data.selectorLabels),
+        metadataLabels: data.metadataLabels && relabeled(data.metadataLabels),
+      });
+    case 'ingress':
+      return withPassthrough({
+        ...data,
+        rules: data.rules.map(rule => ({
+          ...rule,
+          paths: rule.paths.map(p => ({ ...p, serviceName: p.serviceName && renamed('service', p.serviceName) })),
+        })),
+      });
+    case 'statefulset':
+      return withPassthrough({
+        ...data,
+        serviceName: data.serviceName && renamed('service', data.serviceName),
+        labels: relabeled(data.labels),
+        selectorLabels: data.selectorLabels && relabeled(data.selectorLabels),
+        metadataLabels: data.metadataLabels && relabeled(data.metadataLabels),
+      });
+    case 'hpa':
+      return withPassthrough({ ...data, targetDeployment: data.targetDeployment && renamed('deployment', data.targetDeployment) });
+    default:
+      return withPassthrough(data);
+  }
+}
+
+/**
+ * Connections the parser finds when the existing diagram's manifests and the
+ * imported documents are read together, between nodes of the merged diagram
+ */
+async function findLinkingEdges(
+  before: { nodes: Node<K8sNodeData>[]; edges: Edge[]; settings: DiagramSettings },
+  documents: KubernetesDocument[],
+  merged: Node<K8sNodeData>[],
+  replacedIds: Set<string>
+): Promise<Pick<Edge, 'source' | 'target' | 'data'>[]> {
+  const existingManifests = orderedManifests(generateManifestsFromGraph(before.nodes, before.edges, before.settings))
+    .filter(manifest => {
+      const node = findResourceNode(manifest, before.nodes);
+      return !node || !replacedIds.has(node.id);
+    });
+  const text = [...existingManifests, ...documents]
+    .map(doc => yaml.dump(doc, { lineWidth: -1, noRefs: true }))
+    .join('---\n');
+  const combined = await parseYamlToGraph(text, { kubernetesVersion: before.settings.kubernetesVersion });
+
+  const mergedByKey = new Map<string, string>();
+  merged.forEach(node => {
+    const key = nodeKey(node, merged);
+    if (key && !mergedByKey.has(key)) mergedByKey.set(key, node.id);
+  });
+  const toMerged = new Map(combined.nodes.flatMap(node => {
+    const key = nodeKey(node, combined.nodes);
+    const id = key && mergedByKey.get(key);
+    return id ? [[node.id, id] as const] : [];
+  }));
+  return combined.edges.flatMap(edge => {
+    const source = toMerged.get(edge.source);
+    const target = toMerged.get(edge.target);
+    return source && target ? [{ source, target, data: edge.data }] : [];
+  });
+}
+
+export async function mergeDiagram(
+  before: { nodes: Node<K8sNodeData>[]; edges: Edge[]; settings: DiagramSettings },
+  imported: ImportedGraph,
+  resolutions: Record<string, MergeResolution>
+): Promise<MergeResult> {
+  const conflicts = new Map(findMergeConflicts(before.nodes, imported.nodes).map(c => [c.importedId, c]));
+  const usedIds = new Set(before.nodes.map(n => n.id));
+  const freshId = (id: string) => {
+    let next = id;
+    for (let i = 1; usedIds.has(next); i++) next = `${id}_${i}`;
+    usedIds.add(next);
+    return next;
+  };
+
+  const idMap = new Map<string, string>();
+  const addedIds = new Set<string>();
+  const replacedIds = new Set<string>();
+  const replacements = new Map<string, K8sNodeData>();
+  const renames = new Map<string, string>();
+  let skipped = 0;
+
+  // Namespaces already on the canvas take in the imported resources of the same name
+  const existingNamespaces = new Map(before.nodes
+    .filter(n => n.data.type === 'namespace')
+    .map(n => [(n.data as NamespaceNodeData).name, n]));
+  const mergedNamespaces = new Map<string, Node<K8sNodeData>>();
+  imported.nodes.filter(n => n.data.type === 'namespace').forEach(node => {
+    const existing = existingNamespaces.get((node.data as NamespaceNodeData).name);
+    if (existing) {
+      idMap.set(node.id, existing.id);
+      mergedNamespaces.set(node.id, existing);
+    } else {
+      idMap.set(node.id, freshId(node.id));
+      addedIds.add(node.id);
+    }
+  });
+
+  imported.nodes.filter(n => n.data.type !== 'namespace').forEach(node => {
+    const conflict = conflicts.get(node.id);
+    const resolution = conflict ? resolutions[node.id] ?? 'rename' : undefined;
+    if (conflict && resolution === 'skip') {
+      idMap.set(node.id, conflict.existingId);
+      skipped++;
+    } else if (conflict && resolution === 'replace') {
+      idMap.set(node.id, conflict.existingId);
+      replacedIds.add(conflict.existingId);
+      replacements.set(conflict.existingId, node.data);
+    } else {
+      if (conflict) {
+        renames.set(`${conflict.type}:${conflict.name}@${conflict.namespace || ''}`, conflict.renameTo);
+      }
+      idMap.set(node.id, freshId(node.id));
+      addedIds.add(node.id);
+    }
+  });
+
+  // New top-level content goes to the right of what is already there
+  const existingBounds = boundsOf(before.nodes);
+  const importedBounds = boundsOf(imported.nodes.filter(n => addedIds.has(n.id) && !(n.parentId && mergedNamespaces.has(n.parentId))));
+  const offset = existingBounds && importedBounds
+    ? { x: existingBounds.maxX + MERGE_GAP - importedBounds.minX, y: existingBounds.minY - importedBounds.minY }
+    : { x: 0, y: 0 };
+
+  // Resources joining an existing Namespace are stacked below its current content
+  const grown = new Map<string, { width: number; height: number }>();
+  mergedNamespaces.forEach((existing, importedId) => {
+    const importedNamespace = imported.nodes.find(n => n.id === importedId);
+    const width = Number(existing.style?.width ?? existing.width ?? 0);
+    const height = Number(existing.style?.height ?? existing.height ?? 0);
+    grown.set(existing.id, {
+      width: Math.max(width, Number(importedNamespace?.style?.width ?? 0)),
+      height: height + Number(importedNamespace?.style?.height ?? 0),
+    });
+  });
+
+  const added = imported.nodes.filter(n => addedIds.has(n.id)).map((node): Node<K8sNodeData> => {
+    const id = idMap.get(node.id) ?? node.id;
+    const parentId = node.parentId ? idMap.get(node.parentId) : undefined;
+    const namespace = getNodeNamespace(node, imported.nodes);
+    const conflict = conflicts.get(node.id);
+    const data = renameReferences(conflict ? withResourceName(node.data, conflict.renameTo) : node.data, renames, namespace);
+
+    const joined = node.parentId ? mergedNamespaces.get(node.parentId) : undefined;
+    const position = joined
+      ? { x: node.position.x, y: node.position.y + Number(joined.style?.height ?? joined.height ?? 0) }
+      : node.parentId
+        ? node.position
+        : { x: node.position.x + offset.x, y: node.position.y + offset.y };
+    return { ...node, id, parentId, position, data };
+  });
+
+  const kept = before.nodes.map(node => {
+    const replacement = replacements.get(node.id);
+    const size = grown.get(node.id);
+    if (replacement) return { ...node, data: replacement };
+    if (size) return { ...node, style: { ...node.style, ...size } };
+    return node;
+  });
+  const nodes = sortNamespacesFirst([...kept, ...added]);
+
+  // Relationships the import itself derived, unless both ends were already there
+  const edges = [...before.edges];
+  const hasEdge = (source: string, target: string) => edges.some(e => e.source === source && e.target === target);
+  const isNew = (id: string) => added.some(n => n.id === id) || replacedIds.has(id);
+  imported.edges.forEach(edge => {
+    const source = idMap.get(edge.source);
+    const target = idMap.get(edge.target);
+    if (!source || !target || hasEdge(source, target) || !(isNew(source) || isNew(target))) return;
+    edges.push({ ...edge, id: `e-${source}-${target}`, source, target });
+  });
+
+  // References that only resolve against resources already on the canvas
+  const documents: KubernetesDocument[] = [];
+  imported.sourceDocuments.forEach((doc, importedId) => {
+    const id = idMap.get(importedId);
+    if (!id || (!addedIds.has(importedId) && !replacedIds.has(id))) return;
+    const conflict = conflicts.get(importedId);
+    const node = imported.nodes.find(n => n.id === importedId);
+    const relabeled = renameLabelValues(doc, relabeler(renames, node && getNodeNamespace(node, imported.nodes))) as KubernetesDocument;
+    documents.push(conflict && addedIds.has(importedId)
+      ? { ...relabeled, metadata: { ...relabeled.metadata, name: conflict.renameTo } }
+      : relabeled);
+  });
+  // Imported documents still use the old names of renamed resources, which mean the imported copy
+  const renamedAway = new Set([...conflicts.values()].filter(c => addedIds.has(c.importedId)).map(c => c.existingId));
+  let linked = 0;
+  (await findLinkingEdges(before, documents, nodes, replacedIds)).forEach(({ source, target, data }) => {
+    const existingEnds = [source, target].filter(id => !isNew(id));
+    if (existingEnds.length !== 1 || renamedAway.has(existingEnds[0]) || hasEdge(source, target)) return;
+    edges.push({ id: `e-${source}-${target}`, source, target, animated: true, ...(data && { data }) });
+    linked++;
+  });
+
+  return { nodes, edges, idMap, added: added.filter(n => n.data.type !== 'namespace').length, replaced: replacedIds.size, skipped, linked };
+}
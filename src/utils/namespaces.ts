@@ -0,0 +1,41 @@
+import { Node, XYPosition } from 'reactflow';
+import { K8sNodeData, NamespaceNodeData } from '@/types/k8s';
+
+/**
+ * Returns the namespace a node inherits from its parent Namespace container,
+ * or undefined when the node sits directly on the canvas (default namespace)
+ */
+export function getNodeNamespace(node: Node<K8sNodeData>, nodes: Node<K8sNodeData>[]): string | undefined {
+  if (!node.parentId) return undefined;
+  const parent = nodes.find(n => n.id === node.parentId);
+  if (!parent || parent.data.type !== 'namespace') return undefined;
+  return (parent.data as NamespaceNodeData).name || undefined;
+}
+
+/**
+ * Finds the Namespace container whose bounds contain the given absolute position
+ */
+export function findNamespaceAtPosition(
+  position: XYPosition,
+  nodes: Node<K8sNodeData>[],
+  excludeId?: string
+): Node<K8sNodeData> | undefined {
+  return nodes.find(n => {
+    if (n.id === excludeId || n.data.type !== 'namespace') return false;
+    const origin = n.positionAbsolute || n.position;
+    const width = n.width ?? (n.style?.width as number) ?? 0;
+    const height = n.height ?? (n.style?.height as number) ?? 0;
+    return position.x >= origin.x && position.x <= origin.x + width
+      && position.y >= origin.y && position.y <= origin.y + height;
+  });
+}
+
+/**
+ * Namespace containers must precede their children in the node array for React Flow
+ */
+export function sortNamespacesFirst(nodes: Node<K8sNodeData>[]): Node<K8sNodeData>[] {
+  return [
+    ...nodes.filter(n => n.data.type === 'namespace'),
+    ...nodes.filter(n => n.data.type !== 'namespace'),
+  ];
+}
@@ -0,0 +1,126 @@
+import { YamlObject } from './manifests';
+
+/**
+ * Passthrough layer for fields the node model doesn't understand. A node keeps
+ * the parts of its source document that the generator would not emit, and the
+ * generator deep-merges its own output over them, so modeled fields always win.
+ */
+
+function isObject(value: unknown): value is YamlObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Fields that identify a list item, most specific first
+const IDENTITY_KEYS = ['name', 'containerPort', 'port'];
+
+/**
+ * The identity field two items both have, e.g. containerPort for an imported
+ * named port and the unnamed one the generator emits
+ */
+function sharedKey(a: YamlObject, b: YamlObject): string | undefined {
+  return IDENTITY_KEYS.find(key => key in a && key in b);
+}
+
+function isSameItem(a: YamlObject, b: YamlObject): boolean {
+  const key = sharedKey(a, b);
+  return key !== undefined && a[key] === b[key];
+}
+
+/**
+ * Lists whose items carry a name or port (containers, env, volumes, ports)
+ * are matched item by item instead of being replaced wholesale
+ */
+function isKeyedList(value: unknown): value is YamlObject[] {
+  return Array.isArray(value) && value.length > 0
+    && value.every(item => isObject(item) && IDENTITY_KEYS.some(key => ['string', 'number'].includes(typeof item[key])));
+}
+
+function isObjectList(value: unknown): value is YamlObject[] {
+  return Array.isArray(value) && value.every(isObject);
+}
+
+/**
+ * Other lists of objects line up by position while their length is unchanged,
+ * so an imported Ingress path keeps its extra fields next to the modeled ones
+ */
+function isParallelList(a: unknown, b: unknown): a is YamlObject[] {
+  return Array.isArray(a) && Array.isArray(b) && a.length === b.length && [...a, ...b].every(isObject);
+}
+
+/**
+ * Returns the parts of `original` that `generated` doesn't contain, or
+ * undefined when the generator already covers everything
+ */
+export function extractPassthrough(original: unknown, generated: unknown): unknown {
+  if (isObject(original) && isObject(generated)) {
+    const rest: YamlObject = {};
+    Object.entries(original).forEach(([key, value]) => {
+      const remainder = key in generated ? extractPassthrough(value, generated[key]) : value;
+      if (remainder !== undefined) rest[key] = remainder;
+    });
+    return Object.keys(rest).length > 0 ? rest : undefined;
+  }
+
+  // Items the generator doesn't emit are kept whole, e.g. every port after the
+  // first; the rest keep what the generator leaves out, found again by name or
+  // by position when they have none the generator emits
+  if (isKeyedList(original) && isKeyedList(generated)) {
+    const rest = original.flatMap(item => {
+      const match = generated.find(g => isSameItem(item, g));
+      if (!match) return [item];
+      const remainder = extractPassthrough(item, match) as YamlObject | undefined;
+      if (!remainder) return [];
+      return [sharedKey(item, match) === 'name' ? { name: item.name, ...remainder } : remainder];
+    });
+    return rest.length > 0 ? rest : undefined;
+  }
+
+  if (isParallelList(original, generated)) {
+    const rest = original.map((item, index) => (extractPassthrough(item, generated[index]) || {}) as YamlObject);
+    return rest.some(item => Object.keys(item).length > 0) ? rest : undefined;
+  }
+
+  // Scalars and other lists belong to the generator once it emits them
+  return undefined;
+}
+
+/**
+ * Deep-merges a generated manifest over its passthrough layer. Keys keep the
+ * generator's order; passthrough-only keys and list items follow.
+ */
+export function mergePassthrough<T>(generated: T, passthrough: unknown): T {
+  if (passthrough === undefined) return generated;
+
+  if (isObject(generated) && isObject(passthrough)) {
+    const merged: YamlObject = {};
+    Object.entries(generated).forEach(([key, value]) => {
+      merged[key] = mergePassthrough(value, passthrough[key]);
+    });
+    Object.entries(passthrough).forEach(([key, value]) => {
+      if (!(key in merged)) merged[key] = value;
+    });
+    return merged as T;
+  }
+
+  if (isKeyedList(generated) && isObjectList(passthrough)) {
+    // Remainders without an identity field the generator emits follow position
+    const anchored = (p: YamlObject) => generated.some(g => sharedKey(p, g) !== undefined);
+    const unanchored = passthrough.filter(p => !anchored(p));
+    const used = new Set<YamlObject>();
+    const merged = generated.map(item => {
+      const match = passthrough.find(p => !used.has(p) && anchored(p) && isSameItem(item, p))
+        ?? unanchored.find(p => !used.has(p));
+      if (match) used.add(match);
+      return mergePassthrough(item, match);
+    });
+    // Remainders of items the diagram no longer has are dropped; whole items follow
+    const extra = passthrough.filter(p => !used.has(p) && anchored(p));
+    return [...merged, ...extra] as T;
+  }
+
+  if (isParallelList(generated, passthrough)) {
+    return generated.map((item, index) => mergePassthrough(item, passthrough[index])) as T;
+  }
+
+  return generated;
+}
@@ -0,0 +1,187 @@
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import { Node } from 'reactflow';
+import { GeneratedManifests, K8sNodeData } from '@/types/k8s';
+import definitions from '@/schemas/kubernetes/definitions.json';
+import { LintProblem, findResourceNode } from './diagramLint';
+import {
+  DEFAULT_KUBERNETES_VERSION,
+  KUBERNETES_RESOURCES,
+  KubernetesDocument,
+  compareKubernetesVersions,
+  isServedIn,
+} from './kubernetesVersions';
+import { orderedManifests } from './manifests';
+
+/**
+ * Offline manifest validation in the spirit of kubeconform: every document is
+ * checked against the bundled OpenAPI-derived schema of its apiVersion/kind
+ * for the selected Kubernetes version. Kinds without a bundled schema are
+ * skipped rather than reported.
+ */
+
+type JsonSchema = Record<string, unknown>;
+
+// Properties added after the oldest bundled version carry the version that introduced them
+const MIN_VERSION_KEY = 'x-kubernetes-min-version';
+
+/**
+ * Drops properties the given version doesn't know yet, so using them is
+ * reported as an unknown field
+ */
+function schemaForVersion(schema: unknown, version: string): unknown {
+  if (Array.isArray(schema)) return schema.map(s => schemaForVersion(s, version));
+  if (!schema || typeof schema !== 'object') return schema;
+
+  const result: JsonSchema = {};
+  Object.entries(schema as JsonSchema).forEach(([key, value]) => {
+    if (key === MIN_VERSION_KEY) return;
+    if (key === 'properties') {
+      const properties = Object.entries(value as Record<string, JsonSchema>)
+        .filter(([, property]) => {
+          const minVersion = property[MIN_VERSION_KEY] as string | undefined;
+          return !minVersion || compareKubernetesVersions(version, minVersion) >= 0;
+        });
+      result.properties = Object.fromEntries(properties.map(([name, property]) => [name, schemaForVersion(property, version)]));
+      return;
+    }
+    result[key] = schemaForVersion(value, version);
+  });
+  return result;
+}
+
+const validators = new Map<string, ValidateFunction>();
+const ajvInstances = new Map<string, Ajv>();
+
+function getValidator(definition: string, version: string): ValidateFunction {
+  const cacheKey = `${version}/${definition}`;
+  const cached = validators.get(cacheKey);
+  if (cached) return cached;
+
+  let ajv = ajvInstances.get(version);
+  if (!ajv) {
+    ajv = new Ajv({ allErrors: true, strict: false });
+    ajv.addSchema({ $id: 'k8s', definitions: schemaForVersion(definitions, version) });
+    ajvInstances.set(version, ajv);
+  }
+
+  // Every top-level resource needs a named metadata block; nested ObjectMeta (pod templates) doesn't
+  const validator = ajv.compile({
+    allOf: [
+      { $ref: `k8s#/definitions/${definition}` },
+      {
+        required: ['apiVersion', 'kind', 'metadata'],
+        properties: { metadata: { type: 'object', required: ['name'] } },
+      },
+    ],
+  });
+  validators.set(cacheKey, validator);
+  return validator;
+}
+
+/**
+ * Turns a JSON pointer into the dotted path kubectl prints (spec.containers[0].image)
+ */
+function toFieldPath(instancePath: string): string {
+  return instancePath
+    .split('/')
+    .slice(1)
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((path, segment) => (/^\d+$/.test(segment) ? `${path}[${segment}]` : path ? `${path}.${segment}` : segment), '');
+}
+
+function formatError(error: ErrorObject): string {
+  const path = toFieldPath(error.instancePath);
+  const at = (message: string) => (path ? `${path}: ${message}` : message);
+
+  switch (error.keyword) {
+    case 'additionalProperties':
+      return at(`unknown field "${error.params.additionalProperty}"`);
+    case 'required': {
+      const field = path ? `${path}.${error.params.missingProperty}` : error.params.missingProperty;
+      return `${field}: required field missing`;
+    }
+    case 'minItems':
+      return at(`must have at least ${error.params.limit} item${error.params.limit === 1 ? '' : 's'}`);
+    case 'type': {
+      const types = Array.isArray(error.params.type) ? error.params.type.join(' or ') : error.params.type;
+      return at(`expected ${types}`);
+    }
+    case 'enum':
+      return at(`must be one of ${(error.params.allowedValues as unknown[]).join(', ')}`);
+    default:
+      return at(error.message || 'invalid value');
+  }
+}
+
+/**
+ * Validates one document against the schema for the given Kubernetes version.
+ * Returns the error messages, an empty list when the document is valid, or
+ * null when no schema is bundled for its kind.
+ */
+export function validateManifest(doc: KubernetesDocument, version: string = DEFAULT_KUBERNETES_VERSION): string[] | null {
+  const candidates = KUBERNETES_RESOURCES.filter(r => r.kind === doc.kind);
+  if (candidates.length === 0) return null;
+
+  const resource = candidates.find(r => r.apiVersion === doc.apiVersion);
+  if (!resource) {
+    const known = candidates.filter(r => isServedIn(r, version)).map(r => r.apiVersion);
+    return [`apiVersion "${doc.apiVersion}" is not a known version of ${doc.kind} (use ${known.join(' or ')})`];
+  }
+  if (!isServedIn(resource, version)) {
+    return [resource.removedIn && compareKubernetesVersions(version, resource.removedIn) >= 0
+      ? `${doc.apiVersion} ${doc.kind} is not served by Kubernetes ${version} (removed in ${resource.removedIn})`
+      : `${doc.apiVersion} ${doc.kind} is not served by Kubernetes ${version} (introduced in ${resource.introducedIn})`];
+  }
+  if (!resource.definition) return null;
+
+  const validate = getValidator(resource.definition, version);
+  if (validate(doc)) return [];
+  return [...new Set((validate.errors || []).map(formatError))];
+}
+
+function describeManifest(doc: KubernetesDocument): string {
+  return `${doc.kind}/${doc.metadata?.name || '(unnamed)'}`;
+}
+
+/**
+ * Validates every generated manifest and reports the errors against the
+ * nodes they came from
+ */
+export function validateGeneratedManifests(
+  manifests: GeneratedManifests,
+  nodes: Node<K8sNodeData>[],
+  version: string = DEFAULT_KUBERNETES_VERSION
+): LintProblem[] {
+  return orderedManifests(manifests).flatMap(doc => {
+    const errors = validateManifest(doc, version) || [];
+    // NetworkPolicies are derived from edges and have no node of their own
+    const nodeId = findResourceNode(doc, nodes)?.id;
+    return errors.map(error => ({
+      ruleId: 'schema',
+      nodeId,
+      severity: 'error' as const,
+      message: `${describeManifest(doc)}: ${error}`,
+    }));
+  });
+}
+
+/**
+ * Validates documents read from YAML; nodeIds maps each document index to the
+ * node created for it
+ */
+export function validateImportedDocuments(
+  documents: KubernetesDocument[],
+  nodeIds: Map<number, string>,
+  version: string = DEFAULT_KUBERNETES_VERSION
+): LintProblem[] {
+  return documents.flatMap((doc, index) => {
+    if (!doc || !doc.kind) return [];
+    const errors = validateManifest(doc, version) || [];
+    return errors.map(error => ({
+      ruleId: 'schema-import',
+      nodeId: nodeIds.get(index),
+      severity: 'error' as const,
+      message: `${describeManifest(doc)} (document ${index + 1}): ${error}`,
+    }));
+  });
+}
@@ -0,0 +1,93 @@
+import { Edge, Node, Viewport } from 'reactflow';
+import { DiagramSettings, K8sNodeData } from '@/types/k8s';
+import { DiagramFile, parseDiagramFile, serializeDiagramFile } from './diagramFile';
+
+/**
+ * Share links carry the whole diagram in the URL fragment as a
+ * deflate-compressed, base64url-encoded .k8sdiagram.json, so nothing is
+ * uploaded anywhere and the fragment never reaches a server.
+ */
+
+const FRAGMENT_KEY = 'diagram';
+// Chat tools and browsers start truncating URLs somewhere past this length
+export const SHARE_LINK_WARN_LENGTH = 8000;
+
+export interface ShareOptions {
+  // Secret values are blanked unless the user explicitly opts in
+  includeSecrets: boolean;
+}
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked so large diagrams don't overflow the argument list
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+/**
+ * Blanks the values of Secret nodes, including any data an import kept in
+ * their passthrough layer; keys stay so the recipient sees the shape
+ */
+export function redactSecrets(nodes: Node<K8sNodeData>[]): Node<K8sNodeData>[] {
+  return nodes.map(node => {
+    if (node.data.type !== 'secret') return node;
+    const { data: _data, stringData: _stringData, ...passthrough } = node.data.passthrough ?? {};
+    return {
+      ...node,
+      data: {
+        ...node.data,
+        data: node.data.data.map(entry => ({ ...entry, value: '' })),
+        passthrough: node.data.passthrough && passthrough,
+      },
+    };
+  });
+}
+
+export function countSecretValues(nodes: Node<K8sNodeData>[]): number {
+  return nodes.reduce((count, node) => (
+    node.data.type === 'secret' ? count + node.data.data.filter(entry => entry.value).length : count
+  ), 0);
+}
+
+export async function createShareLink(
+  name: string,
+  contents: { nodes: Node<K8sNodeData>[]; edges: Edge[]; settings: DiagramSettings; viewport?: Viewport },
+  options: ShareOptions,
+  baseUrl: string = `${window.location.origin}/`
+): Promise<string> {
+  const nodes = options.includeSecrets ? contents.nodes : redactSecrets(contents.nodes);
+  const json = serializeDiagramFile(name, { ...contents, nodes });
+  const compressed = await transform(new TextEncoder().encode(json), new CompressionStream('deflate-raw'));
+  return `${baseUrl}#${FRAGMENT_KEY}=${toBase64Url(compressed)}`;
+}
+
+/**
+ * The encoded diagram in a location hash, or null when the hash isn't a share link
+ */
+export function getSharedDiagramFragment(hash: string): string | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  return params.get(FRAGMENT_KEY);
+}
+
+export async function readShareLink(fragment: string): Promise<DiagramFile> {
+  let json: string;
+  try {
+    const bytes = await transform(fromBase64Url(fragment), new DecompressionStream('deflate-raw'));
+    json = new TextDecoder().decode(bytes);
+  } catch (error) {
+    throw new Error('The share link is incomplete or damaged');
+  }
+  return parseDiagramFile(json);
+}
@@ -22,11 +22,9 @@ export const templates: DiagramTemplate[] = [
         data: {
           type: 'ingress',
           label: 'Web Ingress',
-          host: 'myapp.example.com',
-          paths: [{ path: '/', pathType: 'Prefix', serviceName: '', servicePort: 80 }],
+          rules: [{ host: 'myapp.example.com', paths: [{ path: '/', pathType: 'Prefix', serviceName: '', servicePort: 80 }] }],
+          tls: [],
           ingressClassName: 'nginx',
-          enableTLS: false,
-          tlsSecretName: '',
           annotations: [],
         },
       },
@@ -79,14 +77,15 @@ export const templates: DiagramTemplate[] = [
         data: {
           type: 'ingress',
           label: 'API Gateway',
-          host: 'api.example.com',
-          paths: [
-            { path: '/api', pathType: 'Prefix', serviceName: 'api-service', servicePort: 80 },
-            { path: '/web', pathType: 'Prefix', serviceName: 'web-service', servicePort: 80 },
-          ],
+          rules: [{
+            host: 'api.example.com',
+            paths: [
+              { path: '/api', pathType: 'Prefix', serviceName: 'api-service', servicePort: 80 },
+              { path: '/web', pathType: 'Prefix', serviceName: 'web-service', servicePort: 80 },
+            ],
+          }],
+          tls: [],
           ingressClassName: 'nginx',
-          enableTLS: false,
-          tlsSecretName: '',
           annotations: [],
         },
       },
@@ -172,11 +171,9 @@ export const templates: DiagramTemplate[] = [
         data: {
           type: 'ingress',
           label: 'Main Ingress',
-          host: 'app.example.com',
-          paths: [{ path: '/', pathType: 'Prefix', serviceName: 'backend-service', servicePort: 80 }],
+          rules: [{ host: 'app.example.com', paths: [{ path: '/', pathType: 'Prefix', serviceName: 'backend-service', servicePort: 80 }] }],
+          tls: [{ hosts: ['app.example.com'], secretName: 'tls-secret' }],
           ingressClassName: 'nginx',
-          enableTLS: true,
-          tlsSecretName: 'tls-secret',
           annotations: [],
         },
       },
@@ -328,11 +325,9 @@ export const templates: DiagramTemplate[] = [
         data: {
           type: 'ingress',
           label: 'ALB Ingress',
-          host: 'app.example.com',
-          paths: [{ path: '/', pathType: 'Prefix', serviceName: 'app-service', servicePort: 80 }],
+          rules: [{ host: 'app.example.com', paths: [{ path: '/', pathType: 'Prefix', serviceName: 'app-service', servicePort: 80 }] }],
+          tls: [{ hosts: ['app.example.com'], secretName: 'tls-cert' }],
           ingressClassName: 'alb',
-          enableTLS: true,
-          tlsSecretName: 'tls-cert',
           annotations: [
             { key: 'alb.ingress.kubernetes.io/scheme', value: 'internet-facing' },
             { key: 'alb.ingress.kubernetes.io/target-type', value: 'ip' },
@@ -438,11 +433,9 @@ export const templates: DiagramTemplate[] = [
         data: {
           type: 'ingress',
           label: 'GCP Ingress',
-          host: 'app.example.com',
-          paths: [{ path: '/', pathType: 'Prefix', serviceName: 'web-service', servicePort: 80 }],
+          rules: [{ host: 'app.example.com', paths: [{ path: '/', pathType: 'Prefix', serviceName: 'web-service', servicePort: 80 }] }],
+          tls: [{ hosts: ['app.example.com'], secretName: 'gcp-tls-cert' }],
           ingressClassName: 'gce',
-          enableTLS: true,
-          tlsSecretName: 'gcp-tls-cert',
           annotations: [
             { key: 'kubernetes.io/ingress.class', value: 'gce' },
             { key: 'kubernetes.io/ingress.global-static-ip-name', value: 'web-static-ip' },
@@ -552,11 +545,9 @@ export const templates: DiagramTemplate[] = [
         data: {
           type: 'ingress',
           label: 'App Gateway Ingress',
-          host: 'app.example.com',
-          paths: [{ path: '/', pathType: 'Prefix', serviceName: 'api-service', servicePort: 80 }],
+          rules: [{ host: 'app.example.com', paths: [{ path: '/', pathType: 'Prefix', serviceName: 'api-service', servicePort: 80 }] }],
+          tls: [{ hosts: ['app.example.com'], secretName: 'azure-tls-cert' }],
           ingressClassName: 'azure-application-gateway',
-          enableTLS: true,
-          tlsSecretName: 'azure-tls-cert',
           annotations: [
             { key: 'appgw.ingress.kubernetes.io/backend-path-prefix', value: '/' },
             { key: 'appgw.ingress.kubernetes.io/ssl-redirect', value: 'true' },
@@ -665,14 +656,15 @@ export const templates: DiagramTemplate[] = [
         data: {
           type: 'ingress',
           label: 'Global Ingress',
-          host: 'global.example.com',
-          paths: [
-            { path: '/api', pathType: 'Prefix', serviceName: 'api-service', servicePort: 80 },
-            { path: '/admin', pathType: 'Prefix', serviceName: 'admin-service', servicePort: 80 },
-          ],
+          rules: [{
+            host: 'global.example.com',
+            paths: [
+              { path: '/api', pathType: 'Prefix', serviceName: 'api-service', servicePort: 80 },
+              { path: '/admin', pathType: 'Prefix', serviceName: 'admin-service', servicePort: 80 },
+            ],
+          }],
+          tls: [{ hosts: ['global.example.com'], secretName: 'wildcard-tls' }],
           ingressClassName: 'nginx',
-          enableTLS: true,
-          tlsSecretName: 'wildcard-tls',
           annotations: [
             { key: 'cert-manager.io/cluster-issuer', value: 'letsencrypt-prod' },
             { key: 'nginx.ingress.kubernetes.io/rate-limit', value: '100' },
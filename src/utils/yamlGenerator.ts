@@ -1,23 +1,45 @@
 import { Node, Edge } from 'reactflow';
+import * as yaml from 'js-yaml';
 import {
   K8sNodeData,
+  NamespaceNodeData,
   IngressNodeData,
+  IngressPath,
   ServiceNodeData,
   DeploymentNodeData,
+  StatefulSetNodeData,
+  DaemonSetNodeData,
+  JobNodeData,
   ConfigMapNodeData,
   SecretNodeData,
+  ConfigReferenceEdgeData,
   PVCNodeData,
   CronJobNodeData,
   HPANodeData,
   PodNodeData,
   SidecarNodeData,
-  GeneratedYaml
+  KeyValue,
+  Toleration,
+  ContainerSettings,
+  Probe,
+  ResourceRequirements,
+  CloudProviderFieldValues,
+  K8sManifest,
+  GeneratedManifests,
+  GeneratedYaml,
+  DiagramSettings,
+  defaultDiagramSettings
 } from '@/types/k8s';
 import {
   getCloudProviderTemplate,
   generateAnnotationsFromTemplate,
   generateLabelsFromTemplate,
 } from './cloudProviderTemplates';
+import { getNodeNamespace } from './namespaces';
+import { getPreferredApiVersion } from './kubernetesVersions';
+import { mergePassthrough } from './passthrough';
+
+type YamlObject = Record<string, unknown>;
 
 function getConnectedNodes(nodeId: string, edges: Edge[], nodes: Node<K8sNodeData>[], direction: 'source' | 'target'): Node<K8sNodeData>[] {
   const connectedEdges = edges.filter(e => direction === 'source' ? e.source === nodeId : e.target === nodeId);
@@ -25,712 +47,918 @@ function getConnectedNodes(nodeId: string, edges: Edge[], nodes: Node<K8sNodeDat
   return nodes.filter(n => connectedIds.includes(n.id));
 }
 
-function generateIngressYaml(data: IngressNodeData, connectedServices: ServiceNodeData[]): string {
-  const paths = data.paths.length > 0 ? data.paths : connectedServices.map(s => ({
-    path: '/',
-    pathType: 'Prefix' as const,
-    serviceName: s.serviceName,
-    servicePort: s.port,
-  }));
-
-  let yaml = `apiVersion: networking.k8s.io/v1
-kind: Ingress
-metadata:
-  name: ${data.label.toLowerCase().replace(/\s+/g, '-')}-ingress`;
-
-  if (data.annotations.length > 0) {
-    yaml += `\n  annotations:`;
-    data.annotations.forEach(a => {
-      yaml += `\n    ${a.key}: "${a.value}"`;
-    });
-  }
-
-  yaml += `
-spec:
-  ingressClassName: ${data.ingressClassName}`;
+/**
+ * Turns key/value rows from the properties panel into a YAML mapping,
+ * skipping rows whose key has not been filled in yet
+ */
+function toRecord(items: KeyValue[]): Record<string, string> {
+  return Object.fromEntries(items.filter(i => i.key).map(i => [i.key, i.value]));
+}
 
-  if (data.enableTLS && data.tlsSecretName) {
-    yaml += `
-  tls:
-    - hosts:
-        - ${data.host}
-      secretName: ${data.tlsSecretName}`;
+function getTemplateAnnotations(data: SecretNodeData | PVCNodeData | DeploymentNodeData): KeyValue[] {
+  // Add cloud provider annotations if template is selected
+  if (data.cloudProviderTemplateId && data.cloudProviderFields) {
+    const template = getCloudProviderTemplate(data.cloudProviderTemplateId);
+    return template ? generateAnnotationsFromTemplate(template, data.cloudProviderFields) : [];
   }
+  return data.annotations || [];
+}
 
-  yaml += `
-  rules:
-    - host: ${data.host}
-      http:
-        paths:`;
-
-  paths.forEach(p => {
-    const serviceName = p.serviceName || connectedServices[0]?.serviceName || 'my-service';
-    const servicePort = p.servicePort || connectedServices[0]?.port || 80;
-    yaml += `
-          - path: ${p.path}
-            pathType: ${p.pathType}
-            backend:
-              service:
-                name: ${serviceName}
-                port:
-                  number: ${servicePort}`;
-  });
+function buildNamespaceManifest(data: NamespaceNodeData): K8sManifest {
+  return {
+    apiVersion: 'v1',
+    kind: 'Namespace',
+    metadata: {
+      name: data.name,
+      ...(data.labels.length > 0 && { labels: toRecord(data.labels) }),
+    },
+  };
+}
 
-  return yaml;
+/**
+ * Sets metadata.namespace right after metadata.name so it reads naturally
+ */
+function withNamespace(manifest: K8sManifest, namespace: string): K8sManifest {
+  const { name, ...rest } = manifest.metadata;
+  return { ...manifest, metadata: { name, namespace, ...rest } };
 }
 
-function generateServiceYaml(data: ServiceNodeData, connectedDeployments: DeploymentNodeData[]): string {
-  const selectorLabels = data.selectorLabels.length > 0 
-    ? data.selectorLabels 
-    : connectedDeployments[0]?.labels || [{ key: 'app', value: data.serviceName }];
+/**
+ * Ingress nodes are named after their label unless an imported name was kept
+ */
+export function getIngressName(data: IngressNodeData): string {
+  return data.name || `${data.label.toLowerCase().replace(/\s+/g, '-')}-ingress`;
+}
 
-  let yaml = `apiVersion: v1
-kind: Service
-metadata:
-  name: ${data.serviceName}
-spec:
-  type: ${data.serviceType}
-  ports:
-    - port: ${data.port}
-      targetPort: ${data.targetPort}
-      protocol: TCP
-  selector:`;
+/**
+ * Paths are routed to the Service they name; ones without a backend yet are
+ * left out rather than guessed, and the Problems panel points them out
+ */
+function buildIngressManifest(data: IngressNodeData, connectedServices: ServiceNodeData[]): K8sManifest {
+  const servicePort = (path: IngressPath) => path.servicePort
+    || connectedServices.find(s => s.serviceName === path.serviceName)?.port
+    || 80;
+  const tls = data.tls
+    .map(t => ({ ...t, hosts: t.hosts.filter(Boolean) }))
+    .filter(t => t.secretName || t.hosts.length > 0);
+
+  return {
+    apiVersion: 'networking.k8s.io/v1',
+    kind: 'Ingress',
+    metadata: {
+      name: getIngressName(data),
+      ...(data.annotations.length > 0 && { annotations: toRecord(data.annotations) }),
+    },
+    spec: {
+      ingressClassName: data.ingressClassName,
+      ...(tls.length > 0 && {
+        tls: tls.map(t => ({
+          ...(t.hosts.length > 0 && { hosts: t.hosts }),
+          ...(t.secretName && { secretName: t.secretName }),
+        })),
+      }),
+      rules: data.rules.map(rule => {
+        const paths = rule.paths.filter(p => p.serviceName);
+        return {
+          ...(rule.host && { host: rule.host }),
+          ...(paths.length > 0 && {
+            http: {
+              paths: paths.map(p => ({
+                path: p.path,
+                pathType: p.pathType,
+                backend: {
+                  service: {
+                    name: p.serviceName,
+                    port: p.servicePortName ? { name: p.servicePortName } : { number: servicePort(p) },
+                  },
+                },
+              })),
+            },
+          }),
+        };
+      }),
+    },
+  };
+}
 
-  selectorLabels.forEach(l => {
-    yaml += `\n    ${l.key}: ${l.value}`;
-  });
+function buildServiceManifest(
+  data: ServiceNodeData,
+  connectedWorkloads: (DeploymentNodeData | StatefulSetNodeData | DaemonSetNodeData)[]
+): K8sManifest {
+  const selectorLabels = data.selectorLabels.length > 0
+    ? data.selectorLabels
+    : connectedWorkloads[0]?.labels || [{ key: 'app', value: data.serviceName }];
+
+  return {
+    apiVersion: 'v1',
+    kind: 'Service',
+    metadata: { name: data.serviceName },
+    spec: {
+      type: data.headless ? 'ClusterIP' : data.serviceType,
+      // A headless Service (clusterIP: None) gives StatefulSet pods stable DNS names
+      ...(data.headless && { clusterIP: 'None' }),
+      ports: [{ port: data.port, targetPort: data.targetPort, protocol: 'TCP' }],
+      selector: toRecord(selectorLabels),
+    },
+  };
+}
 
-  return yaml;
+interface MainContainerSpec {
+  name: string;
+  image: string;
+  containerPort?: number;
+  command?: string[];
+  args?: string[];
+  envVars?: KeyValue[];
+  settings?: ContainerSettings;
+  volumeMounts?: { name: string; mountPath: string }[];
 }
 
-function generateDeploymentYaml(
-  data: DeploymentNodeData,
-  connectedConfigMaps: ConfigMapNodeData[],
-  connectedSecrets: SecretNodeData[],
-  connectedPVCs: PVCNodeData[],
-  connectedSidecars: SidecarNodeData[] = []
-): string {
-  let yaml = `apiVersion: apps/v1
-kind: Deployment
-metadata:
-  name: ${data.deploymentName}`;
+interface PodSpecOptions {
+  restartPolicy?: 'Always' | 'OnFailure' | 'Never';
+  nodeSelector?: KeyValue[];
+  tolerations?: Toleration[];
+}
 
-  // Add cloud provider annotations if template is selected
-  const cloudAnnotations = data.cloudProviderTemplateId && data.cloudProviderFields
-    ? (() => {
-        const template = getCloudProviderTemplate(data.cloudProviderTemplateId);
-        return template ? generateAnnotationsFromTemplate(template, data.cloudProviderFields) : [];
-      })()
-    : data.annotations || [];
-
-  if (cloudAnnotations.length > 0) {
-    yaml += `\n  annotations:`;
-    cloudAnnotations.forEach(a => {
-      yaml += `\n    ${a.key}: "${a.value}"`;
-    });
+function buildProbe(probe: Probe): YamlObject {
+  let handler: YamlObject;
+  switch (probe.handler) {
+    case 'httpGet':
+      handler = { httpGet: { path: probe.path || '/', port: probe.port } };
+      break;
+    case 'tcpSocket':
+      handler = { tcpSocket: { port: probe.port } };
+      break;
+    case 'exec':
+      handler = { exec: { command: probe.command } };
+      break;
   }
 
-  yaml += `\n  labels:`;
-
-  data.labels.forEach(l => {
-    yaml += `\n    ${l.key}: ${l.value}`;
-  });
-
-  yaml += `
-spec:
-  replicas: ${data.replicas}
-  selector:
-    matchLabels:`;
-
-  data.labels.forEach(l => {
-    yaml += `\n      ${l.key}: ${l.value}`;
-  });
-
-  yaml += `
-  template:
-    metadata:
-      labels:`;
-
-  data.labels.forEach(l => {
-    yaml += `\n        ${l.key}: ${l.value}`;
-  });
-
-  yaml += `
-    spec:`;
-
-  // Add init containers (sidecars with containerType: 'init')
-  const initContainers = connectedSidecars.filter(s => s.containerType === 'init');
-  if (initContainers.length > 0) {
-    yaml += `
-      initContainers:`;
-    initContainers.forEach(sidecar => {
-      yaml += `
-        - name: ${sidecar.containerName}
-          image: ${sidecar.image}`;
-
-      if (sidecar.command && sidecar.command.length > 0) {
-        yaml += `
-          command:`;
-        sidecar.command.forEach(cmd => {
-          yaml += `
-            - "${cmd}"`;
-        });
-      }
-
-      if (sidecar.args && sidecar.args.length > 0) {
-        yaml += `
-          args:`;
-        sidecar.args.forEach(arg => {
-          yaml += `
-            - "${arg}"`;
-        });
-      }
-
-      if (sidecar.envVars.length > 0) {
-        yaml += `
-          env:`;
-        sidecar.envVars.forEach(e => {
-          yaml += `
-            - name: ${e.key}
-              value: "${e.value}"`;
-        });
-      }
-
-      if (sidecar.volumeMounts && sidecar.volumeMounts.length > 0) {
-        yaml += `
-          volumeMounts:`;
-        sidecar.volumeMounts.forEach(mount => {
-          yaml += `
-            - name: ${mount}
-              mountPath: /mnt/${mount}`;
-        });
-      }
-    });
-  }
+  return {
+    ...handler,
+    ...(probe.initialDelaySeconds && { initialDelaySeconds: probe.initialDelaySeconds }),
+    // Kubernetes defaults are left out, like initialDelaySeconds above
+    ...(probe.periodSeconds !== 10 && { periodSeconds: probe.periodSeconds }),
+    ...(probe.timeoutSeconds !== 1 && { timeoutSeconds: probe.timeoutSeconds }),
+    ...(probe.failureThreshold !== 3 && { failureThreshold: probe.failureThreshold }),
+  };
+}
 
-  yaml += `
-      containers:
-        - name: ${data.containerName}
-          image: ${data.image}
-          ports:
-            - containerPort: ${data.containerPort}`;
+/**
+ * Builds the resources, probes and securityContext container fields; returns
+ * an empty object when none are set
+ */
+function buildContainerSettings(settings: ContainerSettings): YamlObject {
+  const fields: YamlObject = {};
 
-  // Add resource requests and limits from cloud provider fields
-  if (data.cloudProviderFields) {
-    const { cpuRequest, memoryRequest, cpuLimit, memoryLimit } = data.cloudProviderFields;
+  // Add resource requests and limits
+  if (settings.resources) {
+    const { cpuRequest, memoryRequest, cpuLimit, memoryLimit } = settings.resources;
     if (cpuRequest || memoryRequest || cpuLimit || memoryLimit) {
-      yaml += `
-          resources:`;
-      if (cpuRequest || memoryRequest) {
-        yaml += `
-            requests:`;
-        if (cpuRequest) yaml += `
-              cpu: ${cpuRequest}`;
-        if (memoryRequest) yaml += `
-              memory: ${memoryRequest}`;
-      }
-      if (cpuLimit || memoryLimit) {
-        yaml += `
-            limits:`;
-        if (cpuLimit) yaml += `
-              cpu: ${cpuLimit}`;
-        if (memoryLimit) yaml += `
-              memory: ${memoryLimit}`;
-      }
+      fields.resources = {
+        ...((cpuRequest || memoryRequest) && {
+          requests: {
+            ...(cpuRequest && { cpu: cpuRequest }),
+            ...(memoryRequest && { memory: memoryRequest }),
+          },
+        }),
+        ...((cpuLimit || memoryLimit) && {
+          limits: {
+            ...(cpuLimit && { cpu: cpuLimit }),
+            ...(memoryLimit && { memory: memoryLimit }),
+          },
+        }),
+      };
     }
   }
 
-  // Add env vars
-  const allEnvVars = [...data.envVars];
-  
-  if (allEnvVars.length > 0 || connectedConfigMaps.length > 0 || connectedSecrets.length > 0) {
-    if (allEnvVars.length > 0) {
-      yaml += `
-          env:`;
-      allEnvVars.forEach(e => {
-        yaml += `
-            - name: ${e.key}
-              value: "${e.value}"`;
-      });
-    }
-
-    if (connectedConfigMaps.length > 0 || connectedSecrets.length > 0) {
-      yaml += `
-          envFrom:`;
-      connectedConfigMaps.forEach(cm => {
-        yaml += `
-            - configMapRef:
-                name: ${cm.name}`;
-      });
-      connectedSecrets.forEach(s => {
-        yaml += `
-            - secretRef:
-                name: ${s.name}`;
-      });
-    }
+  if (settings.livenessProbe) fields.livenessProbe = buildProbe(settings.livenessProbe);
+  if (settings.readinessProbe) fields.readinessProbe = buildProbe(settings.readinessProbe);
+  if (settings.startupProbe) fields.startupProbe = buildProbe(settings.startupProbe);
+
+  if (settings.securityContext) {
+    const sc = settings.securityContext;
+    fields.securityContext = {
+      ...(sc.runAsNonRoot !== undefined && { runAsNonRoot: sc.runAsNonRoot }),
+      ...(sc.runAsUser !== undefined && { runAsUser: sc.runAsUser }),
+      ...(sc.readOnlyRootFilesystem !== undefined && { readOnlyRootFilesystem: sc.readOnlyRootFilesystem }),
+      ...(sc.allowPrivilegeEscalation !== undefined && { allowPrivilegeEscalation: sc.allowPrivilegeEscalation }),
+      ...(sc.dropAllCapabilities && { capabilities: { drop: ['ALL'] } }),
+    };
   }
 
-  // Add volume mounts
-  if (connectedPVCs.length > 0) {
-    yaml += `
-          volumeMounts:`;
-    connectedPVCs.forEach((pvc, i) => {
-      yaml += `
-            - name: ${pvc.name}-volume
-              mountPath: /data/${pvc.name}`;
-    });
-  }
+  return fields;
+}
 
-  // Add regular sidecar containers (not init containers)
-  const regularSidecars = connectedSidecars.filter(s => s.containerType === 'sidecar');
-  if (regularSidecars.length > 0) {
-    regularSidecars.forEach(sidecar => {
-      yaml += `
-        - name: ${sidecar.containerName}
-          image: ${sidecar.image}`;
-
-      if (sidecar.containerPort) {
-        yaml += `
-          ports:
-            - containerPort: ${sidecar.containerPort}`;
-      }
+/**
+ * Cloud provider templates carry their own resource fields; explicit container
+ * resources win field by field
+ */
+function mergeResources(
+  resources: ResourceRequirements | undefined,
+  cloudProviderFields: CloudProviderFieldValues | undefined
+): ResourceRequirements | undefined {
+  if (!resources && !cloudProviderFields) return undefined;
+  return {
+    cpuRequest: resources?.cpuRequest || cloudProviderFields?.cpuRequest || '',
+    memoryRequest: resources?.memoryRequest || cloudProviderFields?.memoryRequest || '',
+    cpuLimit: resources?.cpuLimit || cloudProviderFields?.cpuLimit || '',
+    memoryLimit: resources?.memoryLimit || cloudProviderFields?.memoryLimit || '',
+  };
+}
 
-      if (sidecar.command && sidecar.command.length > 0) {
-        yaml += `
-          command:`;
-        sidecar.command.forEach(cmd => {
-          yaml += `
-            - "${cmd}"`;
-        });
-      }
+function buildEnv(envVars: KeyValue[]): YamlObject[] {
+  // An empty value is the same as none, and leaves room for an imported valueFrom
+  return envVars.map(e => ({ name: e.key, ...(e.value !== '' && { value: e.value }) }));
+}
 
-      if (sidecar.args && sidecar.args.length > 0) {
-        yaml += `
-          args:`;
-        sidecar.args.forEach(arg => {
-          yaml += `
-            - "${arg}"`;
-        });
-      }
+/**
+ * Builds a sidecar or init container entry
+ */
+function buildSidecarContainer(sidecar: SidecarNodeData): YamlObject {
+  return {
+    name: sidecar.containerName,
+    image: sidecar.image,
+    ...(sidecar.containerType === 'sidecar' && sidecar.containerPort && {
+      ports: [{ containerPort: sidecar.containerPort }],
+    }),
+    ...(sidecar.command && sidecar.command.length > 0 && { command: sidecar.command }),
+    ...(sidecar.args && sidecar.args.length > 0 && { args: sidecar.args }),
+    ...buildContainerSettings({
+      ...sidecar,
+      resources: mergeResources(sidecar.resources, sidecar.cloudProviderFields),
+    }),
+    ...(sidecar.envVars.length > 0 && { env: buildEnv(sidecar.envVars) }),
+    ...(sidecar.volumeMounts && sidecar.volumeMounts.length > 0 && {
+      volumeMounts: sidecar.volumeMounts.map(mount => ({ name: mount, mountPath: `/mnt/${mount}` })),
+    }),
+  };
+}
 
-      if (sidecar.envVars.length > 0) {
-        yaml += `
-          env:`;
-        sidecar.envVars.forEach(e => {
-          yaml += `
-            - name: ${e.key}
-              value: "${e.value}"`;
-        });
-      }
+/**
+ * Builds a pod spec, wiring connected ConfigMaps, Secrets, PVCs and Sidecars
+ * into the main container. Shared by every workload builder so they all
+ * mount resources the same way.
+ */
+function buildPodSpec(
+  main: MainContainerSpec,
+  connectedConfigMaps: ConfigMapNodeData[],
+  connectedSecrets: SecretNodeData[],
+  connectedPVCs: PVCNodeData[],
+  connectedSidecars: SidecarNodeData[],
+  options: PodSpecOptions = {}
+): YamlObject {
+  const volumeMounts = [
+    ...connectedPVCs.map(pvc => ({ name: `${pvc.name}-volume`, mountPath: `/data/${pvc.name}` })),
+    ...(main.volumeMounts || []),
+  ];
 
-      if (sidecar.volumeMounts && sidecar.volumeMounts.length > 0) {
-        yaml += `
-          volumeMounts:`;
-        sidecar.volumeMounts.forEach(mount => {
-          yaml += `
-            - name: ${mount}
-              mountPath: /mnt/${mount}`;
-        });
-      }
-    });
-  }
+  const mainContainer: YamlObject = {
+    name: main.name,
+    image: main.image,
+    ...(main.containerPort && { ports: [{ containerPort: main.containerPort }] }),
+    ...(main.command && main.command.length > 0 && { command: main.command }),
+    ...(main.args && main.args.length > 0 && { args: main.args }),
+    // Add resources, probes and securityContext
+    ...(main.settings && buildContainerSettings(main.settings)),
+    ...(main.envVars && main.envVars.length > 0 && { env: buildEnv(main.envVars) }),
+    // Add ConfigMaps and Secrets as env sources
+    ...((connectedConfigMaps.length > 0 || connectedSecrets.length > 0) && {
+      envFrom: [
+        ...connectedConfigMaps.map(cm => ({ configMapRef: { name: cm.name } })),
+        ...connectedSecrets.map(s => ({ secretRef: { name: s.name } })),
+      ],
+    }),
+    ...(volumeMounts.length > 0 && { volumeMounts }),
+  };
 
-  // Add volumes
-  if (connectedPVCs.length > 0) {
-    yaml += `
-      volumes:`;
-    connectedPVCs.forEach(pvc => {
-      yaml += `
-        - name: ${pvc.name}-volume
-          persistentVolumeClaim:
-            claimName: ${pvc.name}`;
-    });
-  }
+  // Init containers are sidecars with containerType: 'init'
+  const initContainers = connectedSidecars.filter(s => s.containerType === 'init');
+  const regularSidecars = connectedSidecars.filter(s => s.containerType === 'sidecar');
 
-  return yaml;
+  return {
+    ...(initContainers.length > 0 && { initContainers: initContainers.map(buildSidecarContainer) }),
+    containers: [mainContainer, ...regularSidecars.map(buildSidecarContainer)],
+    ...(connectedPVCs.length > 0 && {
+      volumes: connectedPVCs.map(pvc => ({
+        name: `${pvc.name}-volume`,
+        persistentVolumeClaim: { claimName: pvc.name },
+      })),
+    }),
+    ...(options.restartPolicy && { restartPolicy: options.restartPolicy }),
+    ...(options.nodeSelector && options.nodeSelector.length > 0 && {
+      nodeSelector: toRecord(options.nodeSelector),
+    }),
+    ...(options.tolerations && options.tolerations.length > 0 && {
+      tolerations: options.tolerations.map(t => ({
+        operator: t.operator,
+        ...(t.key && { key: t.key }),
+        ...(t.operator === 'Equal' && t.value && { value: t.value }),
+        ...(t.effect && { effect: t.effect }),
+      })),
+    }),
+  };
 }
 
-function generateConfigMapYaml(data: ConfigMapNodeData): string {
-  let yaml = `apiVersion: v1
-kind: ConfigMap
-metadata:
-  name: ${data.name}
-data:`;
+/**
+ * The selector and metadata labels follow the pod labels unless an imported
+ * manifest set them apart
+ */
+function getWorkloadLabels(data: DeploymentNodeData | StatefulSetNodeData | DaemonSetNodeData) {
+  const labels = toRecord(data.labels);
+  const selector = data.selectorLabels ? toRecord(data.selectorLabels) : labels;
+  const metadataLabels = data.metadataLabels ? toRecord(data.metadataLabels) : labels;
+  return {
+    labels,
+    selector: Object.keys(selector).length > 0 ? { matchLabels: selector } : {},
+    // Fields for the workload's own metadata, left out when there are no labels
+    metadata: Object.keys(metadataLabels).length > 0 ? { labels: metadataLabels } : {},
+  };
+}
 
-  data.data.forEach(d => {
-    yaml += `\n  ${d.key}: "${d.value}"`;
-  });
+function buildDeploymentManifest(
+  data: DeploymentNodeData,
+  connectedConfigMaps: ConfigMapNodeData[],
+  connectedSecrets: SecretNodeData[],
+  connectedPVCs: PVCNodeData[],
+  connectedSidecars: SidecarNodeData[] = []
+): K8sManifest {
+  const annotations = getTemplateAnnotations(data);
+  const { labels, selector, metadata } = getWorkloadLabels(data);
+
+  return {
+    apiVersion: 'apps/v1',
+    kind: 'Deployment',
+    metadata: {
+      name: data.deploymentName,
+      ...(annotations.length > 0 && { annotations: toRecord(annotations) }),
+      ...metadata,
+    },
+    spec: {
+      replicas: data.replicas,
+      selector,
+      template: {
+        metadata: { labels },
+        spec: buildPodSpec(
+          {
+            name: data.containerName,
+            image: data.image,
+            containerPort: data.containerPort,
+            envVars: data.envVars,
+            settings: { ...data, resources: mergeResources(data.resources, data.cloudProviderFields) },
+          },
+          connectedConfigMaps,
+          connectedSecrets,
+          connectedPVCs,
+          connectedSidecars
+        ),
+      },
+    },
+  };
+}
 
-  return yaml;
+function buildStatefulSetManifest(
+  data: StatefulSetNodeData,
+  connectedServices: ServiceNodeData[],
+  connectedConfigMaps: ConfigMapNodeData[],
+  connectedSecrets: SecretNodeData[],
+  connectedPVCs: PVCNodeData[],
+  connectedSidecars: SidecarNodeData[] = []
+): K8sManifest {
+  // Fall back to the connected (governing) Service when no serviceName is set
+  const serviceName = data.serviceName || connectedServices[0]?.serviceName || data.name;
+  const { labels, selector, metadata } = getWorkloadLabels(data);
+
+  return {
+    apiVersion: 'apps/v1',
+    kind: 'StatefulSet',
+    metadata: { name: data.name, ...metadata },
+    spec: {
+      serviceName,
+      replicas: data.replicas,
+      podManagementPolicy: data.podManagementPolicy,
+      updateStrategy: { type: data.updateStrategy },
+      selector,
+      template: {
+        metadata: { labels },
+        spec: buildPodSpec(
+          {
+            name: data.containerName,
+            image: data.image,
+            containerPort: data.containerPort,
+            envVars: data.envVars,
+            volumeMounts: data.volumeClaimTemplates.map(vct => ({ name: vct.name, mountPath: vct.mountPath })),
+            settings: data,
+          },
+          connectedConfigMaps,
+          connectedSecrets,
+          connectedPVCs,
+          connectedSidecars
+        ),
+      },
+      ...(data.volumeClaimTemplates.length > 0 && {
+        volumeClaimTemplates: data.volumeClaimTemplates.map(vct => ({
+          metadata: { name: vct.name },
+          spec: {
+            accessModes: vct.accessModes,
+            ...(vct.storageClassName && { storageClassName: vct.storageClassName }),
+            resources: { requests: { storage: vct.size } },
+          },
+        })),
+      }),
+    },
+  };
 }
 
-function generateSecretYaml(data: SecretNodeData): string {
-  let yaml = `apiVersion: v1
-kind: Secret
-metadata:
-  name: ${data.name}`;
+function buildDaemonSetManifest(
+  data: DaemonSetNodeData,
+  connectedConfigMaps: ConfigMapNodeData[],
+  connectedSecrets: SecretNodeData[],
+  connectedPVCs: PVCNodeData[],
+  connectedSidecars: SidecarNodeData[] = []
+): K8sManifest {
+  const { labels, selector, metadata } = getWorkloadLabels(data);
+
+  return {
+    apiVersion: 'apps/v1',
+    kind: 'DaemonSet',
+    metadata: { name: data.name, ...metadata },
+    spec: {
+      selector,
+      template: {
+        metadata: { labels },
+        spec: buildPodSpec(
+          {
+            name: data.containerName,
+            image: data.image,
+            containerPort: data.containerPort,
+            envVars: data.envVars,
+            settings: data,
+          },
+          connectedConfigMaps,
+          connectedSecrets,
+          connectedPVCs,
+          connectedSidecars,
+          { nodeSelector: data.nodeSelector, tolerations: data.tolerations }
+        ),
+      },
+    },
+  };
+}
 
-  // Add cloud provider annotations if template is selected
-  const cloudAnnotations = data.cloudProviderTemplateId && data.cloudProviderFields
-    ? (() => {
-        const template = getCloudProviderTemplate(data.cloudProviderTemplateId);
-        return template ? generateAnnotationsFromTemplate(template, data.cloudProviderFields) : [];
-      })()
-    : data.annotations || [];
-
-  if (cloudAnnotations.length > 0) {
-    yaml += `\n  annotations:`;
-    cloudAnnotations.forEach(a => {
-      yaml += `\n    ${a.key}: "${a.value}"`;
-    });
-  }
+function buildJobManifest(
+  data: JobNodeData,
+  connectedConfigMaps: ConfigMapNodeData[],
+  connectedSecrets: SecretNodeData[],
+  connectedPVCs: PVCNodeData[],
+  connectedSidecars: SidecarNodeData[] = []
+): K8sManifest {
+  return {
+    apiVersion: 'batch/v1',
+    kind: 'Job',
+    metadata: { name: data.name },
+    spec: {
+      completions: data.completions,
+      parallelism: data.parallelism,
+      backoffLimit: data.backoffLimit,
+      ...(data.ttlSecondsAfterFinished !== undefined && { ttlSecondsAfterFinished: data.ttlSecondsAfterFinished }),
+      template: {
+        spec: buildPodSpec(
+          {
+            name: data.containerName || data.name,
+            image: data.image,
+            command: data.command,
+            args: data.args,
+            envVars: data.envVars,
+            settings: data,
+          },
+          connectedConfigMaps,
+          connectedSecrets,
+          connectedPVCs,
+          connectedSidecars,
+          { restartPolicy: data.restartPolicy }
+        ),
+      },
+    },
+  };
+}
 
-  yaml += `
-type: ${data.secretType}
-data:`;
+function buildConfigMapManifest(data: ConfigMapNodeData): K8sManifest {
+  return {
+    apiVersion: 'v1',
+    kind: 'ConfigMap',
+    metadata: { name: data.name },
+    ...(data.data.length > 0 && { data: toRecord(data.data) }),
+  };
+}
 
-  data.data.forEach(d => {
-    const encoded = btoa(d.value);
-    yaml += `\n  ${d.key}: ${encoded}`;
-  });
+function buildSecretManifest(data: SecretNodeData): K8sManifest {
+  const annotations = getTemplateAnnotations(data);
+
+  return {
+    apiVersion: 'v1',
+    kind: 'Secret',
+    metadata: {
+      name: data.name,
+      ...(annotations.length > 0 && { annotations: toRecord(annotations) }),
+    },
+    type: data.secretType,
+    ...(data.data.length > 0 && { data: toRecord(data.data.map(d => ({ key: d.key, value: btoa(d.value) }))) }),
+  };
+}
 
-  return yaml;
+function buildPVCManifest(data: PVCNodeData): K8sManifest {
+  const annotations = getTemplateAnnotations(data);
+
+  return {
+    apiVersion: 'v1',
+    kind: 'PersistentVolumeClaim',
+    metadata: {
+      name: data.name,
+      ...(annotations.length > 0 && { annotations: toRecord(annotations) }),
+    },
+    spec: {
+      storageClassName: data.storageClassName,
+      accessModes: data.accessModes,
+      resources: { requests: { storage: data.size } },
+    },
+  };
 }
 
-function generatePVCYaml(data: PVCNodeData): string {
-  let yaml = `apiVersion: v1
-kind: PersistentVolumeClaim
-metadata:
-  name: ${data.name}`;
+function buildCronJobManifest(data: CronJobNodeData, apiVersion: string): K8sManifest {
+  return {
+    apiVersion,
+    kind: 'CronJob',
+    metadata: { name: data.name },
+    spec: {
+      schedule: data.schedule,
+      jobTemplate: {
+        spec: {
+          template: {
+            spec: {
+              containers: [{
+                name: data.containerName || data.name,
+                image: data.image,
+                ...(data.command && data.command.length > 0 && { command: data.command }),
+                ...(data.args && data.args.length > 0 && { args: data.args }),
+                ...buildContainerSettings(data),
+              }],
+              restartPolicy: data.restartPolicy || 'OnFailure',
+            },
+          },
+        },
+      },
+    },
+  };
+}
 
-  // Add cloud provider annotations if template is selected
-  const cloudAnnotations = data.cloudProviderTemplateId && data.cloudProviderFields
-    ? (() => {
-        const template = getCloudProviderTemplate(data.cloudProviderTemplateId);
-        return template ? generateAnnotationsFromTemplate(template, data.cloudProviderFields) : [];
-      })()
-    : data.annotations || [];
-
-  if (cloudAnnotations.length > 0) {
-    yaml += `\n  annotations:`;
-    cloudAnnotations.forEach(a => {
-      yaml += `\n    ${a.key}: "${a.value}"`;
-    });
-  }
+function buildHPAManifest(
+  data: HPANodeData,
+  apiVersion: string,
+  targetKind: 'Deployment' | 'StatefulSet' = 'Deployment',
+  targetName?: string
+): K8sManifest {
+  return {
+    apiVersion,
+    kind: 'HorizontalPodAutoscaler',
+    metadata: { name: data.name },
+    spec: {
+      scaleTargetRef: {
+        apiVersion: 'apps/v1',
+        kind: targetKind,
+        name: targetName || data.targetDeployment || 'my-deployment',
+      },
+      minReplicas: data.minReplicas,
+      maxReplicas: data.maxReplicas,
+      metrics: [{
+        type: 'Resource',
+        resource: {
+          name: data.metricResource || 'cpu',
+          target: { type: 'Utilization', averageUtilization: data.cpuTarget },
+        },
+      }],
+    },
+  };
+}
 
-  yaml += `
-spec:
-  storageClassName: ${data.storageClassName}
-  accessModes:
-${data.accessModes.map(m => `    - ${m}`).join('\n')}
-  resources:
-    requests:
-      storage: ${data.size}`;
-
-  return yaml;
-}
-
-function generateCronJobYaml(data: CronJobNodeData): string {
-  return `apiVersion: batch/v1
-kind: CronJob
-metadata:
-  name: ${data.name}
-spec:
-  schedule: "${data.schedule}"
-  jobTemplate:
-    spec:
-      template:
-        spec:
-          containers:
-            - name: ${data.name}
-              image: ${data.image}
-              command: ${JSON.stringify(data.command)}
-              args: ${JSON.stringify(data.args)}
-          restartPolicy: OnFailure`;
-}
-
-function generateHPAYaml(data: HPANodeData): string {
-  return `apiVersion: autoscaling/v2
-kind: HorizontalPodAutoscaler
-metadata:
-  name: ${data.name}
-spec:
-  scaleTargetRef:
-    apiVersion: apps/v1
-    kind: Deployment
-    name: ${data.targetDeployment || 'my-deployment'}
-  minReplicas: ${data.minReplicas}
-  maxReplicas: ${data.maxReplicas}
-  metrics:
-    - type: Resource
-      resource:
-        name: cpu
-        target:
-          type: Utilization
-          averageUtilization: ${data.cpuTarget}`;
-}
-
-function generatePodYaml(
+function buildPodManifest(
   data: PodNodeData,
   connectedConfigMaps: ConfigMapNodeData[],
   connectedSecrets: SecretNodeData[],
   connectedPVCs: PVCNodeData[],
   connectedSidecars: SidecarNodeData[] = []
-): string {
-  let yaml = `apiVersion: v1
-kind: Pod
-metadata:
-  name: ${data.name}
-spec:`;
-
-  // Add init containers (sidecars with containerType: 'init')
-  const initContainers = connectedSidecars.filter(s => s.containerType === 'init');
-  if (initContainers.length > 0) {
-    yaml += `
-  initContainers:`;
-    initContainers.forEach(sidecar => {
-      yaml += `
-    - name: ${sidecar.containerName}
-      image: ${sidecar.image}`;
-
-      if (sidecar.command && sidecar.command.length > 0) {
-        yaml += `
-      command:`;
-        sidecar.command.forEach(cmd => {
-          yaml += `
-        - "${cmd}"`;
-        });
-      }
+): K8sManifest {
+  return {
+    apiVersion: 'v1',
+    kind: 'Pod',
+    metadata: { name: data.name },
+    spec: buildPodSpec(
+      {
+        name: data.containerName || data.name,
+        image: data.image,
+        containerPort: data.containerPort,
+        settings: data,
+      },
+      connectedConfigMaps,
+      connectedSecrets,
+      connectedPVCs,
+      connectedSidecars
+    ),
+  };
+}
 
-      if (sidecar.args && sidecar.args.length > 0) {
-        yaml += `
-      args:`;
-        sidecar.args.forEach(arg => {
-          yaml += `
-        - "${arg}"`;
-        });
-      }
+function getConnectedWorkloadResources(nodeId: string, edges: Edge[], nodes: Node<K8sNodeData>[]) {
+  const connected = getConnectedNodes(nodeId, edges, nodes, 'source');
+  // ConfigMaps and Secrets referenced through valueFrom or a volume are not injected with envFrom
+  const injected = getConnectedNodes(nodeId, edges.filter(e => (e.data as ConfigReferenceEdgeData | undefined)?.envFrom !== false), nodes, 'source');
+  return {
+    configMaps: injected.filter(n => n.data.type === 'configmap').map(n => n.data as ConfigMapNodeData),
+    secrets: injected.filter(n => n.data.type === 'secret').map(n => n.data as SecretNodeData),
+    pvcs: connected.filter(n => n.data.type === 'pvc').map(n => n.data as PVCNodeData),
+    sidecars: connected.filter(n => n.data.type === 'sidecar').map(n => n.data as SidecarNodeData),
+  };
+}
 
-      if (sidecar.envVars.length > 0) {
-        yaml += `
-      env:`;
-        sidecar.envVars.forEach(e => {
-          yaml += `
-        - name: ${e.key}
-          value: "${e.value}"`;
-        });
-      }
+type NetworkPolicySource = 'ingress-controller' | 'namespace' | 'any';
 
-      if (sidecar.volumeMounts && sidecar.volumeMounts.length > 0) {
-        yaml += `
-      volumeMounts:`;
-        sidecar.volumeMounts.forEach(mount => {
-          yaml += `
-        - name: ${mount}
-          mountPath: /mnt/${mount}`;
-        });
-      }
-    });
-  }
+interface WorkloadIngressRule {
+  name: string;
+  podLabels: KeyValue[];
+  namespace?: string;
+  ports: Set<number | string>;
+  sources: Set<NetworkPolicySource>;
+}
 
-  yaml += `
-  containers:
-    - name: ${data.name}
-      image: ${data.image}
-      ports:
-        - containerPort: ${data.containerPort}`;
-
-  // Add ConfigMaps and Secrets as env sources
-  if (connectedConfigMaps.length > 0 || connectedSecrets.length > 0) {
-    yaml += `
-      envFrom:`;
-    connectedConfigMaps.forEach(cm => {
-      yaml += `
-        - configMapRef:
-            name: ${cm.name}`;
-    });
-    connectedSecrets.forEach(s => {
-      yaml += `
-        - secretRef:
-            name: ${s.name}`;
-    });
-  }
+const POD_WORKLOAD_TYPES = ['deployment', 'statefulset', 'daemonset', 'job', 'cronjob', 'pod'];
+
+function buildDefaultDenyPolicyManifest(): K8sManifest {
+  return {
+    apiVersion: 'networking.k8s.io/v1',
+    kind: 'NetworkPolicy',
+    metadata: { name: 'default-deny-ingress' },
+    spec: {
+      podSelector: {},
+      policyTypes: ['Ingress'],
+    },
+  };
+}
 
-  // Add volume mounts
-  if (connectedPVCs.length > 0) {
-    yaml += `
-      volumeMounts:`;
-    connectedPVCs.forEach((pvc) => {
-      yaml += `
-        - name: ${pvc.name}-volume
-          mountPath: /data/${pvc.name}`;
+function buildAllowPolicyManifest(rule: WorkloadIngressRule, ingressControllerNamespace: string): K8sManifest {
+  const from: YamlObject[] = [];
+  if (rule.sources.has('ingress-controller')) {
+    from.push({
+      namespaceSelector: { matchLabels: { 'kubernetes.io/metadata.name': ingressControllerNamespace } },
     });
   }
+  if (rule.sources.has('namespace')) {
+    from.push({ podSelector: {} });
+  }
 
-  // Add regular sidecar containers (not init containers)
-  const regularSidecars = connectedSidecars.filter(s => s.containerType === 'sidecar');
-  if (regularSidecars.length > 0) {
-    regularSidecars.forEach(sidecar => {
-      yaml += `
-    - name: ${sidecar.containerName}
-      image: ${sidecar.image}`;
-
-      if (sidecar.containerPort) {
-        yaml += `
-      ports:
-        - containerPort: ${sidecar.containerPort}`;
-      }
-
-      if (sidecar.command && sidecar.command.length > 0) {
-        yaml += `
-      command:`;
-        sidecar.command.forEach(cmd => {
-          yaml += `
-        - "${cmd}"`;
-        });
-      }
+  return {
+    apiVersion: 'networking.k8s.io/v1',
+    kind: 'NetworkPolicy',
+    metadata: { name: `allow-${rule.name}-ingress` },
+    spec: {
+      podSelector: { matchLabels: toRecord(rule.podLabels) },
+      policyTypes: ['Ingress'],
+      ingress: [{
+        // Omitting "from" admits every source, which is what NodePort/LoadBalancer Services need
+        ...(!rule.sources.has('any') && { from }),
+        ports: [...rule.ports].map(port => ({ protocol: 'TCP', port })),
+      }],
+    },
+  };
+}
 
-      if (sidecar.args && sidecar.args.length > 0) {
-        yaml += `
-      args:`;
-        sidecar.args.forEach(arg => {
-          yaml += `
-        - "${arg}"`;
-        });
-      }
+/**
+ * Derives a zero-trust baseline from the edges: a default-deny policy per
+ * namespace that runs pods, plus one allow policy per Service-backed workload
+ * that admits traffic on its container port only from where the graph says
+ * traffic comes from (the ingress controller, same-namespace pods, or anywhere
+ * for NodePort/LoadBalancer Services).
+ */
+function buildNetworkPolicyManifests(nodes: Node<K8sNodeData>[], edges: Edge[], ingressControllerNamespace: string): K8sManifest[] {
+  const policies: K8sManifest[] = [];
+
+  const podNamespaces = new Set<string | undefined>();
+  nodes
+    .filter(n => POD_WORKLOAD_TYPES.includes(n.data.type))
+    .forEach(n => podNamespaces.add(getNodeNamespace(n, nodes)));
+  podNamespaces.forEach(namespace => {
+    const manifest = buildDefaultDenyPolicyManifest();
+    policies.push(namespace ? withNamespace(manifest, namespace) : manifest);
+  });
 
-      if (sidecar.envVars.length > 0) {
-        yaml += `
-      env:`;
-        sidecar.envVars.forEach(e => {
-          yaml += `
-        - name: ${e.key}
-          value: "${e.value}"`;
-        });
+  const rules = new Map<string, WorkloadIngressRule>();
+  nodes.filter(n => n.data.type === 'service').forEach(serviceNode => {
+    const service = serviceNode.data as ServiceNodeData;
+    const frontedByIngress = getConnectedNodes(serviceNode.id, edges, nodes, 'target')
+      .some(n => n.data.type === 'ingress');
+    const source: NetworkPolicySource = service.serviceType !== 'ClusterIP' && !service.headless
+      ? 'any'
+      : frontedByIngress ? 'ingress-controller' : 'namespace';
+    const serviceSelector = service.selectorLabels.length > 0
+      ? service.selectorLabels
+      : [{ key: 'app', value: service.serviceName }];
+
+    getConnectedNodes(serviceNode.id, edges, nodes, 'source').forEach(workload => {
+      const data = workload.data;
+      let target: Pick<WorkloadIngressRule, 'name' | 'podLabels'> & { port?: number };
+      switch (data.type) {
+        case 'deployment':
+          target = { name: data.deploymentName, podLabels: data.labels, port: data.containerPort };
+          break;
+        case 'statefulset':
+        case 'daemonset':
+          target = { name: data.name, podLabels: data.labels, port: data.containerPort };
+          break;
+        case 'pod':
+          // Standalone pods carry no labels of their own, so reuse what the Service selects on
+          target = { name: data.name, podLabels: serviceSelector, port: data.containerPort };
+          break;
+        default:
+          return;
       }
 
-      if (sidecar.volumeMounts && sidecar.volumeMounts.length > 0) {
-        yaml += `
-      volumeMounts:`;
-        sidecar.volumeMounts.forEach(mount => {
-          yaml += `
-        - name: ${mount}
-          mountPath: /mnt/${mount}`;
-        });
-      }
+      const rule = rules.get(workload.id) || {
+        name: target.name,
+        podLabels: target.podLabels.length > 0 ? target.podLabels : serviceSelector,
+        namespace: getNodeNamespace(workload, nodes),
+        ports: new Set<number | string>(),
+        sources: new Set<NetworkPolicySource>(),
+      };
+      rule.ports.add(target.port || service.targetPort);
+      rule.sources.add(source);
+      rules.set(workload.id, rule);
     });
-  }
+  });
 
-  // Add volumes
-  if (connectedPVCs.length > 0) {
-    yaml += `
-  volumes:`;
-    connectedPVCs.forEach(pvc => {
-      yaml += `
-    - name: ${pvc.name}-volume
-      persistentVolumeClaim:
-        claimName: ${pvc.name}`;
-    });
-  }
+  rules.forEach(rule => {
+    const manifest = buildAllowPolicyManifest(rule, ingressControllerNamespace);
+    policies.push(rule.namespace ? withNamespace(manifest, rule.namespace) : manifest);
+  });
 
-  return yaml;
+  return policies;
 }
 
-export function generateYamlFromGraph(nodes: Node<K8sNodeData>[], edges: Edge[]): GeneratedYaml {
-  const result: GeneratedYaml = {
+/**
+ * Builds every manifest the diagram describes as plain objects, grouped by
+ * kind. Exporters that need structured output start here instead of
+ * re-parsing the generated YAML.
+ */
+export function generateManifestsFromGraph(
+  nodes: Node<K8sNodeData>[],
+  edges: Edge[],
+  settings: DiagramSettings = defaultDiagramSettings
+): GeneratedManifests {
+  const result: GeneratedManifests = {
+    namespaces: [],
     ingresses: [],
     services: [],
     deployments: [],
+    statefulsets: [],
+    daemonsets: [],
+    jobs: [],
     configmaps: [],
     secrets: [],
     pvcs: [],
     cronjobs: [],
     hpas: [],
     pods: [],
+    networkpolicies: [],
   };
 
   nodes.forEach(node => {
     const data = node.data;
-    
+
+    // Resources dropped inside a Namespace container inherit its namespace.
+    // Fields the node doesn't model come back from its passthrough layer.
+    const namespace = getNodeNamespace(node, nodes);
+    const push = (list: K8sManifest[], manifest: K8sManifest) => {
+      const passthrough = data.type !== 'sidecar' ? data.passthrough : undefined;
+      list.push(mergePassthrough(namespace ? withNamespace(manifest, namespace) : manifest, passthrough));
+    };
+
     switch (data.type) {
+      case 'namespace':
+        push(result.namespaces, buildNamespaceManifest(data));
+        break;
       case 'ingress': {
         const connectedServices = getConnectedNodes(node.id, edges, nodes, 'source')
           .filter(n => n.data.type === 'service')
           .map(n => n.data as ServiceNodeData);
-        result.ingresses.push(generateIngressYaml(data, connectedServices));
+        push(result.ingresses, buildIngressManifest(data, connectedServices));
         break;
       }
       case 'service': {
-        const connectedDeployments = getConnectedNodes(node.id, edges, nodes, 'source')
-          .filter(n => n.data.type === 'deployment')
-          .map(n => n.data as DeploymentNodeData);
-        result.services.push(generateServiceYaml(data, connectedDeployments));
+        const connectedWorkloads = getConnectedNodes(node.id, edges, nodes, 'source')
+          .filter(n => n.data.type === 'deployment' || n.data.type === 'statefulset' || n.data.type === 'daemonset')
+          .map(n => n.data as DeploymentNodeData | StatefulSetNodeData | DaemonSetNodeData);
+        push(result.services, buildServiceManifest(data, connectedWorkloads));
         break;
       }
       case 'deployment': {
-        const connectedConfigMaps = getConnectedNodes(node.id, edges, nodes, 'source')
-          .filter(n => n.data.type === 'configmap')
-          .map(n => n.data as ConfigMapNodeData);
-        const connectedSecrets = getConnectedNodes(node.id, edges, nodes, 'source')
-          .filter(n => n.data.type === 'secret')
-          .map(n => n.data as SecretNodeData);
-        const connectedPVCs = getConnectedNodes(node.id, edges, nodes, 'source')
-          .filter(n => n.data.type === 'pvc')
-          .map(n => n.data as PVCNodeData);
-        const connectedSidecars = getConnectedNodes(node.id, edges, nodes, 'source')
-          .filter(n => n.data.type === 'sidecar')
-          .map(n => n.data as SidecarNodeData);
-        result.deployments.push(generateDeploymentYaml(data, connectedConfigMaps, connectedSecrets, connectedPVCs, connectedSidecars));
+        const { configMaps, secrets, pvcs, sidecars } = getConnectedWorkloadResources(node.id, edges, nodes);
+        push(result.deployments, buildDeploymentManifest(data, configMaps, secrets, pvcs, sidecars));
+        break;
+      }
+      case 'statefulset': {
+        const connectedServices = getConnectedNodes(node.id, edges, nodes, 'target')
+          .filter(n => n.data.type === 'service')
+          .map(n => n.data as ServiceNodeData);
+        const { configMaps, secrets, pvcs, sidecars } = getConnectedWorkloadResources(node.id, edges, nodes);
+        push(result.statefulsets, buildStatefulSetManifest(data, connectedServices, configMaps, secrets, pvcs, sidecars));
+        break;
+      }
+      case 'daemonset': {
+        const { configMaps, secrets, pvcs, sidecars } = getConnectedWorkloadResources(node.id, edges, nodes);
+        push(result.daemonsets, buildDaemonSetManifest(data, configMaps, secrets, pvcs, sidecars));
+        break;
+      }
+      case 'job': {
+        const { configMaps, secrets, pvcs, sidecars } = getConnectedWorkloadResources(node.id, edges, nodes);
+        push(result.jobs, buildJobManifest(data, configMaps, secrets, pvcs, sidecars));
         break;
       }
       case 'configmap':
-        result.configmaps.push(generateConfigMapYaml(data));
+        push(result.configmaps, buildConfigMapManifest(data));
         break;
       case 'secret':
-        result.secrets.push(generateSecretYaml(data));
+        push(result.secrets, buildSecretManifest(data));
         break;
       case 'pvc':
-        result.pvcs.push(generatePVCYaml(data));
+        push(result.pvcs, buildPVCManifest(data));
         break;
       case 'cronjob':
-        result.cronjobs.push(generateCronJobYaml(data));
+        // batch/v1 CronJobs need 1.21; older clusters only serve batch/v1beta1
+        push(result.cronjobs, buildCronJobManifest(data, getPreferredApiVersion('CronJob', settings.kubernetesVersion)));
         break;
-      case 'hpa':
-        result.hpas.push(generateHPAYaml(data));
+      case 'hpa': {
+        // An HPA wired to a StatefulSet scales that StatefulSet instead of a Deployment
+        const targetStatefulSet = getConnectedNodes(node.id, edges, nodes, 'source')
+          .find(n => n.data.type === 'statefulset');
+        // autoscaling/v2 needs 1.23; older clusters get the same spec as autoscaling/v2beta2
+        const apiVersion = getPreferredApiVersion('HorizontalPodAutoscaler', settings.kubernetesVersion);
+        push(result.hpas, targetStatefulSet
+          ? buildHPAManifest(data, apiVersion, 'StatefulSet', (targetStatefulSet.data as StatefulSetNodeData).name)
+          : buildHPAManifest(data, apiVersion));
         break;
+      }
       case 'pod': {
-        const connectedConfigMaps = getConnectedNodes(node.id, edges, nodes, 'source')
-          .filter(n => n.data.type === 'configmap')
-          .map(n => n.data as ConfigMapNodeData);
-        const connectedSecrets = getConnectedNodes(node.id, edges, nodes, 'source')
-          .filter(n => n.data.type === 'secret')
-          .map(n => n.data as SecretNodeData);
-        const connectedPVCs = getConnectedNodes(node.id, edges, nodes, 'source')
-          .filter(n => n.data.type === 'pvc')
-          .map(n => n.data as PVCNodeData);
-        const connectedSidecars = getConnectedNodes(node.id, edges, nodes, 'source')
-          .filter(n => n.data.type === 'sidecar')
-          .map(n => n.data as SidecarNodeData);
-        result.pods.push(generatePodYaml(data, connectedConfigMaps, connectedSecrets, connectedPVCs, connectedSidecars));
+        const { configMaps, secrets, pvcs, sidecars } = getConnectedWorkloadResources(node.id, edges, nodes);
+        push(result.pods, buildPodManifest(data, configMaps, secrets, pvcs, sidecars));
         break;
       }
     }
   });
 
+  if (settings.networkPolicies) {
+    result.networkpolicies = buildNetworkPolicyManifests(nodes, edges, settings.ingressControllerNamespace);
+  }
+
   return result;
 }
 
+/**
+ * Serializes a manifest with js-yaml, which handles quoting and renders
+ * multi-line values (config files, certificates) as block scalars
+ */
+export function manifestToYaml(manifest: K8sManifest): string {
+  return yaml.dump(manifest, { lineWidth: -1, noRefs: true, quotingType: '"' }).trimEnd();
+}
+
+export function manifestsToYamls(manifests: GeneratedManifests): GeneratedYaml {
+  const result = {} as GeneratedYaml;
+  (Object.keys(manifests) as (keyof GeneratedYaml)[]).forEach(kind => {
+    result[kind] = manifests[kind].map(manifestToYaml);
+  });
+  return result;
+}
+
+export function generateYamlFromGraph(
+  nodes: Node<K8sNodeData>[],
+  edges: Edge[],
+  settings: DiagramSettings = defaultDiagramSettings
+): GeneratedYaml {
+  return manifestsToYamls(generateManifestsFromGraph(nodes, edges, settings));
+}
+
 export function combineYamls(yamls: GeneratedYaml): string {
   const all = [
+    ...yamls.namespaces,
     ...yamls.configmaps,
     ...yamls.secrets,
     ...yamls.pvcs,
     ...yamls.pods,
     ...yamls.deployments,
+    ...yamls.statefulsets,
+    ...yamls.daemonsets,
     ...yamls.services,
     ...yamls.ingresses,
+    ...yamls.jobs,
     ...yamls.cronjobs,
     ...yamls.hpas,
+    ...yamls.networkpolicies,
   ];
   return all.join('\n---\n');
 }
@@ -1,117 +1,227 @@
 import * as yaml from 'js-yaml';
 import { Node, Edge } from 'reactflow';
-import { K8sNodeData, K8sNodeType } from '@/types/k8s';
+import { ConfigReferenceEdgeData, ContainerSettings, DiagramSettings, K8sNodeData, K8sNodeType, KeyValue, LayoutDirection, NAMESPACE_DEFAULT_SIZE, Probe, defaultDiagramSettings, getFlowNodeType } from '@/types/k8s';
 import { YAML_BASE } from '@/types/template';
+import { layoutDiagram } from './autoLayout';
+import { LintProblem, findResourceNode } from './diagramLint';
+import { orderedManifests } from './manifests';
+import { extractPassthrough } from './passthrough';
+import { generateManifestsFromGraph } from './yamlGenerator';
+import { validateImportedDocuments } from './schemaValidation';
+import { ApiVersionUpgrade, DEFAULT_KUBERNETES_VERSION, KubernetesDocument, upgradeApiVersion } from './kubernetesVersions';
 
 interface K8sResource {
   apiVersion: string;
   kind: string;
   metadata: {
     name: string;
+    namespace?: string;
     labels?: Record<string, string>;
     annotations?: Record<string, string>;
   };
   spec?: any;
 }
 
+interface K8sProbe {
+  httpGet?: { path?: string; port?: number | string };
+  tcpSocket?: { port?: number | string };
+  exec?: { command?: string[] };
+  initialDelaySeconds?: number;
+  periodSeconds?: number;
+  timeoutSeconds?: number;
+  failureThreshold?: number;
+}
+
+interface K8sContainer {
+  resources?: {
+    requests?: Record<string, string | number>;
+    limits?: Record<string, string | number>;
+  };
+  livenessProbe?: K8sProbe;
+  readinessProbe?: K8sProbe;
+  startupProbe?: K8sProbe;
+  securityContext?: {
+    runAsNonRoot?: boolean;
+    runAsUser?: number;
+    readOnlyRootFilesystem?: boolean;
+    allowPrivilegeEscalation?: boolean;
+    capabilities?: { drop?: string[] };
+  };
+}
+
+export interface ParsedGraph {
+  nodes: Node<K8sNodeData>[];
+  edges: Edge[];
+  // Schema validation errors, attached to the node each document became
+  schemaErrors: LintProblem[];
+  // Documents with a deprecated apiVersion; only rewritten when upgradeApiVersions is set
+  apiUpgrades: ApiVersionUpgrade[];
+  // The document each node was built from, by node id
+  sourceDocuments: Map<string, KubernetesDocument>;
+}
+
+export interface ParseYamlOptions {
+  // Version documents are validated against and deprecated apiVersions are upgraded for
+  kubernetesVersion?: string;
+  upgradeApiVersions?: boolean;
+  // Flow direction of the layered layout applied to the imported resources
+  layoutDirection?: LayoutDirection;
+}
+
 let nodeIdCounter = 1000; // Start with a high number to avoid conflicts
 
 const getNextNodeId = () => `node_${nodeIdCounter++}`;
 
 /**
- * Parses a YAML string and converts it into nodes and edges for the diagram
+ * Parses a YAML string and converts it into nodes and edges for the diagram.
+ * Each document is also validated against the schemas of the target Kubernetes
+ * version, and documents using deprecated apiVersions are reported (and
+ * upgraded when requested) before they are converted. The resulting graph is
+ * positioned with the layered auto-layout.
  */
-export async function parseYamlToGraph(yamlText: string): Promise<{ nodes: Node<K8sNodeData>[]; edges: Edge[] }> {
+export async function parseYamlToGraph(
+  yamlText: string,
+  { kubernetesVersion = DEFAULT_KUBERNETES_VERSION, upgradeApiVersions = false, layoutDirection = 'TB' }: ParseYamlOptions = {}
+): Promise<ParsedGraph> {
   const nodes: Node<K8sNodeData>[] = [];
   const edges: Edge[] = [];
 
   // Parse YAML (can be multiple documents separated by ---)
-  const documents = yaml.loadAll(yamlText) as K8sResource[];
-
-  // Track resources by type for positioning
-  const positionTracker: Record<string, number> = {};
-  const getPosition = (type: string) => {
-    const count = positionTracker[type] || 0;
-    positionTracker[type] = count + 1;
-    return {
-      x: 100 + (count % 3) * 300,
-      y: 100 + Math.floor(count / 3) * 180 + getYOffset(type)
-    };
-  };
-
-  const getYOffset = (kind: string): number => {
-    const order = ['Ingress', 'Service', 'Deployment', 'Pod', 'Sidecar', 'ConfigMap', 'Secret', 'PersistentVolumeClaim', 'CronJob', 'HorizontalPodAutoscaler'];
-    return order.indexOf(kind) * 160;
-  };
+  const apiUpgrades: ApiVersionUpgrade[] = [];
+  const documents = (yaml.loadAll(yamlText) as K8sResource[]).map((doc, documentIndex) => {
+    if (!doc || !doc.kind) return doc;
+    const result = upgradeApiVersion(doc, kubernetesVersion);
+    if (!result) return doc;
+    apiUpgrades.push({ documentIndex, ...result.upgrade });
+    return upgradeApiVersions ? result.manifest : doc;
+  });
+
+  // Collect namespaces in order of appearance; each gets its own container on the canvas
+  const namespaceNames: string[] = [];
+  const namespaceDocs = new Map<string, K8sResource>();
+  for (const doc of documents) {
+    if (!doc || !doc.kind) continue;
+    const namespace = doc.kind === 'Namespace' ? doc.metadata?.name : doc.metadata?.namespace;
+    if (namespace && !namespaceNames.includes(namespace)) {
+      namespaceNames.push(namespace);
+    }
+    if (doc.kind === 'Namespace' && doc.metadata?.name) {
+      namespaceDocs.set(doc.metadata.name, doc);
+    }
+  }
 
-  // Map to track resources by name and kind for relationship building
+  // Map to track resources by kind, name and namespace for relationship building
   const resourceMap = new Map<string, { nodeId: string; resource: K8sResource }>();
+  const namespaceMembers = new Map<string, Node<K8sNodeData>[]>();
+  // Node created for each document, by document index
+  const documentNodeIds = new Map<number, string>();
 
   // Convert each resource to a node
-  for (const doc of documents) {
-    if (!doc || !doc.kind) continue;
+  for (const [index, doc] of documents.entries()) {
+    if (!doc || !doc.kind || doc.kind === 'Namespace') continue;
 
     const nodeType = mapKindToNodeType(doc.kind);
     if (!nodeType) continue;
 
+    const namespace = doc.metadata?.namespace;
     const nodeId = getNextNodeId();
-    const position = getPosition(doc.kind);
 
     const nodeData = convertResourceToNodeData(doc, nodeType);
     if (!nodeData) continue;
 
-    nodes.push({
+    const node: Node<K8sNodeData> = {
       id: nodeId,
-      type: 'k8sNode',
-      position,
+      type: getFlowNodeType(nodeType),
+      // Placed by the auto-layout once all edges are known
+      position: { x: 0, y: 0 },
       data: nodeData
-    });
+    };
+    nodes.push(node);
+
+    if (namespace) {
+      namespaceMembers.set(namespace, [...(namespaceMembers.get(namespace) || []), node]);
+    }
 
     // Track this resource for relationship building
-    const resourceKey = `${doc.kind}:${doc.metadata.name}`;
-    resourceMap.set(resourceKey, { nodeId, resource: doc });
+    resourceMap.set(resourceKey(doc.kind, doc.metadata?.name, namespace), { nodeId, resource: doc });
+    documentNodeIds.set(index, nodeId);
   }
 
+  // Wrap each namespace's resources in a Namespace container; the auto-layout
+  // sizes it to fit them. Containers go first because React Flow requires
+  // parents before children.
+  const namespaceNodes: Node<K8sNodeData>[] = namespaceNames.map(namespace => {
+    const namespaceNodeId = getNextNodeId();
+    (namespaceMembers.get(namespace) || []).forEach(member => {
+      member.parentId = namespaceNodeId;
+    });
+
+    const namespaceDoc = namespaceDocs.get(namespace);
+    if (namespaceDoc) {
+      documentNodeIds.set(documents.indexOf(namespaceDoc), namespaceNodeId);
+    }
+
+    return {
+      id: namespaceNodeId,
+      type: getFlowNodeType('namespace'),
+      position: { x: 0, y: 0 },
+      style: { ...NAMESPACE_DEFAULT_SIZE },
+      data: {
+        type: 'namespace',
+        label: namespace,
+        name: namespace,
+        labels: Object.entries(namespaceDoc?.metadata?.labels || {}).map(([key, value]) => ({ key, value: String(value) }))
+      }
+    };
+  });
+  nodes.unshift(...namespaceNodes);
+
   // Build edges based on K8s relationships
   let edgeIdCounter = 0;
-  const createEdge = (sourceId: string, targetId: string) => {
+  const createEdge = (sourceId: string, targetId: string, data?: ConfigReferenceEdgeData) => {
     edges.push({
       id: `e${edgeIdCounter++}`,
       source: sourceId,
       target: targetId,
-      animated: true
+      animated: true,
+      ...(data && { data })
     });
   };
 
   for (const [key, { nodeId, resource }] of resourceMap) {
     const kind = resource.kind;
+    const namespace = resource.metadata?.namespace;
 
     // Ingress -> Service connections
     if (kind === 'Ingress') {
+      // One edge per Service, however many paths route to it
+      const serviceIds = new Set<string>();
       const rules = resource.spec?.rules || [];
       for (const rule of rules) {
         const paths = rule.http?.paths || [];
         for (const path of paths) {
           const serviceName = path.backend?.service?.name;
           if (serviceName) {
-            const serviceKey = `Service:${serviceName}`;
+            const serviceKey = resourceKey('Service', serviceName, namespace);
             const service = resourceMap.get(serviceKey);
             if (service) {
-              createEdge(nodeId, service.nodeId);
+              serviceIds.add(service.nodeId);
             }
           }
         }
       }
+      serviceIds.forEach(serviceId => createEdge(nodeId, serviceId));
     }
 
-    // Service -> Deployment/Pod connections (based on selector labels)
+    // Service -> Deployment/StatefulSet/DaemonSet/Pod connections (based on selector labels)
     if (kind === 'Service') {
       const serviceSelector = resource.spec?.selector || {};
 
-      // Find deployments/pods with matching labels
+      // Find workloads with matching labels
       for (const [targetKey, targetInfo] of resourceMap) {
-        if (targetKey.startsWith('Deployment:') || targetKey.startsWith('Pod:')) {
+        if (['Deployment:', 'StatefulSet:', 'DaemonSet:', 'Pod:'].some(prefix => targetKey.startsWith(prefix))) {
           const targetResource = targetInfo.resource;
+          if (targetResource.metadata?.namespace !== namespace) continue;
           const targetLabels = targetResource.spec?.template?.metadata?.labels ||
                               targetResource.metadata?.labels || {};
 
@@ -127,88 +237,63 @@ export async function parseYamlToGraph(yamlText: string): Promise<{ nodes: Node<
       }
     }
 
-    // Deployment/CronJob -> ConfigMap/Secret connections
-    if (kind === 'Deployment' || kind === 'CronJob') {
-      const containers = kind === 'Deployment'
+    // Workload -> ConfigMap/Secret connections
+    if (['Deployment', 'StatefulSet', 'DaemonSet', 'Job', 'CronJob'].includes(kind)) {
+      const containers = kind !== 'CronJob'
         ? resource.spec?.template?.spec?.containers || []
         : resource.spec?.jobTemplate?.spec?.template?.spec?.containers || [];
 
+      // One edge per ConfigMap/Secret; only envFrom references inject all of its keys
+      const configRefs = new Map<string, boolean>();
+      const addConfigRef = (refKind: 'ConfigMap' | 'Secret', refName: string, envFrom: boolean) => {
+        const target = resourceMap.get(resourceKey(refKind, refName, namespace));
+        if (target) {
+          configRefs.set(target.nodeId, envFrom || configRefs.get(target.nodeId) === true);
+        }
+      };
+
       for (const container of containers) {
         // envFrom references
         const envFrom = container.envFrom || [];
         for (const ref of envFrom) {
-          if (ref.configMapRef?.name) {
-            const configMapKey = `ConfigMap:${ref.configMapRef.name}`;
-            const configMap = resourceMap.get(configMapKey);
-            if (configMap) {
-              createEdge(nodeId, configMap.nodeId);
-            }
-          }
-          if (ref.secretRef?.name) {
-            const secretKey = `Secret:${ref.secretRef.name}`;
-            const secret = resourceMap.get(secretKey);
-            if (secret) {
-              createEdge(nodeId, secret.nodeId);
-            }
-          }
+          if (ref.configMapRef?.name) addConfigRef('ConfigMap', ref.configMapRef.name, true);
+          if (ref.secretRef?.name) addConfigRef('Secret', ref.secretRef.name, true);
         }
 
         // env valueFrom references
         const env = container.env || [];
         for (const envVar of env) {
-          if (envVar.valueFrom?.configMapKeyRef?.name) {
-            const configMapKey = `ConfigMap:${envVar.valueFrom.configMapKeyRef.name}`;
-            const configMap = resourceMap.get(configMapKey);
-            if (configMap) {
-              createEdge(nodeId, configMap.nodeId);
-            }
-          }
-          if (envVar.valueFrom?.secretKeyRef?.name) {
-            const secretKey = `Secret:${envVar.valueFrom.secretKeyRef.name}`;
-            const secret = resourceMap.get(secretKey);
-            if (secret) {
-              createEdge(nodeId, secret.nodeId);
-            }
-          }
+          if (envVar.valueFrom?.configMapKeyRef?.name) addConfigRef('ConfigMap', envVar.valueFrom.configMapKeyRef.name, false);
+          if (envVar.valueFrom?.secretKeyRef?.name) addConfigRef('Secret', envVar.valueFrom.secretKeyRef.name, false);
         }
       }
 
       // Volume mounts -> PVC connections
-      const volumes = kind === 'Deployment'
+      const volumes = kind !== 'CronJob'
         ? resource.spec?.template?.spec?.volumes || []
         : resource.spec?.jobTemplate?.spec?.template?.spec?.volumes || [];
 
       for (const volume of volumes) {
         if (volume.persistentVolumeClaim?.claimName) {
-          const pvcKey = `PersistentVolumeClaim:${volume.persistentVolumeClaim.claimName}`;
+          const pvcKey = resourceKey('PersistentVolumeClaim', volume.persistentVolumeClaim.claimName, namespace);
           const pvc = resourceMap.get(pvcKey);
           if (pvc) {
             createEdge(nodeId, pvc.nodeId);
           }
         }
-        if (volume.configMap?.name) {
-          const configMapKey = `ConfigMap:${volume.configMap.name}`;
-          const configMap = resourceMap.get(configMapKey);
-          if (configMap) {
-            createEdge(nodeId, configMap.nodeId);
-          }
-        }
-        if (volume.secret?.secretName) {
-          const secretKey = `Secret:${volume.secret.secretName}`;
-          const secret = resourceMap.get(secretKey);
-          if (secret) {
-            createEdge(nodeId, secret.nodeId);
-          }
-        }
+        if (volume.configMap?.name) addConfigRef('ConfigMap', volume.configMap.name, false);
+        if (volume.secret?.secretName) addConfigRef('Secret', volume.secret.secretName, false);
       }
+
+      configRefs.forEach((envFrom, targetId) => createEdge(nodeId, targetId, envFrom ? undefined : { envFrom: false }));
     }
 
-    // HPA -> Deployment connections
+    // HPA -> Deployment/StatefulSet connections
     if (kind === 'HorizontalPodAutoscaler') {
       const targetName = resource.spec?.scaleTargetRef?.name;
       const targetKind = resource.spec?.scaleTargetRef?.kind || 'Deployment';
       if (targetName) {
-        const targetKey = `${targetKind}:${targetName}`;
+        const targetKey = resourceKey(targetKind, targetName, namespace);
         const target = resourceMap.get(targetKey);
         if (target) {
           createEdge(nodeId, target.nodeId);
@@ -217,7 +302,44 @@ export async function parseYamlToGraph(yamlText: string): Promise<{ nodes: Node<
     }
   }
 
-  return { nodes, edges };
+  const schemaErrors = validateImportedDocuments(documents, documentNodeIds, kubernetesVersion);
+
+  const sourceDocuments = new Map<string, KubernetesDocument>();
+  documentNodeIds.forEach((nodeId, index) => sourceDocuments.set(nodeId, documents[index]));
+
+  const settings = { ...defaultDiagramSettings, kubernetesVersion };
+  const positioned = layoutDiagram(nodes, edges, layoutDirection);
+  return { nodes: attachPassthrough(positioned, edges, sourceDocuments, settings), edges, schemaErrors, apiUpgrades, sourceDocuments };
+}
+
+/**
+ * Stores the parts of each source document the generator doesn't reproduce
+ * on its node, so exporting an unedited import gives back the same manifests.
+ * Nodes without a source document keep their passthrough as is.
+ */
+export function attachPassthrough(
+  nodes: Node<K8sNodeData>[],
+  edges: Edge[],
+  sourceDocuments: Map<string, KubernetesDocument>,
+  settings: DiagramSettings
+): Node<K8sNodeData>[] {
+  const hasSource = (node: Node<K8sNodeData>) => node.data.type !== 'sidecar' && sourceDocuments.has(node.id);
+  const stripped = nodes.map(node => (hasSource(node) ? { ...node, data: { ...node.data, passthrough: undefined } } : node));
+  const generated = orderedManifests(generateManifestsFromGraph(stripped, edges, settings));
+
+  return stripped.map(node => {
+    if (!hasSource(node)) return node;
+    const manifest = generated.find(m => findResourceNode(m, stripped)?.id === node.id);
+    const passthrough = extractPassthrough(sourceDocuments.get(node.id), manifest) as Record<string, unknown> | undefined;
+    return passthrough ? { ...node, data: { ...node.data, passthrough } } : node;
+  });
+}
+
+/**
+ * Builds the lookup key for a resource; references only resolve within a namespace
+ */
+function resourceKey(kind: string, name: string, namespace?: string): string {
+  return `${kind}:${name}@${namespace || ''}`;
 }
 
 /**
@@ -225,9 +347,13 @@ export async function parseYamlToGraph(yamlText: string): Promise<{ nodes: Node<
  */
 function mapKindToNodeType(kind: string): K8sNodeType | null {
   const mapping: Record<string, K8sNodeType> = {
+    'Namespace': 'namespace',
     'Ingress': 'ingress',
     'Service': 'service',
     'Deployment': 'deployment',
+    'StatefulSet': 'statefulset',
+    'DaemonSet': 'daemonset',
+    'Job': 'job',
     'Pod': 'pod',
     'ConfigMap': 'configmap',
     'Secret': 'secret',
@@ -238,6 +364,13 @@ function mapKindToNodeType(kind: string): K8sNodeType | null {
   return mapping[kind] || null;
 }
 
+/**
+ * Whether documents of this kind become a node
+ */
+export function isSupportedKind(kind: string): boolean {
+  return mapKindToNodeType(kind) !== null;
+}
+
 /**
  * Converts a K8s resource object to node data
  */
@@ -245,20 +378,36 @@ function convertResourceToNodeData(resource: K8sResource, nodeType: K8sNodeType)
   const name = resource.metadata?.name || 'Unnamed';
 
   switch (nodeType) {
+    case 'namespace':
+      return {
+        type: 'namespace',
+        label: name,
+        name: name,
+        labels: Object.entries(resource.metadata?.labels || {}).map(([key, value]) => ({ key, value: String(value) }))
+      };
+
     case 'ingress':
       return {
         type: 'ingress',
-        label: name,
-        host: resource.spec?.rules?.[0]?.host || 'example.com',
-        paths: resource.spec?.rules?.[0]?.http?.paths?.map((p: any) => ({
-          path: p.path || '/',
-          pathType: p.pathType || 'Prefix',
-          serviceName: p.backend?.service?.name || '',
-          servicePort: p.backend?.service?.port?.number || 80
-        })) || [{ path: '/', pathType: 'Prefix', serviceName: '', servicePort: 80 }],
+        // The generator appends "-ingress" to the label, so strip it to keep the name
+        label: name.replace(/-ingress$/, ''),
+        ...(!name.endsWith('-ingress') && { name }),
+        rules: (resource.spec?.rules || []).map(rule => ({
+          host: rule.host || '',
+          paths: (rule.http?.paths || []).map((p: any) => ({
+            path: p.path || '/',
+            pathType: p.pathType || 'Prefix',
+            serviceName: p.backend?.service?.name || '',
+            // A named port is kept by name; 0 falls back to the Service's port
+            servicePort: p.backend?.service?.port?.number || 0,
+            ...(p.backend?.service?.port?.name && { servicePortName: p.backend.service.port.name })
+          }))
+        })),
+        tls: (resource.spec?.tls || []).map(t => ({
+          hosts: t.hosts || [],
+          secretName: t.secretName || ''
+        })),
         ingressClassName: resource.spec?.ingressClassName || 'nginx',
-        enableTLS: !!resource.spec?.tls,
-        tlsSecretName: resource.spec?.tls?.[0]?.secretName || '',
         annotations: Object.entries(resource.metadata?.annotations || {}).map(([key, value]) => ({ key, value: String(value) }))
       };
 
@@ -268,9 +417,11 @@ function convertResourceToNodeData(resource: K8sResource, nodeType: K8sNodeType)
         label: name,
         serviceName: name,
         port: resource.spec?.ports?.[0]?.port || 80,
-        targetPort: resource.spec?.ports?.[0]?.targetPort || 8080,
+        // Kubernetes defaults targetPort to the service port
+        targetPort: resource.spec?.ports?.[0]?.targetPort || resource.spec?.ports?.[0]?.port || 8080,
         serviceType: resource.spec?.type || 'ClusterIP',
-        selectorLabels: Object.entries(resource.spec?.selector || {}).map(([key, value]) => ({ key, value: String(value) }))
+        selectorLabels: Object.entries(resource.spec?.selector || {}).map(([key, value]) => ({ key, value: String(value) })),
+        headless: resource.spec?.clusterIP === 'None'
       };
 
     case 'deployment':
@@ -279,18 +430,92 @@ function convertResourceToNodeData(resource: K8sResource, nodeType: K8sNodeType)
         type: 'deployment',
         label: name,
         deploymentName: name,
-        replicas: resource.spec?.replicas || 1,
+        replicas: resource.spec?.replicas ?? 1,
         containerName: container?.name || 'main',
         image: container?.image || 'nginx:latest',
-        containerPort: container?.ports?.[0]?.containerPort || 80,
+        containerPort: container?.ports?.[0]?.containerPort,
         envVars: (container?.env || []).map((e: any) => ({ key: e.name || '', value: e.value || '' })),
         labels: Object.entries(resource.spec?.template?.metadata?.labels || {}).map(([key, value]) => ({ key, value: String(value) })),
+        ...parseWorkloadLabels(resource),
         volumeMounts: [],
         cloudProvider: 'none',
         cloudProviderTemplateId: undefined,
         cloudProviderFields: {},
-        annotations: Object.entries(resource.metadata?.annotations || {}).map(([key, value]) => ({ key, value: String(value) }))
+        annotations: Object.entries(resource.metadata?.annotations || {}).map(([key, value]) => ({ key, value: String(value) })),
+        ...parseContainerSettings(container)
+      };
+
+    case 'statefulset': {
+      const statefulSetContainer = resource.spec?.template?.spec?.containers?.[0];
+      return {
+        type: 'statefulset',
+        label: name,
+        name: name,
+        serviceName: resource.spec?.serviceName || '',
+        replicas: resource.spec?.replicas ?? 1,
+        containerName: statefulSetContainer?.name || 'main',
+        image: statefulSetContainer?.image || 'nginx:latest',
+        containerPort: statefulSetContainer?.ports?.[0]?.containerPort,
+        envVars: (statefulSetContainer?.env || []).map((e) => ({ key: e.name || '', value: e.value || '' })),
+        labels: Object.entries(resource.spec?.template?.metadata?.labels || {}).map(([key, value]) => ({ key, value: String(value) })),
+        ...parseWorkloadLabels(resource),
+        podManagementPolicy: resource.spec?.podManagementPolicy || 'OrderedReady',
+        updateStrategy: resource.spec?.updateStrategy?.type || 'RollingUpdate',
+        volumeClaimTemplates: (resource.spec?.volumeClaimTemplates || []).map((vct) => ({
+          name: vct.metadata?.name || 'data',
+          mountPath: statefulSetContainer?.volumeMounts?.find((m) => m.name === vct.metadata?.name)?.mountPath || '/data',
+          storageClassName: vct.spec?.storageClassName || '',
+          size: vct.spec?.resources?.requests?.storage || '1Gi',
+          accessModes: vct.spec?.accessModes || ['ReadWriteOnce']
+        })),
+        ...parseContainerSettings(statefulSetContainer)
+      };
+    }
+
+    case 'daemonset': {
+      const daemonSetPodSpec = resource.spec?.template?.spec;
+      const daemonSetContainer = daemonSetPodSpec?.containers?.[0];
+      return {
+        type: 'daemonset',
+        label: name,
+        name: name,
+        containerName: daemonSetContainer?.name || 'agent',
+        image: daemonSetContainer?.image || 'busybox:latest',
+        containerPort: daemonSetContainer?.ports?.[0]?.containerPort,
+        envVars: (daemonSetContainer?.env || []).map((e) => ({ key: e.name || '', value: e.value || '' })),
+        labels: Object.entries(resource.spec?.template?.metadata?.labels || {}).map(([key, value]) => ({ key, value: String(value) })),
+        ...parseWorkloadLabels(resource),
+        nodeSelector: Object.entries(daemonSetPodSpec?.nodeSelector || {}).map(([key, value]) => ({ key, value: String(value) })),
+        tolerations: (daemonSetPodSpec?.tolerations || []).map((t) => ({
+          key: t.key || '',
+          operator: t.operator || 'Equal',
+          value: t.value || '',
+          effect: t.effect || ''
+        })),
+        ...parseContainerSettings(daemonSetContainer)
+      };
+    }
+
+    case 'job': {
+      const jobPodSpec = resource.spec?.template?.spec;
+      const jobMainContainer = jobPodSpec?.containers?.[0];
+      return {
+        type: 'job',
+        label: name,
+        name: name,
+        containerName: jobMainContainer?.name || name,
+        image: jobMainContainer?.image || 'busybox:latest',
+        command: jobMainContainer?.command || [],
+        args: jobMainContainer?.args || [],
+        envVars: (jobMainContainer?.env || []).map((e) => ({ key: e.name || '', value: e.value || '' })),
+        completions: resource.spec?.completions ?? 1,
+        parallelism: resource.spec?.parallelism ?? 1,
+        backoffLimit: resource.spec?.backoffLimit ?? 6,
+        ttlSecondsAfterFinished: resource.spec?.ttlSecondsAfterFinished,
+        restartPolicy: jobPodSpec?.restartPolicy === 'OnFailure' ? 'OnFailure' : 'Never',
+        ...parseContainerSettings(jobMainContainer)
       };
+    }
 
     case 'pod':
       const podContainer = resource.spec?.containers?.[0];
@@ -298,8 +523,10 @@ function convertResourceToNodeData(resource: K8sResource, nodeType: K8sNodeType)
         type: 'pod',
         label: name,
         name: name,
+        containerName: podContainer?.name || name,
         image: podContainer?.image || 'nginx:latest',
-        containerPort: podContainer?.ports?.[0]?.containerPort || 80
+        containerPort: podContainer?.ports?.[0]?.containerPort,
+        ...parseContainerSettings(podContainer)
       };
 
     case 'configmap':
@@ -316,7 +543,7 @@ function convertResourceToNodeData(resource: K8sResource, nodeType: K8sNodeType)
         label: name,
         name: name,
         secretType: resource.type || 'Opaque',
-        data: Object.entries(resource.data || {}).map(([key, value]) => ({ key, value: String(value) })),
+        data: Object.entries(resource.data || {}).map(([key, value]) => ({ key, value: decodeSecretValue(value) })),
         cloudProvider: 'none',
         cloudProviderTemplateId: undefined,
         cloudProviderFields: {},
@@ -344,9 +571,12 @@ function convertResourceToNodeData(resource: K8sResource, nodeType: K8sNodeType)
         label: name,
         name: name,
         schedule: resource.spec?.schedule || '*/5 * * * *',
+        containerName: jobContainer?.name || name,
         image: jobContainer?.image || 'busybox:latest',
         command: jobContainer?.command || [],
-        args: jobContainer?.args || []
+        args: jobContainer?.args || [],
+        restartPolicy: resource.spec?.jobTemplate?.spec?.template?.spec?.restartPolicy === 'Never' ? 'Never' : 'OnFailure',
+        ...parseContainerSettings(jobContainer)
       };
 
     case 'hpa':
@@ -357,7 +587,8 @@ function convertResourceToNodeData(resource: K8sResource, nodeType: K8sNodeType)
         targetDeployment: resource.spec?.scaleTargetRef?.name || '',
         minReplicas: resource.spec?.minReplicas || 1,
         maxReplicas: resource.spec?.maxReplicas || 10,
-        cpuTarget: resource.spec?.targetCPUUtilizationPercentage || resource.spec?.metrics?.[0]?.resource?.target?.averageUtilization || 80
+        cpuTarget: resource.spec?.targetCPUUtilizationPercentage || resource.spec?.metrics?.[0]?.resource?.target?.averageUtilization || 80,
+        metricResource: resource.spec?.metrics?.[0]?.resource?.name === 'memory' ? 'memory' : 'cpu'
       };
 
     case 'sidecar':
@@ -376,7 +607,8 @@ function convertResourceToNodeData(resource: K8sResource, nodeType: K8sNodeType)
         volumeMounts: [],
         cloudProvider: 'none',
         cloudProviderTemplateId: undefined,
-        cloudProviderFields: {}
+        cloudProviderFields: {},
+        ...parseContainerSettings(sidecarContainer)
       };
 
     default:
@@ -384,10 +616,94 @@ function convertResourceToNodeData(resource: K8sResource, nodeType: K8sNodeType)
   }
 }
 
+/**
+ * The generator derives a workload's selector and metadata labels from its
+ * pod labels; ones written differently are kept, since the selector is
+ * immutable once applied
+ */
+function parseWorkloadLabels(resource: K8sResource): { selectorLabels?: KeyValue[]; metadataLabels?: KeyValue[] } {
+  const podLabels = resource.spec?.template?.metadata?.labels || {};
+  const differs = (labels: Record<string, string>) =>
+    Object.keys(labels).length !== Object.keys(podLabels).length
+    || Object.entries(labels).some(([key, value]) => String(podLabels[key]) !== String(value));
+  const toKeyValues = (labels: Record<string, string>) =>
+    Object.entries(labels).map(([key, value]) => ({ key, value: String(value) }));
+  const selector = resource.spec?.selector?.matchLabels || {};
+  const metadataLabels = resource.metadata?.labels || {};
+  return {
+    ...(differs(selector) && { selectorLabels: toKeyValues(selector) }),
+    ...(differs(metadataLabels) && { metadataLabels: toKeyValues(metadataLabels) }),
+  };
+}
+
+/**
+ * Secret data is base64 in manifests but plain text on the node, and the
+ * generator encodes it again; values that aren't base64 are kept as written
+ */
+function decodeSecretValue(value: unknown): string {
+  const text = String(value);
+  try {
+    return atob(text.replace(/\s/g, ''));
+  } catch (error) {
+    return text;
+  }
+}
+
+function parseProbe(probe: K8sProbe | undefined): Probe | undefined {
+  if (!probe) return undefined;
+  return {
+    handler: probe.exec ? 'exec' : probe.tcpSocket ? 'tcpSocket' : 'httpGet',
+    path: probe.httpGet?.path || '/',
+    port: probe.httpGet?.port ?? probe.tcpSocket?.port ?? 80,
+    command: probe.exec?.command || [],
+    initialDelaySeconds: probe.initialDelaySeconds ?? 0,
+    periodSeconds: probe.periodSeconds ?? 10,
+    timeoutSeconds: probe.timeoutSeconds ?? 1,
+    failureThreshold: probe.failureThreshold ?? 3
+  };
+}
+
+/**
+ * Reads resources, probes and securityContext from a container spec
+ */
+function parseContainerSettings(container: K8sContainer | undefined): ContainerSettings {
+  if (!container) return {};
+
+  const settings: ContainerSettings = {
+    livenessProbe: parseProbe(container.livenessProbe),
+    readinessProbe: parseProbe(container.readinessProbe),
+    startupProbe: parseProbe(container.startupProbe)
+  };
+
+  if (container.resources) {
+    const { requests = {}, limits = {} } = container.resources;
+    settings.resources = {
+      cpuRequest: String(requests.cpu ?? ''),
+      memoryRequest: String(requests.memory ?? ''),
+      cpuLimit: String(limits.cpu ?? ''),
+      memoryLimit: String(limits.memory ?? '')
+    };
+  }
+
+  const securityContext = container.securityContext;
+  if (securityContext) {
+    // Fields the manifest doesn't set stay unset
+    settings.securityContext = {
+      runAsNonRoot: securityContext.runAsNonRoot,
+      runAsUser: securityContext.runAsUser,
+      readOnlyRootFilesystem: securityContext.readOnlyRootFilesystem,
+      allowPrivilegeEscalation: securityContext.allowPrivilegeEscalation,
+      dropAllCapabilities: (securityContext.capabilities?.drop || []).includes('ALL')
+    };
+  }
+
+  return settings;
+}
+
 /**
  * Fetches and parses a template YAML from the GitHub repository
  */
-export async function fetchTemplateYaml(path: string): Promise<{ nodes: Node<K8sNodeData>[]; edges: Edge[] }> {
+export async function fetchTemplateYaml(path: string, options: ParseYamlOptions = {}): Promise<ParsedGraph> {
   const url = `${YAML_BASE}/${path}`;
   const response = await fetch(url);
 
@@ -396,5 +712,5 @@ export async function fetchTemplateYaml(path: string): Promise<{ nodes: Node<K8s
   }
 
   const yamlText = await response.text();
-  return parseYamlToGraph(yamlText);
+  return parseYamlToGraph(yamlText, options);
 }
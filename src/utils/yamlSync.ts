@@ -0,0 +1,224 @@
+import * as yaml from 'js-yaml';
+import { Edge, Node } from 'reactflow';
+import { DiagramSettings, K8sNodeData } from '@/types/k8s';
+import { findResourceNode, getResourceName } from './diagramLint';
+import { KubernetesDocument } from './kubernetesVersions';
+import { isDeepEqual, orderedManifests } from './manifests';
+import { getNodeNamespace, sortNamespacesFirst } from './namespaces';
+import { validateManifest } from './schemaValidation';
+import { generateManifestsFromGraph } from './yamlGenerator';
+import { attachPassthrough, parseYamlToGraph } from './yamlParser';
+
+/**
+ * Reconciles YAML edited in the YAML panel back into the diagram. Documents
+ * are matched to nodes by kind, name and namespace, so edited resources keep
+ * their node id and position; only documents whose content changed are
+ * re-read, and fields the node model doesn't cover go into its passthrough layer.
+ */
+
+export interface YamlDocumentIssue {
+  // 1-based line in the edited text
+  line: number;
+  column?: number;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+/**
+ * nodes and edges are missing when the YAML doesn't parse; the diagram is
+ * left as it is until it does
+ */
+export interface YamlSyncResult {
+  nodes?: Node<K8sNodeData>[];
+  edges?: Edge[];
+  issues: YamlDocumentIssue[];
+}
+
+interface YamlDocument {
+  // 1-based line of the document's first line (after its --- separator)
+  line: number;
+  doc: KubernetesDocument | null;
+}
+
+// Derived from connections, so edits to them can't be kept
+export const GENERATED_ONLY_KINDS = ['NetworkPolicy'];
+
+function resourceKey(type: string, name: string | undefined, namespace: string | undefined): string {
+  return `${type}:${name}@${namespace || ''}`;
+}
+
+/**
+ * Splits the text on --- separators and parses each document on its own, so
+ * syntax errors and schema errors can be placed on the right line
+ */
+function readDocuments(yamlText: string): { documents: YamlDocument[]; issues: YamlDocumentIssue[] } {
+  const documents: YamlDocument[] = [];
+  const issues: YamlDocumentIssue[] = [];
+  const lines = yamlText.split('\n');
+
+  let start = 0;
+  for (let i = 0; i <= lines.length; i++) {
+    if (i < lines.length && !/^---(\s.*)?$/.test(lines[i])) continue;
+    const text = lines.slice(start, i).join('\n');
+    try {
+      documents.push({ line: start + 1, doc: (yaml.load(text) as KubernetesDocument | undefined) ?? null });
+    } catch (error) {
+      const mark = (error as yaml.YAMLException).mark;
+      issues.push({
+        line: start + (mark?.line ?? 0) + 1,
+        column: mark ? mark.column + 1 : undefined,
+        severity: 'error',
+        message: (error as yaml.YAMLException).reason || (error as Error).message,
+      });
+    }
+    start = i + 1;
+  }
+  return { documents, issues };
+}
+
+/**
+ * Secret values the diagram can't give back as written. Nodes hold the decoded
+ * value and the generator encodes it again, so only canonical base64 comes
+ * back byte for byte.
+ */
+function findSecretDataIssues(doc: KubernetesDocument): string[] {
+  if (doc.kind !== 'Secret') return [];
+  const data = (doc as KubernetesDocument & { data?: Record<string, unknown> }).data || {};
+  return Object.entries(data).flatMap(([key, value]) => {
+    const text = String(value);
+    try {
+      const canonical = btoa(atob(text.replace(/\s/g, '')));
+      return canonical === text ? [] : [`Secret data "${key}" will be rewritten as ${canonical}`];
+    } catch (error) {
+      return [`Secret data "${key}" is not base64; it is kept as plain text and encoded on export (use stringData for plain values)`];
+    }
+  });
+}
+
+/**
+ * Per-document problems shown as editor markers: kinds the diagram can't hold,
+ * missing names, Secret data that won't round-trip and schema errors for the
+ * target version
+ */
+function findDocumentIssues(documents: YamlDocument[], version: string, supportedKinds: Set<string>): YamlDocumentIssue[] {
+  return documents.flatMap<YamlDocumentIssue>(({ line, doc }) => {
+    if (!doc || typeof doc !== 'object') return [];
+    if (!doc.kind) {
+      return [{ line, severity: 'warning' as const, message: 'Document has no kind and is ignored' }];
+    }
+    if (GENERATED_ONLY_KINDS.includes(doc.kind)) {
+      return [{ line, severity: 'warning' as const, message: `${doc.kind} resources are generated from connections; edits to them are not kept` }];
+    }
+    if (!supportedKinds.has(doc.kind)) {
+      return [{ line, severity: 'warning' as const, message: `${doc.kind} has no diagram node and is dropped` }];
+    }
+    if (!doc.metadata?.name) {
+      return [{ line, severity: 'error' as const, message: `${doc.kind} has no metadata.name; its node is called Unnamed until it gets one` }];
+    }
+    return [
+      ...findSecretDataIssues(doc).map(message => ({ line, severity: 'warning' as const, message })),
+      ...(validateManifest(doc, version) || []).map(message => ({ line, severity: 'error' as const, message })),
+    ];
+  });
+}
+
+export async function applyYamlEdit(
+  nodes: Node<K8sNodeData>[],
+  edges: Edge[],
+  yamlText: string,
+  settings: DiagramSettings
+): Promise<YamlSyncResult> {
+  const { documents, issues: syntaxIssues } = readDocuments(yamlText);
+  if (syntaxIssues.length > 0) return { issues: syntaxIssues };
+
+  const parsed = await parseYamlToGraph(yamlText, { kubernetesVersion: settings.kubernetesVersion });
+
+  const parsedKey = (node: Node<K8sNodeData>) => {
+    const doc = parsed.sourceDocuments.get(node.id);
+    return doc
+      ? resourceKey(node.data.type, doc.metadata?.name, doc.metadata?.namespace)
+      : resourceKey(node.data.type, getResourceName(node.data), getNodeNamespace(node, parsed.nodes));
+  };
+
+  // What the diagram currently emits for each node, to tell which documents were edited
+  const currentManifests = new Map<string, unknown>();
+  orderedManifests(generateManifestsFromGraph(nodes, edges, settings)).forEach(manifest => {
+    const node = findResourceNode(manifest, nodes);
+    if (node) currentManifests.set(node.id, manifest);
+  });
+
+  const existingByKey = new Map<string, Node<K8sNodeData>>();
+  nodes.filter(n => n.data.type !== 'sidecar').forEach(n => {
+    const key = resourceKey(n.data.type, getResourceName(n.data), getNodeNamespace(n, nodes));
+    if (!existingByKey.has(key)) existingByKey.set(key, n);
+  });
+
+  const usedIds = new Set(nodes.map(n => n.id));
+  const idMap = new Map<string, string>();
+  const changedIds = new Set<string>();
+
+  parsed.nodes.forEach(p => {
+    const existing = existingByKey.get(parsedKey(p));
+    if (existing && ![...idMap.values()].includes(existing.id)) {
+      idMap.set(p.id, existing.id);
+      const doc = parsed.sourceDocuments.get(p.id);
+      if (doc && !isDeepEqual(doc, currentManifests.get(existing.id))) changedIds.add(existing.id);
+      return;
+    }
+    let id = p.id;
+    for (let i = 1; usedIds.has(id); i++) id = `${p.id}_${i}`;
+    usedIds.add(id);
+    idMap.set(p.id, id);
+    changedIds.add(id);
+  });
+
+  const resultNodes: Node<K8sNodeData>[] = parsed.nodes.map(p => {
+    const id = idMap.get(p.id);
+    const existing = nodes.find(n => n.id === id);
+    const parentId = p.parentId ? idMap.get(p.parentId) : undefined;
+    if (!existing) return { ...p, id, parentId };
+    if (!changedIds.has(id)) return existing;
+    // The label is display-only (except for Ingress, where it matched the name), so keep the user's
+    return { ...existing, parentId, data: { ...p.data, label: existing.data.label } as K8sNodeData };
+  });
+
+  // Sidecars have no document of their own; they stay as long as the diagram has them
+  const sidecars = nodes.filter(n => n.data.type === 'sidecar');
+  const nextNodes = sortNamespacesFirst([...resultNodes, ...sidecars]);
+  const nextIds = new Set(nextNodes.map(n => n.id));
+  const isDocumentNode = (id: string) => nextNodes.some(n => n.id === id && n.data.type !== 'sidecar');
+
+  // Relationships of edited documents are re-read from the YAML; all others stay as drawn
+  const keptEdges = edges.filter(e => nextIds.has(e.source) && nextIds.has(e.target)
+    && !(isDocumentNode(e.source) && isDocumentNode(e.target) && (changedIds.has(e.source) || changedIds.has(e.target))));
+  const derivedEdges = parsed.edges
+    .map(e => ({ ...e, source: idMap.get(e.source), target: idMap.get(e.target) }))
+    .filter(e => changedIds.has(e.source) || changedIds.has(e.target))
+    .filter((e, i, all) => all.findIndex(o => o.source === e.source && o.target === e.target) === i)
+    .filter(e => !keptEdges.some(k => k.source === e.source && k.target === e.target))
+    .map(e => {
+      // Existing edges keep their id, but whether they inject with envFrom is re-read
+      const existing = edges.find(o => o.source === e.source && o.target === e.target);
+      return existing ? { ...existing, data: e.data } : { ...e, id: `e-${e.source}-${e.target}` };
+    });
+  const nextEdges = [...keptEdges, ...derivedEdges];
+
+  // Sidecar nodes the parser doesn't know about cover their containers, so
+  // passthrough of edited documents is worked out again against the reconciled graph
+  const editedDocuments = new Map<string, KubernetesDocument>();
+  parsed.sourceDocuments.forEach((doc, parsedId) => {
+    const id = idMap.get(parsedId);
+    if (id && changedIds.has(id)) editedDocuments.set(id, doc);
+  });
+
+  const supportedKinds = new Set(parsed.nodes.flatMap(n => {
+    const doc = parsed.sourceDocuments.get(n.id);
+    return doc ? [doc.kind] : [];
+  }));
+
+  return {
+    nodes: attachPassthrough(nextNodes, nextEdges, editedDocuments, settings),
+    edges: nextEdges,
+    issues: findDocumentIssues(documents, settings.kubernetesVersion, supportedKinds),
+  };
+}